@@ -0,0 +1,102 @@
+/**
+ * Career Events
+ *
+ * Job changes and promotions spotted by enrichment (against the last profile
+ * snapshot) or by a connections sync (against the stored title and company)
+ * become a "congratulate" follow-up in the CRM, and a Chrome notification
+ * linking to the profile when show_notifications is on.
+ */
+
+import { storage } from '@/lib/storage';
+import { apiClient } from '@/lib/api-client';
+import { createLogger } from '@/lib/logger';
+import type { FollowUp } from '@/lib/supabase';
+import type { CareerEvent } from '@/types';
+
+const logger = createLogger('career-events');
+
+const FOLLOW_UP_SOURCE = 'linkedin_career_event';
+
+// The notification id carries the profile URL, so a click works after the worker restarts
+const NOTIFICATION_PREFIX = 'career-event|';
+
+/**
+ * Turn career events into follow-ups and notifications; events that already
+ * have a follow-up are skipped. Returns how many were new
+ */
+export async function recordCareerEvents(events: CareerEvent[]): Promise<number> {
+  if (events.length === 0) return 0;
+
+  let created: FollowUp[];
+  try {
+    created = await apiClient.createFollowUps(events.map(toFollowUp));
+  } catch (error) {
+    logger.error('Failed to create career event follow-ups:', error);
+    return 0;
+  }
+
+  logger.info(`${created.length} of ${events.length} career events are new`);
+  if (created.length === 0) return 0;
+
+  const settings = await storage.getSettings();
+  if (settings.show_notifications) {
+    const createdIds = new Set(created.map(f => f.source_id));
+    for (const event of events) {
+      if (createdIds.has(getSourceId(event))) {
+        notify(event);
+      }
+    }
+  }
+
+  return created.length;
+}
+
+/**
+ * Open the profile when one of our notifications is clicked
+ */
+export function handleCareerNotificationClick(notificationId: string): boolean {
+  if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return false;
+
+  chrome.tabs.create({ url: notificationId.slice(NOTIFICATION_PREFIX.length) });
+  chrome.notifications.clear(notificationId);
+  return true;
+}
+
+function toFollowUp(event: CareerEvent): FollowUp {
+  return {
+    contact_id: event.contact_id,
+    description: describeCongratulation(event),
+    priority: event.type === 'job_change' ? 'high' : 'medium',
+    status: 'pending',
+    due_date: new Date().toISOString().slice(0, 10),
+    source: FOLLOW_UP_SOURCE,
+    source_id: getSourceId(event),
+  };
+}
+
+/**
+ * One follow-up per contact and new position, however many times it's detected
+ */
+function getSourceId(event: CareerEvent): string {
+  return `${event.contact_id}:${event.to_title ?? ''}@${event.to_company ?? ''}`.toLowerCase();
+}
+
+function describeCongratulation(event: CareerEvent): string {
+  const role = [event.to_title, event.to_company].filter(Boolean).join(' at ');
+  return event.type === 'job_change'
+    ? `Congratulate ${event.name} on the new role: ${role}`
+    : `Congratulate ${event.name} on the promotion to ${role}`;
+}
+
+function notify(event: CareerEvent): void {
+  chrome.notifications.create(`${NOTIFICATION_PREFIX}${event.linkedin_url}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('public/icons/icon128.png'),
+    title: event.type === 'job_change' ? `${event.name} has a new job` : `${event.name} was promoted`,
+    message: describeCongratulation(event),
+    contextMessage: event.from_title || event.from_company
+      ? `Previously ${[event.from_title, event.from_company].filter(Boolean).join(' at ')}`
+      : undefined,
+    priority: 1,
+  });
+}
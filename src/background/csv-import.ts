@@ -0,0 +1,114 @@
+/**
+ * Connections.csv Import
+ *
+ * Imports the connections file from LinkedIn's data archive, for when the
+ * Voyager endpoints are broken or for a first big import. The popup previews
+ * the file first; the import then writes it like a bulk sync.
+ */
+
+import { apiClient } from '@/lib/api-client';
+import { storage } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+import { parseConnectionsCsv } from '@/lib/connections-csv';
+import { CSV_IMPORT } from '@/config/constants';
+import { recordCareerEvents } from './career-events';
+import { sendWebhookEvents, contactBatchEvents } from './webhooks';
+import type { Contact } from '@/lib/supabase';
+import type { BulkImportResponse, ConnectionsCsvPreview, LinkedInContact } from '@/types';
+
+const logger = createLogger('csv-import');
+
+/**
+ * What importing a file would do: new and existing contacts, duplicates and
+ * rows that can't be imported
+ */
+export async function previewConnectionsCsv(csv: string): Promise<ConnectionsCsvPreview> {
+  const parsed = parseConnectionsCsv(csv);
+  const existing = await getStoredContacts();
+  const existingCount = parsed.contacts.filter(contact => existing.has(contact.linkedin_url)).length;
+  const emailAddedCount = parsed.contacts.filter(contact => {
+    const stored = existing.get(contact.linkedin_url);
+    return stored && !stored.email && contact.email;
+  }).length;
+
+  return {
+    rows: parsed.rows,
+    contacts: parsed.contacts.length,
+    new_count: parsed.contacts.length - existingCount,
+    existing_count: existingCount,
+    duplicate_count: parsed.duplicate_count,
+    with_email: parsed.contacts.filter(contact => contact.email).length,
+    email_added_count: emailAddedCount,
+    issues: parsed.issues,
+    sample: parsed.contacts.slice(0, CSV_IMPORT.sampleSize),
+  };
+}
+
+/**
+ * Import a file through the bulk import pipeline, as connections of the active
+ * LinkedIn account
+ */
+export async function importConnectionsCsv(csv: string): Promise<BulkImportResponse> {
+  const parsed = parseConnectionsCsv(csv);
+  const existing = await getStoredContacts();
+  const account = await storage.getActiveLinkedInAccount();
+  const contacts = parsed.contacts.map(contact => ({
+    ...mergeWithStored(contact, existing.get(contact.linkedin_url)),
+    linkedin_account: account,
+  }));
+
+  logger.info(`Importing ${contacts.length} contacts from Connections.csv`);
+  return apiClient.bulkImportContacts(contacts, 'bulk', {
+    trigger: 'csv_import',
+    onBatch: async (batch, result) => {
+      await recordCareerEvents(
+        result.contacts.flatMap(contact => contact.outcome === 'updated' && contact.career_event ? [contact.career_event] : [])
+      );
+      await sendWebhookEvents(contactBatchEvents(batch, result));
+    },
+  });
+}
+
+/**
+ * Every contact in the CRM, archived included, by LinkedIn URL
+ */
+async function getStoredContacts(): Promise<Map<string, Contact>> {
+  const query = {
+    include_archived: true,
+    company: null,
+    connected_after: null,
+    linkedin_url: null,
+    with_experiences: false,
+    with_educations: false,
+    with_skills: false,
+  };
+
+  const contacts = new Map<string, Contact>();
+  for (let offset = 0; ; offset += CSV_IMPORT.lookupPageSize) {
+    const page = await apiClient.listContacts(query, offset, CSV_IMPORT.lookupPageSize);
+    for (const contact of page) {
+      contacts.set(contact.linkedin_url, contact);
+    }
+    if (page.length < CSV_IMPORT.lookupPageSize) break;
+  }
+  return contacts;
+}
+
+/**
+ * The file has no photo or headline and only the connection date, so an
+ * existing contact keeps those, and keeps any title or company the file leaves
+ * blank. Its email is only taken where the stored one is empty
+ */
+function mergeWithStored(contact: LinkedInContact, stored: Contact | undefined): LinkedInContact {
+  if (!stored) return contact;
+
+  return {
+    ...contact,
+    title: contact.title ?? stored.title ?? null,
+    company: contact.company ?? stored.company ?? null,
+    occupation: stored.occupation ?? contact.occupation,
+    profile_image_url: stored.profile_image_url ?? null,
+    connected_at: stored.connected_at ?? contact.connected_at,
+    email: stored.email || contact.email || null,
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { EXPORT } from '@/config/constants';
+import { STORAGE_KEYS } from '@/types';
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: { listContacts: vi.fn() },
+}));
+
+import { scheduleExport } from './exporter';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+describe('scheduleExport', () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    fake = installFakeChrome();
+    fake.store[STORAGE_KEYS.SETTINGS] = { export_schedule: 'daily' };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the next run when the worker restarts', async () => {
+    await scheduleExport();
+    expect(fake.alarms.get(EXPORT.alarmName)?.scheduledTime).toBe(NOW + DAY_MS);
+
+    // Startup schedules again on every wake
+    for (let hour = 1; hour < 24; hour++) {
+      vi.setSystemTime(NOW + hour * 60 * 60_000);
+      await scheduleExport();
+    }
+
+    expect(fake.alarms.get(EXPORT.alarmName)?.scheduledTime).toBe(NOW + DAY_MS);
+  });
+
+  it('runs an export missed while the browser was closed now', async () => {
+    fake.store[STORAGE_KEYS.LAST_SCHEDULED_EXPORT] = NOW - 3 * DAY_MS;
+    await scheduleExport();
+    expect(fake.alarms.get(EXPORT.alarmName)?.scheduledTime).toBe(NOW);
+  });
+
+  it('moves the next run when the schedule changes', async () => {
+    await scheduleExport();
+    fake.store[STORAGE_KEYS.SETTINGS] = { export_schedule: 'weekly' };
+    await scheduleExport();
+    expect(fake.alarms.get(EXPORT.alarmName)?.scheduledTime).toBe(NOW + 7 * DAY_MS);
+  });
+
+  it('clears the alarm when turned off, and starts afresh when turned on again', async () => {
+    await scheduleExport();
+    fake.store[STORAGE_KEYS.SETTINGS] = { export_schedule: 'off' };
+    await scheduleExport();
+    expect(fake.alarms.has(EXPORT.alarmName)).toBe(false);
+
+    vi.setSystemTime(NOW + 10 * DAY_MS);
+    fake.store[STORAGE_KEYS.SETTINGS] = { export_schedule: 'daily' };
+    await scheduleExport();
+    expect(fake.alarms.get(EXPORT.alarmName)?.scheduledTime).toBe(NOW + 11 * DAY_MS);
+  });
+});
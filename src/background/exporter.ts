@@ -0,0 +1,163 @@
+/**
+ * Contact Export
+ *
+ * Downloads the synced contacts as CSV or JSON Lines through chrome.downloads,
+ * on demand from the popup or on a daily/weekly schedule. Scheduled exports
+ * reuse the options of the last manual export.
+ */
+
+import { storage } from '@/lib/storage';
+import { apiClient } from '@/lib/api-client';
+import { createLogger } from '@/lib/logger';
+import { formatContactExport } from '@/lib/contact-export';
+import { normalizeProfileUrl } from '@/lib/voyager-parser';
+import { EXPORT } from '@/config/constants';
+import type { ContactWithDetails } from '@/lib/supabase';
+import type { ExportOptions, ExportResult, ExportSchedule, OffscreenMessage } from '@/types';
+
+const logger = createLogger('exporter');
+
+const SCHEDULE_MINUTES: Record<Exclude<ExportSchedule, 'off'>, number> = {
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+};
+
+/**
+ * Export every contact matching the options and start the download
+ */
+export async function exportContacts(options: ExportOptions): Promise<ExportResult> {
+  const linkedinUrl = options.linkedin_url && (normalizeProfileUrl(options.linkedin_url) || options.linkedin_url.trim());
+  const query = { ...options, linkedin_url: linkedinUrl };
+  const contacts: ContactWithDetails[] = [];
+  for (let offset = 0; ; offset += EXPORT.pageSize) {
+    const page = await apiClient.listContacts(query, offset, EXPORT.pageSize);
+    contacts.push(...page);
+    if (page.length < EXPORT.pageSize) break;
+  }
+  if (query.linkedin_url && contacts.length === 0) {
+    throw new Error('No synced contact with that profile URL');
+  }
+
+  const { content, mimeType, extension } = formatContactExport(contacts, options);
+  const filename = `${EXPORT.folder}/contacts-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  await downloadFile(content, mimeType, filename);
+
+  logger.info(`Exported ${contacts.length} contacts to ${filename}`);
+  return { filename, count: contacts.length };
+}
+
+/**
+ * Create, change or remove the scheduled export alarm to match settings
+ */
+export async function scheduleExport(): Promise<void> {
+  const { export_schedule: schedule } = await storage.getSettings();
+  if (schedule === 'off') {
+    await chrome.alarms.clear(EXPORT.alarmName);
+    await storage.setLastScheduledExport(null);
+    return;
+  }
+
+  // Due a period after the last run, so waking the worker or changing other settings doesn't push it back;
+  // a run missed while the browser was closed is due now
+  const now = Date.now();
+  let lastRun = await storage.getLastScheduledExport();
+  if (lastRun === null) {
+    lastRun = now;
+    await storage.setLastScheduledExport(lastRun);
+  }
+  const when = Math.max(lastRun + SCHEDULE_MINUTES[schedule] * 60_000, now);
+
+  const existing = await chrome.alarms.get(EXPORT.alarmName);
+  if (existing?.scheduledTime === when) return;
+
+  chrome.alarms.create(EXPORT.alarmName, { when });
+  logger.info(`Next ${schedule} contact export at ${new Date(when).toISOString()}`);
+}
+
+/**
+ * Scheduled export alarm: export with the last used options, then schedule the next run
+ */
+export async function handleScheduledExport(): Promise<void> {
+  const settings = await storage.getSettings();
+  if (settings.export_schedule === 'off') return;
+
+  // Recorded before exporting, so a failed export waits for the next period instead of retrying at once
+  await storage.setLastScheduledExport(Date.now());
+  try {
+    await exportContacts(await storage.getExportOptions());
+  } catch (error) {
+    logger.error('Scheduled export failed:', error);
+  }
+  await scheduleExport();
+}
+
+let offscreenDocument: Promise<void> | null = null;
+
+/**
+ * Download a file through an object URL from the offscreen document; data URLs
+ * of large exports are too long for chrome.downloads
+ */
+async function downloadFile(content: string, mimeType: string, filename: string): Promise<void> {
+  await openOffscreenDocument();
+  const { url } = await chrome.runtime.sendMessage<OffscreenMessage, { url: string }>({
+    target: 'offscreen',
+    type: 'CREATE_OBJECT_URL',
+    data: { content, mimeType },
+  });
+
+  let downloadId: number;
+  try {
+    downloadId = await chrome.downloads.download({ url, filename, conflictAction: 'uniquify', saveAs: false });
+  } catch (error) {
+    await releaseObjectUrl(url);
+    throw error;
+  }
+
+  // Free the file once the download ends, which may already have happened
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    chrome.downloads.onChanged.removeListener(onChanged);
+    releaseObjectUrl(url).catch(error => {
+      logger.warn('Failed to release export file:', error);
+    });
+  };
+  const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+    if (delta.id === downloadId && delta.state && delta.state.current !== 'in_progress') release();
+  };
+  chrome.downloads.onChanged.addListener(onChanged);
+  const [item] = await chrome.downloads.search({ id: downloadId });
+  if (!item || item.state !== 'in_progress') release();
+}
+
+/**
+ * Open the offscreen document unless it's open already
+ */
+function openOffscreenDocument(): Promise<void> {
+  // Concurrent exports share one attempt, as only one offscreen document may exist
+  offscreenDocument ??= (async () => {
+    if (await chrome.offscreen.hasDocument()) return;
+    await chrome.offscreen.createDocument({
+      url: EXPORT.offscreenDocument,
+      reasons: [chrome.offscreen.Reason.BLOBS],
+      justification: 'Create object URLs for contact export downloads',
+    });
+  })().finally(() => {
+    offscreenDocument = null;
+  });
+  return offscreenDocument;
+}
+
+/**
+ * Revoke a download's object URL, and close the offscreen document once no download needs it
+ */
+async function releaseObjectUrl(url: string): Promise<void> {
+  const { remaining } = await chrome.runtime.sendMessage<OffscreenMessage, { remaining: number }>({
+    target: 'offscreen',
+    type: 'REVOKE_OBJECT_URL',
+    data: { url },
+  });
+  if (remaining === 0) await chrome.offscreen.closeDocument();
+}
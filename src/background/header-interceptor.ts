@@ -6,9 +6,15 @@
  * LinkedIn's Voyager API directly.
  * 
  * Based on reverse-engineering of Harmonic's extension.
+ *
+ * Headers are stored per LinkedIn account, so logging in as someone else
+ * never hands their session to another account's sync.
  */
 
 import { createLogger } from '@/lib/logger';
+import { storage } from '@/lib/storage';
+import { identifyLinkedInAccount } from './linkedin-accounts';
+import { STORAGE_KEYS } from '@/types';
 
 const logger = createLogger('header-interceptor');
 
@@ -21,14 +27,6 @@ const REQUIRED_HEADERS = [
   'csrf-token',
 ];
 
-// Storage keys
-const STORAGE_KEYS = {
-  HEADERS: 'linkedinHeaders',
-  HEADERS_UPDATED_AT: 'linkedinHeadersUpdatedAt',
-  HEADERS_FOR_AUTO_SYNC: 'linkedinHeadersForAutoSync',
-  HEADERS_FOR_MANUAL_SYNC: 'linkedinHeadersForManualSync',
-};
-
 export interface LinkedInHeaders {
   'x-li-lang'?: string;
   'x-li-page-instance'?: string;
@@ -106,26 +104,8 @@ export function initializeHeaderInterceptor(): void {
         return;
       }
 
-      // Store headers for manual sync (from connections page)
-      if (isConnectionsPageRequest(details.requestHeaders)) {
-        logger.debug('Captured headers from connections page');
-        chrome.storage.local.set({
-          [STORAGE_KEYS.HEADERS_FOR_MANUAL_SYNC]: headers,
-        });
-      }
-      
-      // Store headers for auto sync (from feed/profile pages)
-      if (isAutoSyncEligibleRequest(details.requestHeaders)) {
-        logger.debug('Captured headers for auto sync');
-        chrome.storage.local.set({
-          [STORAGE_KEYS.HEADERS_FOR_AUTO_SYNC]: headers,
-          [STORAGE_KEYS.HEADERS_UPDATED_AT]: Date.now(),
-        });
-      }
-
-      // Always update the general headers storage
-      chrome.storage.local.set({
-        [STORAGE_KEYS.HEADERS]: headers,
+      storeHeaders(headers, details.requestHeaders).catch(error => {
+        logger.error('Failed to store headers:', error);
       });
     },
     { urls: ['*://*.linkedin.com/voyager/api/*'] },
@@ -136,28 +116,58 @@ export function initializeHeaderInterceptor(): void {
 }
 
 /**
- * Get stored LinkedIn headers
+ * Store captured headers under the account whose session sent them
+ */
+async function storeHeaders(
+  headers: LinkedInHeaders,
+  requestHeaders: chrome.webRequest.HttpHeader[] | undefined
+): Promise<void> {
+  const account = await identifyLinkedInAccount(headers);
+  if (!account) return;
+  
+  const key = (name: string) => `${name}:${account.member_urn}`;
+  
+  // Always update the general headers storage
+  const values: Record<string, unknown> = { [key(STORAGE_KEYS.LINKEDIN_HEADERS)]: headers };
+  
+  // Store headers for manual sync (from connections page)
+  if (isConnectionsPageRequest(requestHeaders)) {
+    logger.debug('Captured headers from connections page');
+    values[key(STORAGE_KEYS.LINKEDIN_HEADERS_FOR_MANUAL_SYNC)] = headers;
+  }
+  
+  // Store headers for auto sync (from feed/profile pages)
+  if (isAutoSyncEligibleRequest(requestHeaders)) {
+    logger.debug('Captured headers for auto sync');
+    values[key(STORAGE_KEYS.LINKEDIN_HEADERS_FOR_AUTO_SYNC)] = headers;
+    values[key(STORAGE_KEYS.LINKEDIN_HEADERS_UPDATED_AT)] = Date.now();
+  }
+  
+  await chrome.storage.local.set(values);
+}
+
+/**
+ * Get the active account's stored LinkedIn headers
  */
 export async function getStoredHeaders(): Promise<LinkedInHeaders | null> {
-  const result = await chrome.storage.local.get([
-    STORAGE_KEYS.HEADERS,
-    STORAGE_KEYS.HEADERS_FOR_MANUAL_SYNC,
-    STORAGE_KEYS.HEADERS_FOR_AUTO_SYNC,
+  const [headers, manual, auto] = await Promise.all([
+    storage.accountKey(STORAGE_KEYS.LINKEDIN_HEADERS),
+    storage.accountKey(STORAGE_KEYS.LINKEDIN_HEADERS_FOR_MANUAL_SYNC),
+    storage.accountKey(STORAGE_KEYS.LINKEDIN_HEADERS_FOR_AUTO_SYNC),
   ]);
+  const result = await chrome.storage.local.get([headers, manual, auto]);
   
   // Prefer manual sync headers, then auto sync, then general
-  return result[STORAGE_KEYS.HEADERS_FOR_MANUAL_SYNC] ||
-         result[STORAGE_KEYS.HEADERS_FOR_AUTO_SYNC] ||
-         result[STORAGE_KEYS.HEADERS] ||
-         null;
+  return result[manual] || result[auto] || result[headers] || null;
 }
 
 /**
- * Get headers last updated timestamp
+ * Get when the active account's headers were last updated
  */
 export async function getHeadersUpdatedAt(): Promise<number | null> {
-  const result = await chrome.storage.local.get(STORAGE_KEYS.HEADERS_UPDATED_AT);
-  return result[STORAGE_KEYS.HEADERS_UPDATED_AT] || null;
+  const key = await storage.accountKey(STORAGE_KEYS.LINKEDIN_HEADERS_UPDATED_AT);
+  const result = await chrome.storage.local.get(key);
+  return result[key] || null;
 }
 
 /**
@@ -20,27 +20,56 @@ import {
   isLinkedInLoggedIn,
   getCsrfTokenFromCookies,
 } from './header-interceptor';
-import { fetchAllConnections, enrichProfiles, type ParsedConnection, type FullProfileData } from '@/lib/voyager-client';
+import { requireActiveLinkedInAccount, getLinkedInAccounts, switchLinkedInAccount } from './linkedin-accounts';
+import { fetchAllConnections, enrichProfiles, isAbortError, isProfileGoneError, type ParsedConnection, type FullProfileData } from '@/lib/voyager-client';
 import { connectionsToContacts, fullProfileToEnrichedContact } from '@/lib/voyager-parser';
-import { supabase } from '@/lib/supabase';
-import type { ExtensionMessage, SyncState } from '@/types';
+import { toProfileSnapshot } from '@/lib/profile-history';
+import { validateFieldMapping } from '@/lib/field-mapping';
+import { checkBackendSettings, BACKEND_SETTING_KEYS } from '@/lib/backend-check';
+import { getSupabase, onSupabaseClient, getUserId, toAuthState, type SyncHistoryEntry } from '@/lib/supabase';
+import { AUTO_SYNC, PROFILE_REFRESH, EXPORT, BATCH_SIZE, MAX_BATCH_SIZE, RECONCILE } from '@/config/constants';
+import { JobManager, type JobContext, type JobOutcome } from './job-manager';
+import { scheduleAutoSync, scheduleSettingsChanged, retryAutoSyncLater, isIntervalSyncDue, getAutoSyncSchedule } from './sync-scheduler';
+import { planProfileRefresh, getRemainingRefreshBudget, scheduleProfileRefresh } from './refresh-planner';
+import { recordCareerEvents, handleCareerNotificationClick } from './career-events';
+import { replayOutbox, hasPendingWrites, queueContactsWrite, queueProfileWrite, getOutboxStatus } from './outbox-replay';
+import { exportContacts, scheduleExport, handleScheduledExport } from './exporter';
+import { previewConnectionsCsv, importConnectionsCsv } from './csv-import';
+import { sendWebhookEvents, deliverWebhooks, testWebhook, getWebhookDeliveries, contactBatchEvents, profileSaveEvents, archivedContactEvents } from './webhooks';
+import { STORAGE_KEYS, type AuthState, type OAuthProvider, type ExtensionMessage, type ExtensionSettings, type AutoSyncSchedule, type SyncStatusResponse, type BackgroundJob, type SyncJob, type ConnectionsSyncJob, type EnrichmentJob, type EnrichmentTarget, type EnrichmentQueueSummary, type ProfileSaveResult, type OutboxStatus, type SyncWatermark, type WebhookDelivery, type FieldMappingConfig, type ExportOptions, type ExportResult, type ConnectionsCsvPreview, type BulkImportResponse, type LinkedInAccountsResponse } from '@/types';
 
 // Constants
 const ALARMS = {
-  AUTO_SYNC: 'linkedin-auto-sync',
+  AUTO_SYNC: AUTO_SYNC.alarmName, // Scheduled from settings, see sync-scheduler.ts
+  PROFILE_REFRESH: PROFILE_REFRESH.alarmName, // Stale profile re-enrichment, see refresh-planner.ts
   HEALTH_CHECK: 'linkedin-health-check',
+  EXPORT: EXPORT.alarmName, // Scheduled contact export, see exporter.ts
 };
 
 const SYNC_CONFIG = {
-  AUTO_SYNC_INTERVAL_HOURS: 12,
+  FULL_SYNC_INTERVAL_DAYS: 7, // Auto-syncs are incremental, with a full reconciliation this often
   HEALTH_CHECK_INTERVAL_MINUTES: 1,
   HEADERS_MAX_AGE_MINUTES: 3,
 };
 
+// DISABLED: Auto-enrichment causes LinkedIn 410 errors
+// Enrichment should be done manually or in small batches to avoid detection
+const ENABLE_AUTO_ENRICHMENT = false; // Set to true to enable (not recommended)
+
 // Sync state
-let syncInProgress = false;
 let currentSyncTabId: number | null = null;
 
+// Syncs and enrichment share the LinkedIn session, so they run one at a time from this queue
+const jobManager = new JobManager(
+  {
+    full_sync: { run: runSync, discard: discardSyncJob },
+    incremental_sync: { run: runSync, discard: discardSyncJob },
+    enrichment: { run: runEnrichment, discard: discardSyncJob },
+    profile_refresh: { run: runEnrichment, discard: discardSyncJob },
+  },
+  broadcastJobs
+);
+
 // ============ Initialization ============
 
 /**
@@ -55,12 +84,22 @@ async function initialize(): Promise<void> {
   // Setup alarms
   await setupAlarms();
   
-  // Initialize sync state
-  await storage.updateSyncState({
-    status: 'idle',
-    progress: { current: 0, total: null, batch_number: 0, started_at: 0 },
-    error: null,
-  });
+  // Resume an interrupted job from its checkpoint, or start the next queued one
+  await jobManager.start();
+  
+  // Initialize sync state (a running or paused job reports its own)
+  if (!(await jobManager.isBusy())) {
+    // A checkpoint with no job in the queue can't be resumed
+    if (await storage.getSyncJob()) {
+      logger.warn('Dropping checkpoint with no queued job');
+      await storage.clearSyncJob();
+    }
+    await storage.updateSyncState({
+      status: 'idle',
+      progress: { current: 0, total: null, batch_number: 0, started_at: 0 },
+      error: null,
+    });
+  }
   
   logger.info('Initialization complete');
 }
@@ -69,14 +108,17 @@ async function initialize(): Promise<void> {
  * Setup recurring alarms
  */
 async function setupAlarms(): Promise<void> {
-  // Clear existing alarms
-  await chrome.alarms.clearAll();
+  // Runs every time the worker wakes, so existing alarms aren't cleared here:
+  // each schedule function decides whether to keep or replace its own
   
-  // Auto-sync alarm (every 12 hours)
-  chrome.alarms.create(ALARMS.AUTO_SYNC, {
-    periodInMinutes: SYNC_CONFIG.AUTO_SYNC_INTERVAL_HOURS * 60,
-    delayInMinutes: 1, // First check after 1 minute
-  });
+  // Auto-sync alarm (from settings: daily, weekdays, every N hours or off)
+  await scheduleAutoSync({ keepPending: true });
+  
+  // Re-enrich stale profiles within the daily budget
+  await scheduleProfileRefresh();
+  
+  // Daily or weekly contact export download
+  await scheduleExport();
   
   // Health check alarm (every minute - to check if user is on LinkedIn)
   chrome.alarms.create(ALARMS.HEALTH_CHECK, {
@@ -86,57 +128,179 @@ async function setupAlarms(): Promise<void> {
   logger.info('Alarms configured');
 }
 
+// Reschedule auto-sync, profile refresh and exports whenever the settings change, from the popup or elsewhere,
+// and follow the active LinkedIn account in the job queue
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === 'local' && changes[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT]) {
+    // Start the jobs queued under the newly active LinkedIn account
+    jobManager.setActiveAccount(changes[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT].newValue ?? null).catch(error => {
+      logger.error('Failed to switch the job queue to the active account:', error);
+    });
+  }
+  if (area === 'local' && changes[STORAGE_KEYS.SETTINGS]) {
+    const { oldValue, newValue } = changes[STORAGE_KEYS.SETTINGS];
+    if (scheduleSettingsChanged(oldValue, newValue)) {
+      scheduleAutoSync().catch(error => {
+        logger.error('Failed to reschedule auto-sync:', error);
+      });
+    }
+    scheduleProfileRefresh().catch(error => {
+      logger.error('Failed to reschedule profile refresh:', error);
+    });
+    scheduleExport().catch(error => {
+      logger.error('Failed to reschedule contact export:', error);
+    });
+    // Switch to the configured Supabase project now, so its session is mirrored
+    connectSupabase();
+  }
+});
+
+onSupabaseClient(client => {
+  // Mirror the Supabase session into storage, where the REST sink and popup read it
+  client.auth.onAuthStateChange((_event, session) => {
+    const auth = toAuthState(session);
+    const saved = auth.token ? storage.setAuth({ token: auth.token, user: auth.user }) : storage.clearAuth();
+    saved.catch(error => {
+      logger.error('Failed to save auth state:', error);
+    });
+  });
+
+  // Service workers aren't browsers to supabase-js, so token refresh has to be started;
+  // the health check also refreshes, for when the worker was asleep
+  client.auth.startAutoRefresh().catch(error => {
+    logger.error('Failed to start session refresh:', error);
+  });
+});
+
+connectSupabase();
+
+// Career event notifications open the contact's profile
+chrome.notifications.onClicked.addListener((notificationId) => {
+  handleCareerNotificationClick(notificationId);
+});
+
 // ============ Alarm Handlers ============
 
 chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === ALARMS.AUTO_SYNC) {
     await handleAutoSync();
+  } else if (alarm.name === ALARMS.PROFILE_REFRESH) {
+    await handleProfileRefresh();
   } else if (alarm.name === ALARMS.HEALTH_CHECK) {
     await handleHealthCheck();
+  } else if (alarm.name === ALARMS.EXPORT) {
+    await handleScheduledExport();
   }
 });
 
 /**
  * Handle auto-sync alarm
+ * The alarm fires once, so every outcome schedules the next run
  */
 async function handleAutoSync(): Promise<void> {
   logger.info('Auto-sync alarm triggered');
   
-  // Check if sync is already in progress
-  if (syncInProgress) {
-    logger.info('Sync already in progress, skipping');
-    return;
+  let retrying = false;
+  try {
+    const settings = await storage.getSettings();
+    if (!settings.auto_sync_enabled) {
+      logger.info('Auto-sync disabled, skipping');
+      return;
+    }
+    
+    if (!(await getUserId())) {
+      logger.info('Not signed in, skipping auto-sync');
+      return;
+    }
+    
+    // Check if headers are fresh
+    const headersFresh = await areHeadersFreshForAutoSync(SYNC_CONFIG.HEADERS_MAX_AGE_MINUTES);
+    if (!headersFresh) {
+      logger.info('Headers not fresh, skipping auto-sync. User needs to visit LinkedIn.');
+      await retryAutoSyncLater();
+      retrying = true;
+      return;
+    }
+    
+    // Check last sync time
+    const { last_sync } = await storage.getSyncState();
+    if (!isIntervalSyncDue(settings, last_sync)) {
+      logger.info(`Last sync was less than ${settings.auto_sync_interval_hours}h ago, skipping`);
+    } else {
+      // Queue sync (a sync already waiting is reused)
+      await jobManager.enqueue(await planAutoSync(), 'auto');
+    }
+  } finally {
+    if (!retrying) {
+      await scheduleAutoSync();
+    }
   }
+}
+
+/**
+ * Handle profile refresh alarm: queue the most overdue stale profiles that
+ * fit in what's left of today's budget
+ */
+async function handleProfileRefresh(): Promise<void> {
+  const settings = await storage.getSettings();
+  if (!settings.refresh_enabled) return;
+  if (!(await getUserId())) return;
   
-  // Check if headers are fresh
-  const headersFresh = await areHeadersFreshForAutoSync(SYNC_CONFIG.HEADERS_MAX_AGE_MINUTES);
-  if (!headersFresh) {
-    logger.info('Headers not fresh, skipping auto-sync. User needs to visit LinkedIn.');
+  const remaining = await getRemainingRefreshBudget(settings);
+  if (remaining === 0) {
+    logger.debug('Profile refresh budget used up for today');
     return;
   }
   
-  // Check last sync time
-  const syncState = await storage.getSyncState();
-  const lastSync = syncState.last_sync;
-  const minInterval = SYNC_CONFIG.AUTO_SYNC_INTERVAL_HOURS * 60 * 60 * 1000;
+  if (!(await areHeadersFreshForAutoSync(SYNC_CONFIG.HEADERS_MAX_AGE_MINUTES))) {
+    logger.debug('Headers not fresh, skipping profile refresh');
+    return;
+  }
   
-  if (lastSync && (Date.now() - lastSync) < minInterval) {
-    logger.info(`Last sync was less than ${SYNC_CONFIG.AUTO_SYNC_INTERVAL_HOURS}h ago, skipping`);
+  // Contacts differ between plans, so the queue wouldn't catch a duplicate
+  const jobs = await jobManager.list();
+  if (jobs.some(job => job.type === 'profile_refresh' && job.trigger === 'auto' && (job.status === 'queued' || job.status === 'running' || job.status === 'paused'))) {
+    logger.debug('Previous profile refresh still pending');
     return;
   }
   
-  // Run sync
-  await runSync('auto');
+  try {
+    const contactIds = await planProfileRefresh(Math.min(remaining, PROFILE_REFRESH.maxPerRun));
+    if (contactIds.length === 0) {
+      logger.debug('No stale profiles to refresh');
+      return;
+    }
+    
+    await jobManager.enqueue('profile_refresh', 'auto', { contact_ids: contactIds });
+  } catch (error) {
+    logger.error('Failed to plan profile refresh:', error);
+  }
 }
 
 /**
- * Handle health check - just log status
+ * Handle health check - log status, replay any CRM writes held in the outbox
+ * and retry webhook deliveries that are due
  */
 async function handleHealthCheck(): Promise<void> {
   const isLoggedIn = await isLinkedInLoggedIn();
   const headersFresh = await areHeadersFreshForAutoSync(SYNC_CONFIG.HEADERS_MAX_AGE_MINUTES);
   
   logger.debug(`Health check: loggedIn=${isLoggedIn}, headersFresh=${headersFresh}`);
+  
+  // Refreshes the access token if it expired while the worker was asleep
+  await apiClient.getAuthState();
+  
+  try {
+    await replayOutbox();
+  } catch (error) {
+    logger.error('Outbox replay failed:', error);
+  }
+
+  try {
+    await deliverWebhooks();
+  } catch (error) {
+    logger.error('Webhook delivery failed:', error);
+  }
 }
 
 // ============ Sync Logic ============
@@ -144,18 +308,51 @@ async function handleHealthCheck(): Promise<void> {
 type SyncType = 'auto' | 'manual';
 
 /**
- * Run a sync operation
+ * Run a full or incremental sync job from the queue
+ * A paused or interrupted job continues from its checkpoint at the next pagination offset
  */
-async function runSync(type: SyncType): Promise<{ success: boolean; count: number }> {
-  if (syncInProgress) {
-    logger.warn('Sync already in progress');
-    return { success: false, count: 0 };
-  }
+async function runSync(queued: BackgroundJob, context: JobContext): Promise<JobOutcome> {
+  const { signal } = context;
+  const type: SyncType = queued.trigger;
+  const checkpoint = await storage.getSyncJob();
+  const resumeFrom = checkpoint?.id === queued.id && checkpoint.kind === 'sync' ? checkpoint : undefined;
+  const watermark = queued.type === 'incremental_sync' ? await storage.getSyncWatermark() : null;
+  const job: ConnectionsSyncJob = resumeFrom
+    ? { ...resumeFrom, status: 'running' }
+    : {
+        id: queued.id,
+        kind: 'sync',
+        sync_type: type,
+        mode: watermark ? 'incremental' : 'full',
+        watermark,
+        newest: null,
+        status: 'running',
+        start: 0,
+        fetched: 0,
+        total: null,
+        pending: [],
+        history_id: null,
+        batches: 0,
+        results: { new_count: 0, updated_count: 0, unchanged_count: 0, skipped_count: 0 },
+        changed_fields: {},
+        archived: 0,
+        outboxed: 0,
+        linkedin_account: null,
+        errors: [],
+        started_at: Date.now(),
+        updated_at: Date.now(),
+      };
+  const startTime = job.started_at;
+  // Every connection fetched by this segment of a full sync, for archiving removed
+  // ones. Only kept in memory: a paused or restarted run can't be trusted to have
+  // seen everyone, as removals meanwhile shift the pagination offsets
+  const seenUrls: string[] = [];
   
-  syncInProgress = true;
-  const startTime = Date.now();
+  const historyType: SyncHistoryEntry['sync_type'] = job.mode === 'incremental' ? 'incremental' : 'bulk';
   
-  logger.info(`Starting ${type} sync`);
+  logger.info(resumeFrom
+    ? `Resuming ${type} ${job.mode} sync at offset ${job.start}`
+    : `Starting ${type} ${job.mode} sync`);
   
   // Update badge
   chrome.action.setBadgeBackgroundColor({ color: '#0A66C2' });
@@ -165,12 +362,12 @@ async function runSync(type: SyncType): Promise<{ success: boolean; count: numbe
     // Update state
     await storage.updateSyncState({
       status: 'syncing',
-      progress: { current: 0, total: null, batch_number: 0, started_at: startTime },
+      progress: { current: job.fetched, total: job.total, batch_number: job.batches, started_at: startTime },
       error: null,
     });
     
     // Broadcast start
-    broadcastProgress('syncing', 0, null);
+    broadcastProgress('syncing', job.fetched, job.total);
     
     // Get headers
     let headers = await getStoredHeaders();
@@ -186,216 +383,104 @@ async function runSync(type: SyncType): Promise<{ success: boolean; count: numbe
       const csrfToken = await getCsrfTokenFromCookies();
       if (csrfToken) {
         headers = { ...headers, 'csrf-token': csrfToken };
+      } else if (resumeFrom) {
+        // Keep the saved job so it can be resumed once the session is back
+        const reason = 'No LinkedIn session. Visit LinkedIn, then resume.';
+        await finishWaitingRun(resumeFrom, reason);
+        return { status: 'paused', error: reason };
       } else {
         throw new Error('No LinkedIn session. Please visit LinkedIn first.');
       }
     }
     
-    // Get most recent connection URL for incremental sync
-    const stats = await apiClient.getSyncStats();
-    const mostRecentUrl = type === 'auto' ? await getMostRecentConnectionUrl() : undefined;
+    // Connections go to the account the run was started for
+    job.linkedin_account = (await requireActiveLinkedInAccount(headers)).member_urn;
+    
+    // One sync_history entry accumulates the results of every batch of the run
+    if (!job.history_id) {
+      job.history_id = await apiClient.startSyncRun(historyType);
+    }
+    await checkpointJob(job);
     
     // Fetch connections
-    const { connections, total } = await fetchAllConnections(
-      headers,
-      (fetched, totalCount) => {
+    const { total } = await fetchAllConnections(headers, {
+      onPage: async (page, nextStart) => {
+        // Checkpoint after every page so a restarted worker continues from here
+        job.pending.push(...page);
+        job.fetched += page.length;
+        job.start = nextStart;
+        job.newest = getNewestConnection(page, job.newest);
+        if (job.mode === 'full') {
+          seenUrls.push(...page.map(conn => conn.linkedinUrl));
+        }
+        await checkpointJob(job);
+
+        await flushPendingConnections(job);
+      },
+      onProgress: (_fetched, totalCount) => {
+        job.total = totalCount ?? job.total;
+        context.progress(job.fetched, job.total);
+
         // Update progress
-        const progress = totalCount ? Math.round((fetched / totalCount) * 100) : null;
-        chrome.action.setBadgeText({ text: progress ? `${progress}%` : `${fetched}` });
-        broadcastProgress('syncing', fetched, totalCount);
+        const progress = job.total ? Math.round((job.fetched / job.total) * 100) : null;
+        chrome.action.setBadgeText({ text: progress ? `${progress}%` : `${job.fetched}` });
+        broadcastProgress('syncing', job.fetched, job.total);
         
         storage.updateSyncState({
           progress: {
-            current: fetched,
-            total: totalCount,
-            batch_number: Math.floor(fetched / 80),
+            current: job.fetched,
+            total: job.total,
+            batch_number: job.batches,
             started_at: startTime,
           },
         });
       },
-      mostRecentUrl
-    );
-    
-    logger.info(`Fetched ${connections.length} connections`);
+      watermark: job.watermark
+        ? { connectedAt: job.watermark.connected_at, entityUrn: job.watermark.entity_urn }
+        : undefined,
+      start: job.start,
+      signal,
+    });
     
-    // Save to database
-    if (connections.length > 0) {
-      const contacts = connectionsToContacts(connections);
-      const result = await apiClient.bulkImportContacts(contacts as any);
-      logger.info(`Saved: ${result.new_count} new, ${result.updated_count} updated`);
+    logger.info(`Fetched ${job.fetched} connections`);
 
-      // DISABLED: Auto-enrichment causes LinkedIn 410 errors
-      // Enrichment should be done manually or in small batches to avoid detection
-      const ENABLE_AUTO_ENRICHMENT = false; // Set to true to enable (not recommended)
+    // Stop requested after the last page came back - leave the unsaved tail
+    signal.throwIfAborted();
 
-      if (ENABLE_AUTO_ENRICHMENT) {
-        logger.info(`Starting automatic enrichment for ${connections.length} contacts`);
+    // Write whatever is left over from the last page
+    await flushPendingConnections(job, true);
+    logger.info(`Saved in ${job.batches} batches: ${job.results.new_count} new, ${job.results.updated_count} updated, ${job.results.unchanged_count} unchanged, ${job.results.skipped_count} failed`);
 
-      // Extract identifiers from all connections
-      const identifiers: string[] = [];
-      const urlToConnection = new Map<string, ParsedConnection>();
-
-      for (const conn of connections) {
-        const match = conn.linkedinUrl.match(/linkedin\.com\/in\/([^/?#]+)/);
-        if (match) {
-          identifiers.push(match[1]);
-          urlToConnection.set(match[1], conn);
-        }
-      }
-
-      if (identifiers.length > 0) {
-        // Enrich profiles
-        let enrichedCount = 0;
-        await enrichProfiles(
-          identifiers,
-          headers,
-          async (completed, totalToEnrich, profile) => {
-            // Update badge with enrichment progress
-            const pct = Math.round((completed / totalToEnrich) * 100);
-            chrome.action.setBadgeText({ text: `📊${pct}%` });
-
-            // Save profile if successfully fetched
-            if (profile) {
-              const identifier = identifiers[completed - 1];
-              const conn = urlToConnection.get(identifier);
-
-              if (conn) {
-                try {
-                  const { contact: enrichedContact, experiences, educations, skills } =
-                    fullProfileToEnrichedContact(profile, conn.linkedinUrl);
-
-                // Update contact
-                const { data: contactData, error: contactLookupError } = await supabase
-                  .from('contacts')
-                  .select('id')
-                  .eq('linkedin_url', conn.linkedinUrl)
-                  .single();
-
-                if (contactLookupError) {
-                  logger.error(`Failed to find contact for ${conn.linkedinUrl}:`, contactLookupError);
-                  return;
-                }
-
-                if (contactData) {
-                  const contactId = contactData.id;
-                  logger.debug(`Enriching contact ${contactId}: ${enrichedContact.name}`);
-
-                  // Update contact with enriched data (always overwrite)
-                  const { error: updateError } = await supabase
-                    .from('contacts')
-                    .update({
-                      ...enrichedContact,
-                      updated_at: new Date().toISOString(),
-                    })
-                    .eq('id', contactId);
-
-                  if (updateError) {
-                    logger.error(`Failed to update contact ${contactId}:`, updateError);
-                  }
-
-                  // Delete old experiences and insert fresh data
-                  await supabase.from('experiences').delete().eq('contact_id', contactId);
-                  if (experiences.length > 0) {
-                    const { error: expError } = await supabase.from('experiences').insert(
-                      experiences.map(e => ({ ...e, contact_id: contactId }))
-                    );
-                    if (expError) {
-                      logger.error(`Failed to insert experiences for ${contactId}:`, expError);
-                    } else {
-                      logger.debug(`Inserted ${experiences.length} experiences for ${contactId}`);
-                    }
-                  }
-
-                  // Delete old educations and insert fresh data
-                  await supabase.from('educations').delete().eq('contact_id', contactId);
-                  if (educations.length > 0) {
-                    const { error: eduError } = await supabase.from('educations').insert(
-                      educations.map(e => ({ ...e, contact_id: contactId }))
-                    );
-                    if (eduError) {
-                      logger.error(`Failed to insert educations for ${contactId}:`, eduError);
-                    } else {
-                      logger.debug(`Inserted ${educations.length} educations for ${contactId}`);
-                    }
-                  }
-
-                  // Delete old skills and insert fresh data
-                  await supabase.from('skills').delete().eq('contact_id', contactId);
-                  if (skills.length > 0) {
-                    const { error: skillError } = await supabase.from('skills').insert(
-                      skills.map(s => ({ ...s, contact_id: contactId }))
-                    );
-                    if (skillError) {
-                      logger.error(`Failed to insert skills for ${contactId}:`, skillError);
-                    } else {
-                      logger.debug(`Inserted ${skills.length} skills for ${contactId}`);
-                    }
-                  }
-
-                  // Update linkedin_profiles (upsert overwrites)
-                  const nameParts = enrichedContact.name.split(' ');
-                  const { error: profileError } = await supabase
-                    .from('linkedin_profiles')
-                    .upsert({
-                      contact_id: contactId,
-                      linkedin_url: conn.linkedinUrl,
-                      full_name: enrichedContact.name,
-                      first_name: nameParts[0] || null,
-                      last_name: nameParts.slice(1).join(' ') || null,
-                      headline: enrichedContact.headline,
-                      location: enrichedContact.location,
-                      about: enrichedContact.about,
-                      profile_image_url: enrichedContact.profile_image_url,
-                      current_title: enrichedContact.title,
-                      current_company: enrichedContact.company,
-                      experience: enrichedContact.linkedin_data.experiences,
-                      education: enrichedContact.linkedin_data.educations,
-                      skills: enrichedContact.linkedin_data.skills,
-                      scrape_status: 'complete',
-                      scraped_at: enrichedContact.scraped_at,
-                      updated_at: new Date().toISOString(),
-                    }, { onConflict: 'linkedin_url' });
-
-                  if (profileError) {
-                    logger.error(`Failed to upsert linkedin_profiles for ${contactId}:`, profileError);
-                  }
-
-                  enrichedCount++;
-                  logger.info(`Successfully enriched ${enrichedCount}/${identifiers.length}: ${enrichedContact.name}`);
-                }
-                } catch (error) {
-                  logger.error(`Error processing enrichment for ${conn.linkedinUrl}:`, error);
-                }
-              }
-            } else {
-              // Profile fetch failed (likely 410 error) - log and continue
-              const identifier = identifiers[completed - 1];
-              logger.warn(`Skipping enrichment for ${identifier} - profile fetch failed`);
-            }
-          },
-          5000 // 5 second delay between profile requests to avoid 410 errors
-        );
-
-        logger.info(`Auto-enrichment complete: ${enrichedCount}/${identifiers.length} profiles enriched`);
-      }
-      } else {
-        logger.info('Auto-enrichment disabled - use manual enrichment for specific contacts');
-      }
-    }
+    // A complete full sync knows every current connection, so anyone missing was removed
+    const reconciled = job.mode === 'full' && await archiveRemovedConnections(job, seenUrls, !!resumeFrom);
 
     // Update state
     const duration = Date.now() - startTime;
+    if (job.history_id) {
+      await apiClient.updateSyncRun(job.history_id, {
+        // Failed only if no batch made it into the CRM
+        status: job.batches > 0 && job.results.skipped_count > 0 &&
+          job.results.new_count + job.results.updated_count + job.results.unchanged_count === 0
+          ? 'failed'
+          : 'completed',
+        completed_at: new Date().toISOString(),
+        duration_ms: duration,
+        error_message: job.errors.length > 0 ? job.errors.join('; ') : null,
+        metadata: getRunMetadata(job),
+      });
+    }
+
     await storage.updateSyncState({
       status: 'completed',
       last_sync: Date.now(),
-      total_synced: (stats.total_contacts || 0) + connections.length,
+      total_synced: await apiClient.getTotalContacts(),
       error: null,
     });
 
-    // Update badge
-    if (connections.length > 0) {
+    // Update badge - "+N" counts genuinely new connections only
+    if (job.results.new_count > 0) {
       chrome.action.setBadgeBackgroundColor({ color: '#22c55e' });
-      chrome.action.setBadgeText({ text: `+${connections.length}` });
+      chrome.action.setBadgeText({ text: `+${job.results.new_count}` });
 
       // Clear badge after 10 seconds
       setTimeout(() => {
@@ -405,15 +490,65 @@ async function runSync(type: SyncType): Promise<{ success: boolean; count: numbe
       chrome.action.setBadgeText({ text: '' });
     }
 
-    broadcastProgress('completed', connections.length, total);
+    broadcastProgress('completed', job.fetched, total);
+    
+    // Next incremental sync stops at the newest connection seen here
+    if (job.newest) {
+      await storage.setSyncWatermark(job.newest);
+    }
+    // Otherwise the next auto-sync is a full one again
+    if (reconciled) {
+      await storage.setLastFullSync(Date.now());
+    }
+    await storage.clearSyncJob();
+    
+    // New connections were queued for enrichment when they were inserted
+    if (ENABLE_AUTO_ENRICHMENT && job.results.new_count > 0) {
+      await jobManager.enqueue('enrichment', 'auto', { limit: job.results.new_count });
+    }
+    
+    // Interval schedules count from the last sync, whatever started it
+    await scheduleAutoSync();
 
-    logger.info(`Sync completed in ${Math.round(duration / 1000)}s: ${connections.length} connections`);
+    logger.info(`Sync completed in ${Math.round(duration / 1000)}s: ${job.fetched} connections`);
 
-    return { success: true, count: connections.length };
+    return {
+      status: 'completed',
+      result: {
+        fetched: job.fetched,
+        new: job.results.new_count,
+        updated: job.results.updated_count,
+        unchanged: job.results.unchanged_count,
+        failed: job.results.skipped_count,
+        archived: job.archived,
+      },
+    };
     
   } catch (error) {
+    if (isAbortError(error)) {
+      if (context.stopReason() === 'pause') {
+        // Keep what was fetched so resuming doesn't refetch it
+        await flushPendingConnections(job, true);
+        await finishPausedRun(job);
+        return { status: 'paused' };
+      }
+      await storage.clearSyncJob();
+      await finishCancelledRun(historyType, startTime, job.fetched, job.history_id);
+      return { status: 'cancelled' };
+    }
+
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Sync failed:', error);
+    await storage.clearSyncJob();
+
+    if (job.history_id) {
+      await apiClient.updateSyncRun(job.history_id, {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        duration_ms: Date.now() - startTime,
+        error_message: [...job.errors, errorMsg].join('; '),
+      });
+    }
     
     await storage.updateSyncState({
       status: 'error',
@@ -425,11 +560,9 @@ async function runSync(type: SyncType): Promise<{ success: boolean; count: numbe
     
     broadcastProgress('error', 0, null, errorMsg);
     
-    return { success: false, count: 0 };
+    return { status: 'failed', error: errorMsg };
     
   } finally {
-    syncInProgress = false;
-    
     // Close tab if we opened one
     if (currentSyncTabId) {
       try {
@@ -442,6 +575,273 @@ async function runSync(type: SyncType): Promise<{ success: boolean; count: numbe
   }
 }
 
+/**
+ * Decide between a full and an incremental auto-sync
+ * Auto-syncs are incremental once a watermark exists, with a periodic full
+ * reconciliation; manual syncs are always full
+ */
+async function planAutoSync(): Promise<'full_sync' | 'incremental_sync'> {
+  const watermark = await storage.getSyncWatermark();
+  const lastFullSync = await storage.getLastFullSync();
+  const fullSyncInterval = SYNC_CONFIG.FULL_SYNC_INTERVAL_DAYS * 24 * 60 * 60 * 1000;
+  
+  if (!watermark || !lastFullSync || (Date.now() - lastFullSync) > fullSyncInterval) {
+    logger.info('No watermark or full reconciliation due, running full sync');
+    return 'full_sync';
+  }
+  
+  return 'incremental_sync';
+}
+
+/**
+ * Get the newest connection of a page, or the current newest if it's newer
+ */
+function getNewestConnection(
+  page: ParsedConnection[],
+  current: SyncWatermark | null
+): SyncWatermark | null {
+  let newest = current;
+  for (const conn of page) {
+    if (conn.entityUrn && (!newest || conn.connectedAt > newest.connected_at)) {
+      newest = { connected_at: conn.connectedAt, entity_urn: conn.entityUrn };
+    }
+  }
+  return newest;
+}
+
+/**
+ * Write pending connections to the CRM in batches of up to MAX_BATCH_SIZE,
+ * adding each batch's results to the run's sync_history entry
+ * A tail smaller than BATCH_SIZE stays pending for the next page unless `flushAll` is set
+ */
+async function flushPendingConnections(
+  job: ConnectionsSyncJob,
+  flushAll = false
+): Promise<void> {
+  const { connection: mapping } = await storage.getFieldMapping();
+  while (job.pending.length >= BATCH_SIZE || (flushAll && job.pending.length > 0)) {
+    const batch = job.pending.slice(0, MAX_BATCH_SIZE);
+    const contacts = connectionsToContacts(batch, mapping)
+      .map(contact => ({ ...contact, linkedin_account: job.linkedin_account ?? null }));
+    
+    // Earlier writes still in the outbox have to land first
+    const result = (await hasPendingWrites()) ? null : await apiClient.importContactsBatch(contacts);
+    if (!result || result.unavailable) {
+      await queueContactsWrite(contacts);
+      job.pending = job.pending.slice(batch.length);
+      job.outboxed = (job.outboxed || 0) + batch.length;
+      await checkpointJob(job);
+      continue;
+    }
+    
+    job.pending = job.pending.slice(batch.length);
+    job.batches++;
+    job.results.new_count += result.new_count;
+    job.results.updated_count += result.updated_count;
+    job.results.unchanged_count += result.unchanged_count;
+    job.results.skipped_count += result.skipped_count;
+    for (const contact of result.contacts) {
+      if (contact.outcome !== 'updated') continue;
+      for (const field of contact.changed_fields) {
+        job.changed_fields[field] = (job.changed_fields[field] || 0) + 1;
+      }
+    }
+    await recordCareerEvents(
+      result.contacts.flatMap(contact => contact.outcome === 'updated' && contact.career_event ? [contact.career_event] : [])
+    );
+    await sendWebhookEvents(contactBatchEvents(contacts, result));
+    if (result.error) {
+      job.errors.push(`Batch ${job.batches}: ${result.error}`);
+    }
+    await checkpointJob(job);
+    
+    logger.debug(`Batch ${job.batches}: ${result.new_count} new, ${result.updated_count} updated, ${result.unchanged_count} unchanged, ${result.skipped_count} failed`);
+    
+    if (job.history_id) {
+      // skipped_contacts = everything not written: unchanged plus failed
+      await apiClient.updateSyncRun(job.history_id, {
+        total_found: job.fetched,
+        new_contacts: job.results.new_count,
+        updated_contacts: job.results.updated_count,
+        skipped_contacts: job.results.unchanged_count + job.results.skipped_count,
+        metadata: getRunMetadata(job),
+      });
+    }
+    
+    await storage.updateSyncState({
+      progress: { current: job.fetched, total: job.total, batch_number: job.batches, started_at: job.started_at },
+    });
+  }
+}
+
+/**
+ * Summary of a sync run's batches for its sync_history entry
+ */
+function getRunMetadata(job: ConnectionsSyncJob): Record<string, unknown> {
+  return {
+    source: 'linkedin_extension',
+    batches: job.batches,
+    unchanged: job.results.unchanged_count,
+    failed: job.results.skipped_count,
+    changed_fields: job.changed_fields,
+    archived: job.archived,
+    outboxed: job.outboxed || 0,
+  };
+}
+
+/**
+ * Archive contacts that are no longer LinkedIn connections after a full sync.
+ * Skipped when the run was paused or resumed, or the fetch looks truncated;
+ * never fails the sync itself. Returns whether the check ran
+ */
+async function archiveRemovedConnections(
+  job: ConnectionsSyncJob,
+  seenUrls: string[],
+  resumed: boolean
+): Promise<boolean> {
+  if (resumed) {
+    logger.warn('Full sync was paused or interrupted, skipping removed-connection check');
+    return false;
+  }
+  if (!job.total || seenUrls.length < job.total * RECONCILE.minFetchedRatio) {
+    logger.warn(`Fetched ${seenUrls.length} of ${job.total ?? '?'} connections, skipping removed-connection check`);
+    return false;
+  }
+
+  try {
+    const result = await apiClient.archiveRemovedConnections(seenUrls, job.linkedin_account ?? null);
+    job.archived = result.archived;
+    await sendWebhookEvents(archivedContactEvents(result.archived_contacts || []));
+    if (result.blocked) {
+      job.errors.push(`${result.missing} connections missing, too many to archive safely`);
+    }
+    return true;
+  } catch (error) {
+    logger.error('Removed-connection check failed:', error);
+    job.errors.push(`Archiving removed connections failed: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
+}
+
+/**
+ * Persist the job's cursor (offset, enrichment index, unsaved connections)
+ */
+async function checkpointJob(job: SyncJob): Promise<void> {
+  job.updated_at = Date.now();
+  await storage.saveSyncJob(job);
+}
+
+/**
+ * Get a job's position as progress numbers for the popup
+ */
+function getJobProgress(job: SyncJob): { current: number; total: number | null; batches: number } {
+  return job.kind === 'sync'
+    ? { current: job.fetched, total: job.total, batches: job.batches }
+    : { current: job.index, total: job.targets.length, batches: 0 };
+}
+
+/**
+ * Mark a job stopped via PAUSE_SYNC as paused so RESUME_SYNC can pick it up
+ */
+async function finishPausedRun(job: SyncJob): Promise<void> {
+  const { current, total, batches } = getJobProgress(job);
+  logger.info(`${job.kind === 'sync' ? 'Sync' : 'Enrichment'} paused at ${current}/${total ?? '?'}`);
+
+  job.status = 'paused';
+  await checkpointJob(job);
+  await storage.updateSyncState({
+    status: 'paused',
+    progress: { current, total, batch_number: batches, started_at: job.started_at },
+    error: null,
+  });
+
+  chrome.action.setBadgeBackgroundColor({ color: '#eab308' });
+  chrome.action.setBadgeText({ text: '⏸' });
+  broadcastProgress('paused', current, total);
+}
+
+/**
+ * Report a saved job that couldn't be resumed yet; it stays paused/interrupted in storage
+ */
+async function finishWaitingRun(job: SyncJob, reason: string): Promise<void> {
+  const { current, total, batches } = getJobProgress(job);
+  logger.warn(`Cannot resume ${job.kind} job ${job.id}: ${reason}`);
+
+  await storage.updateSyncState({
+    status: 'paused',
+    progress: { current, total, batch_number: batches, started_at: job.started_at },
+    error: reason,
+  });
+
+  chrome.action.setBadgeBackgroundColor({ color: '#eab308' });
+  chrome.action.setBadgeText({ text: '⏸' });
+  broadcastProgress('paused', current, total, reason);
+}
+
+/**
+ * Record a run stopped via STOP_SYNC: cancelled state, badge and sync_history row
+ */
+async function finishCancelledRun(
+  syncType: SyncHistoryEntry['sync_type'],
+  startTime: number,
+  processed: number,
+  historyId: string | null = null,
+  account?: string | null
+): Promise<void> {
+  const duration = Date.now() - startTime;
+  logger.info(`${syncType === 'enrichment' ? 'Enrichment' : 'Sync'} cancelled after ${processed} items`);
+
+  await storage.updateSyncState({
+    status: 'cancelled',
+    error: null,
+  }, account);
+
+  // The badge and popup follow the active account, which may be running its own job
+  if (!account || account === await storage.getActiveLinkedInAccount()) {
+    chrome.action.setBadgeText({ text: '' });
+    broadcastProgress('cancelled', processed, null);
+  }
+
+  // Close the run's own entry if batches were already written to it
+  if (historyId) {
+    await apiClient.updateSyncRun(historyId, {
+      status: 'cancelled',
+      completed_at: new Date().toISOString(),
+      duration_ms: duration,
+    });
+    return;
+  }
+
+  await apiClient.recordSyncRun({
+    sync_type: syncType,
+    status: 'cancelled',
+    total_found: processed,
+    started_at: new Date(startTime).toISOString(),
+    completed_at: new Date().toISOString(),
+    duration_ms: duration,
+    metadata: { source: 'linkedin_extension' },
+  });
+}
+
+/**
+ * Stop a paused or interrupted job for good: drop its checkpoint and record it as cancelled
+ */
+async function discardSyncJob(queued: BackgroundJob): Promise<void> {
+  // A paused job can belong to an account that is no longer active; its checkpoint is under that account's keys
+  const account = queued.linkedin_account;
+  const job = await storage.getSyncJob(account);
+  if (job?.id !== queued.id) return;
+  
+  await storage.clearSyncJob(account);
+  await finishCancelledRun(
+    job.kind === 'enrichment' ? 'enrichment' : job.mode === 'incremental' ? 'incremental' : 'bulk',
+    job.started_at,
+    getJobProgress(job).current,
+    job.kind === 'sync' ? job.history_id : null,
+    account
+  );
+}
+
 /**
  * Refresh headers by opening a LinkedIn tab
  */
@@ -476,20 +876,11 @@ async function refreshHeadersViaTab(): Promise<typeof getStoredHeaders extends (
   return getStoredHeaders();
 }
 
-/**
- * Get most recent connection URL from database
- */
-async function getMostRecentConnectionUrl(): Promise<string | undefined> {
-  // This would query your database for the most recent connection
-  // For now, return undefined to do a full sync
-  return undefined;
-}
-
 /**
  * Broadcast progress to popup
  */
 function broadcastProgress(
-  status: 'syncing' | 'completed' | 'error',
+  status: 'syncing' | 'paused' | 'completed' | 'cancelled' | 'error',
   current: number,
   total: number | null,
   error?: string
@@ -502,6 +893,18 @@ function broadcastProgress(
   });
 }
 
+/**
+ * Send the job queue to the popup
+ */
+function broadcastJobs(jobs: BackgroundJob[]): void {
+  chrome.runtime.sendMessage({
+    type: 'JOBS_UPDATED',
+    data: { jobs },
+  }).catch(() => {
+    // Popup not open, ignore
+  });
+}
+
 // ============ Message Handling ============
 
 chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendResponse) => {
@@ -527,113 +930,498 @@ async function handleMessage(
     case 'STOP_SYNC':
       return handleStopSync();
       
+    case 'PAUSE_SYNC':
+      return handlePauseSync();
+      
+    case 'RESUME_SYNC':
+      return handleResumeSync();
+      
     case 'GET_SYNC_STATUS':
       return handleGetSyncStatus();
       
     case 'GET_AUTH_STATUS':
       return handleGetAuthStatus();
       
+    case 'SIGN_IN':
+      return handleSignIn(message.data as { email?: string; password?: string } | undefined);
+      
+    case 'SIGN_IN_OAUTH':
+      return handleSignInOAuth(message.data as { provider?: OAuthProvider } | undefined);
+      
+    case 'SIGN_OUT':
+      return handleSignOut();
+      
     case 'START_ENRICHMENT':
       return handleStartEnrichment(message.data as { limit?: number } | undefined);
       
+    case 'REFRESH_PROFILES':
+      return handleRefreshProfiles(message.data as { contact_ids?: string[] } | undefined);
+      
+    case 'CANCEL_JOB':
+      return handleCancelJob(message.data as { id?: string } | undefined);
+      
+    case 'GET_ENRICHMENT_QUEUE':
+      return handleGetEnrichmentQueue();
+      
+    case 'RETRY_ENRICHMENT':
+      return handleRetryEnrichment(message.data as { id?: string } | undefined);
+      
+    case 'GET_SYNC_HISTORY':
+      return handleGetSyncHistory(message.data as { limit?: number } | undefined);
+      
+    case 'GET_OUTBOX_STATUS':
+      return handleGetOutboxStatus();
+      
+    case 'GET_WEBHOOK_DELIVERIES':
+      return handleGetWebhookDeliveries();
+      
+    case 'TEST_WEBHOOK':
+      return handleTestWebhook(message.data as Partial<ExtensionSettings> | undefined);
+      
+    case 'GET_FIELD_MAPPING':
+      return handleGetFieldMapping();
+      
+    case 'UPDATE_FIELD_MAPPING':
+      return handleUpdateFieldMapping(message.data as FieldMappingConfig | null);
+      
+    case 'GET_EXPORT_OPTIONS':
+      return handleGetExportOptions();
+      
+    case 'EXPORT_CONTACTS':
+      return handleExportContacts(message.data as ExportOptions | undefined);
+      
+    case 'PREVIEW_CONNECTIONS_CSV':
+      return handlePreviewConnectionsCsv(message.data as { csv?: string } | undefined);
+      
+    case 'IMPORT_CONNECTIONS_CSV':
+      return handleImportConnectionsCsv(message.data as { csv?: string } | undefined);
+      
+    case 'GET_LINKEDIN_ACCOUNTS':
+      return handleGetLinkedInAccounts();
+      
+    case 'SWITCH_LINKEDIN_ACCOUNT':
+      return handleSwitchLinkedInAccount(message.data as { member_urn?: string } | undefined);
+      
+    case 'GET_SCHEDULE':
+      return handleGetSchedule();
+      
+    case 'GET_SETTINGS':
+      return handleGetSettings();
+      
+    case 'UPDATE_SETTINGS':
+      return handleUpdateSettings(message.data as Partial<ExtensionSettings> | undefined);
+      
     default:
       return { success: false, error: `Unknown message type: ${message.type}` };
   }
 }
 
-async function handleStartSync(): Promise<{ success: boolean; error?: string }> {
-  if (syncInProgress) {
-    return { success: false, error: 'Sync already in progress' };
+async function handleStartSync(): Promise<{ success: boolean; data?: BackgroundJob; error?: string }> {
+  if (!(await getUserId())) {
+    return { success: false, error: 'Sign in first' };
   }
   
-  // Run sync in background
-  runSync('manual').catch(error => {
-    logger.error('Manual sync failed:', error);
-  });
-  
-  return { success: true };
+  // Manual syncs are always full; queued behind whatever is running
+  const job = await jobManager.enqueue('full_sync', 'manual');
+  return { success: true, data: job };
 }
 
-async function handleStopSync(): Promise<{ success: boolean }> {
-  // Currently no way to stop mid-sync with fetch API
-  // Could implement AbortController in the future
+async function handleStopSync(): Promise<{ success: boolean; error?: string }> {
+  // Aborts in-flight Voyager requests, or discards a paused job's checkpoint
   logger.info('Stop sync requested');
+  if (!(await jobManager.cancel())) {
+    return { success: false, error: 'No sync in progress' };
+  }
+  return { success: true };
+}
+
+async function handlePauseSync(): Promise<{ success: boolean; error?: string }> {
+  logger.info('Pause sync requested');
+  if (!(await jobManager.pause())) {
+    return { success: false, error: 'No sync in progress' };
+  }
   return { success: true };
 }
 
-async function handleGetSyncStatus(): Promise<{ success: boolean; data: SyncState }> {
+async function handleResumeSync(): Promise<{ success: boolean; error?: string }> {
+  if (!(await jobManager.resume())) {
+    return { success: false, error: 'No paused sync to resume' };
+  }
+  return { success: true };
+}
+
+async function handleCancelJob(
+  options?: { id?: string }
+): Promise<{ success: boolean; error?: string }> {
+  if (!options?.id) {
+    return { success: false, error: 'Missing job id' };
+  }
+  if (!(await jobManager.cancel(options.id))) {
+    return { success: false, error: 'Job is not queued or running' };
+  }
+  return { success: true };
+}
+
+async function handleGetSyncStatus(): Promise<{ success: boolean; data: SyncStatusResponse }> {
   const state = await storage.getSyncState();
-  return { success: true, data: state };
+  const jobs = await jobManager.list();
+  return { success: true, data: { ...state, jobs } };
+}
+
+async function handleGetSyncHistory(
+  options?: { limit?: number }
+): Promise<{ success: boolean; data: SyncHistoryEntry[] }> {
+  return { success: true, data: await apiClient.getSyncHistory(options?.limit) };
+}
+
+async function handleGetOutboxStatus(): Promise<{ success: boolean; data: OutboxStatus }> {
+  return { success: true, data: await getOutboxStatus() };
+}
+
+async function handleGetWebhookDeliveries(): Promise<{ success: boolean; data: WebhookDelivery[] }> {
+  return { success: true, data: await getWebhookDeliveries() };
+}
+
+async function handleTestWebhook(
+  overrides?: Partial<ExtensionSettings>
+): Promise<{ success: boolean; data: WebhookDelivery }> {
+  const delivery = await testWebhook(overrides);
+  return { success: delivery.status === 'delivered', data: delivery };
+}
+
+async function handleGetFieldMapping(): Promise<{ success: boolean; data: FieldMappingConfig }> {
+  return { success: true, data: await storage.getFieldMapping() };
+}
+
+/**
+ * Save an edited field mapping, or reset it with null; an invalid one is refused
+ */
+async function handleUpdateFieldMapping(
+  mapping: FieldMappingConfig | null
+): Promise<{ success: boolean; data?: FieldMappingConfig; error?: string }> {
+  if (mapping) {
+    const errors = [
+      ...validateFieldMapping('connection', mapping.connection),
+      ...validateFieldMapping('profile', mapping.profile),
+    ];
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('; ') };
+    }
+  }
+
+  await storage.setFieldMapping(mapping);
+  return { success: true, data: await storage.getFieldMapping() };
+}
+
+async function handleGetExportOptions(): Promise<{ success: boolean; data: ExportOptions }> {
+  return { success: true, data: await storage.getExportOptions() };
+}
+
+/**
+ * Export contacts and download the file; the options become the ones scheduled
+ * exports use, unless this was a single contact
+ */
+async function handleExportContacts(
+  options?: ExportOptions
+): Promise<{ success: boolean; data?: ExportResult; error?: string }> {
+  if (!options || (options.format !== 'vcard' && options.columns.length === 0)) {
+    return { success: false, error: 'Choose at least one column' };
+  }
+
+  if (!options.linkedin_url) {
+    await storage.setExportOptions(options);
+  }
+  try {
+    return { success: true, data: await exportContacts(options) };
+  } catch (error) {
+    logger.error('Export failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function handlePreviewConnectionsCsv(
+  options?: { csv?: string }
+): Promise<{ success: boolean; data?: ConnectionsCsvPreview; error?: string }> {
+  if (!options?.csv) {
+    return { success: false, error: 'Missing file' };
+  }
+  try {
+    return { success: true, data: await previewConnectionsCsv(options.csv) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function handleImportConnectionsCsv(
+  options?: { csv?: string }
+): Promise<{ success: boolean; data?: BulkImportResponse; error?: string }> {
+  if (!options?.csv) {
+    return { success: false, error: 'Missing file' };
+  }
+  try {
+    const result = await importConnectionsCsv(options.csv);
+    return { success: result.success, data: result };
+  } catch (error) {
+    logger.error('Connections.csv import failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function handleGetLinkedInAccounts(): Promise<{ success: boolean; data: LinkedInAccountsResponse }> {
+  return { success: true, data: await getLinkedInAccounts() };
+}
+
+/**
+ * Make another LinkedIn account active. Queued jobs were meant for the
+ * previous one, so they're cancelled
+ */
+async function handleSwitchLinkedInAccount(
+  options?: { member_urn?: string }
+): Promise<{ success: boolean; data?: LinkedInAccountsResponse; error?: string }> {
+  if (!options?.member_urn) {
+    return { success: false, error: 'Missing account' };
+  }
+  if (await jobManager.isBusy()) {
+    return { success: false, error: 'Finish or cancel the running sync first' };
+  }
+  try {
+    // Queued jobs stay queued under their own account
+    await switchLinkedInAccount(options.member_urn);
+    return { success: true, data: await getLinkedInAccounts() };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function handleGetSchedule(): Promise<{ success: boolean; data: AutoSyncSchedule }> {
+  return { success: true, data: await getAutoSyncSchedule() };
+}
+
+async function handleGetSettings(): Promise<{ success: boolean; data: ExtensionSettings }> {
+  return { success: true, data: await storage.getSettings() };
+}
+
+async function handleUpdateSettings(
+  updates?: Partial<ExtensionSettings>
+): Promise<{ success: boolean; data?: AutoSyncSchedule; error?: string }> {
+  // New backend settings are only saved once they're shown to work
+  const current = await storage.getSettings();
+  const next = { ...current, ...updates };
+  if (BACKEND_SETTING_KEYS.some(key => next[key] !== current[key])) {
+    const errors = await checkBackendSettings(next);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('; ') };
+    }
+  }
+  
+  await storage.updateSettings(updates || {});
+  
+  // The storage listener also reschedules; do it here so the response has the new time
+  if (scheduleSettingsChanged(current, next)) {
+    await scheduleAutoSync();
+  }
+  return { success: true, data: await getAutoSyncSchedule() };
 }
 
 async function handleGetAuthStatus(): Promise<{ success: boolean; data: unknown }> {
   const isLoggedIn = await isLinkedInLoggedIn();
   const hasHeaders = !!(await getStoredHeaders());
+  const auth = await apiClient.getAuthState();
+  const { supabase_url: supabaseUrl, supabase_anon_key: supabaseKey } = await storage.getSettings();
   
   return {
     success: true,
     data: {
-      is_authenticated: true, // We don't require app auth anymore
+      ...auth,
       linkedin_logged_in: isLoggedIn,
       has_headers: hasHeaders,
+      backend_configured: !!(supabaseUrl && supabaseKey), // Nobody can sign in until it is
     },
   };
 }
 
+async function handleSignIn(
+  credentials?: { email?: string; password?: string }
+): Promise<{ success: boolean; data?: AuthState; error?: string }> {
+  if (!credentials?.email || !credentials.password) {
+    return { success: false, error: 'Enter your email and password' };
+  }
+  
+  try {
+    const auth = await apiClient.signIn(credentials.email, credentials.password);
+    onSignedIn();
+    return { success: true, data: auth };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Sign in failed' };
+  }
+}
+
+async function handleSignInOAuth(
+  options?: { provider?: OAuthProvider }
+): Promise<{ success: boolean; data?: AuthState; error?: string }> {
+  try {
+    const auth = await apiClient.signInWithOAuth(options?.provider || 'google');
+    onSignedIn();
+    return { success: true, data: auth };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Sign in failed' };
+  }
+}
+
+async function handleSignOut(): Promise<{ success: boolean }> {
+  await apiClient.signOut();
+  return { success: true };
+}
+
+/**
+ * Create the client for the configured Supabase project; with none configured
+ * nobody is signed in
+ */
+function connectSupabase(): void {
+  getSupabase().catch(() => {
+    storage.clearAuth().catch(error => {
+      logger.error('Failed to clear auth state:', error);
+    });
+  });
+}
+
+/**
+ * Writes queued while signed out can go now, and auto-syncs skipped meanwhile are due
+ */
+function onSignedIn(): void {
+  replayOutbox().catch(error => {
+    logger.error('Outbox replay after sign in failed:', error);
+  });
+  scheduleAutoSync({ keepPending: true }).catch(error => {
+    logger.error('Failed to reschedule auto-sync:', error);
+  });
+}
+
 async function handleStartEnrichment(
   options?: { limit?: number }
-): Promise<{ success: boolean; error?: string }> {
-  if (syncInProgress) {
-    return { success: false, error: 'Sync already in progress' };
+): Promise<{ success: boolean; data?: BackgroundJob; error?: string }> {
+  if (!(await getUserId())) {
+    return { success: false, error: 'Sign in first' };
   }
   
-  // Run enrichment in background
-  runEnrichment(options?.limit || 50).catch(error => {
-    logger.error('Enrichment failed:', error);
-  });
+  const job = await jobManager.enqueue('enrichment', 'manual', { limit: options?.limit || 50 });
+  return { success: true, data: job };
+}
+
+async function handleGetEnrichmentQueue(): Promise<{ success: boolean; data: EnrichmentQueueSummary }> {
+  return { success: true, data: await apiClient.getEnrichmentQueueSummary() };
+}
+
+async function handleRetryEnrichment(
+  options?: { id?: string }
+): Promise<{ success: boolean; error?: string }> {
+  if (!options?.id) {
+    return { success: false, error: 'Missing queue entry id' };
+  }
   
+  await apiClient.retryEnrichment(options.id);
   return { success: true };
 }
 
+async function handleRefreshProfiles(
+  options?: { contact_ids?: string[] }
+): Promise<{ success: boolean; data?: BackgroundJob; error?: string }> {
+  if (!options?.contact_ids?.length) {
+    return { success: false, error: 'No contacts to refresh' };
+  }
+  
+  const job = await jobManager.enqueue('profile_refresh', 'manual', { contact_ids: options.contact_ids });
+  return { success: true, data: job };
+}
+
 // ============ Profile Enrichment ============
 
 /**
- * Run profile enrichment for contacts that need it
+ * Run an enrichment job from the queue: contacts that need enrichment, or the
+ * given contacts for a profile refresh
+ * A paused or interrupted job continues from its checkpoint at the next target
  */
-async function runEnrichment(limit: number): Promise<void> {
-  if (syncInProgress) {
-    logger.warn('Sync in progress, skipping enrichment');
-    return;
-  }
-  
-  syncInProgress = true;
-  logger.info(`Starting profile enrichment (limit: ${limit})`);
+async function runEnrichment(queued: BackgroundJob, context: JobContext): Promise<JobOutcome> {
+  const { signal } = context;
+  const limit = queued.params.limit || 50;
+  const checkpoint = await storage.getSyncJob();
+  const resumeFrom = checkpoint?.id === queued.id && checkpoint.kind === 'enrichment' ? checkpoint : undefined;
+  const job: EnrichmentJob = resumeFrom
+    ? { ...resumeFrom, status: 'running' }
+    : {
+        id: queued.id,
+        kind: 'enrichment',
+        status: 'running',
+        targets: [],
+        index: 0,
+        enriched: 0,
+        changed: 0,
+        failed: 0,
+        gone: 0,
+        started_at: Date.now(),
+        updated_at: Date.now(),
+      };
+  const startTime = job.started_at;
+  const startIndex = job.index;
+  const targets = job.targets;
+  // Scheduled refreshes spend the daily re-enrichment budget
+  const budgeted = queued.type === 'profile_refresh' && queued.trigger === 'auto';
+  logger.info(resumeFrom
+    ? `Resuming profile enrichment at ${startIndex}/${targets.length}`
+    : queued.params.contact_ids
+      ? `Starting profile refresh for ${queued.params.contact_ids.length} contacts`
+      : `Starting profile enrichment (limit: ${limit})`);
   
   // Update badge
   chrome.action.setBadgeBackgroundColor({ color: '#8b5cf6' }); // Purple for enrichment
   chrome.action.setBadgeText({ text: '🔄' });
   
   try {
-    // Get contacts that need enrichment
-    const { data: contacts, error } = await supabase
-      .from('contacts')
-      .select('id, linkedin_url')
-      .eq('needs_enrichment', true)
-      .limit(limit);
-    
-    if (error) {
-      logger.error('Failed to get contacts for enrichment:', error);
-      return;
-    }
+    await storage.updateSyncState({
+      status: 'syncing',
+      progress: { current: startIndex, total: resumeFrom ? targets.length : null, batch_number: 0, started_at: startTime },
+      error: null,
+    });
     
-    if (!contacts || contacts.length === 0) {
-      logger.info('No contacts need enrichment');
-      chrome.action.setBadgeText({ text: '' });
-      return;
+    if (!resumeFrom) {
+      if (queued.params.contact_ids) {
+        // Profile refresh: exactly these contacts, outside the enrichment queue
+        let contacts: Array<{ id: string; linkedin_url: string }>;
+        try {
+          contacts = await apiClient.getContactUrls(queued.params.contact_ids);
+        } catch (error) {
+          logger.error('Failed to get contacts for enrichment:', error);
+          return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+        }
+        
+        for (const contact of contacts) {
+          const match = contact.linkedin_url.match(/linkedin\.com\/in\/([^/?#]+)/);
+          if (match) {
+            targets.push({ contact_id: contact.id, identifier: match[1] });
+          }
+        }
+      } else {
+        // Due entries from the enrichment queue; failed ones come back after their backoff
+        const entries = await apiClient.claimEnrichmentBatch(limit);
+        for (const entry of entries) {
+          const match = entry.linkedin_url.match(/linkedin\.com\/in\/([^/?#]+)/);
+          if (match) {
+            targets.push({ contact_id: entry.contact_id, identifier: match[1], queue_id: entry.id, attempts: entry.attempts });
+          } else {
+            await apiClient.failEnrichment(entry, 'Not a LinkedIn profile URL', true);
+          }
+        }
+      }
+      
+      if (targets.length === 0) {
+        logger.info('No contacts need enrichment');
+        chrome.action.setBadgeText({ text: '' });
+        return { status: 'completed', result: { processed: 0, enriched: 0, changed: 0, failed: 0, gone: 0 } };
+      }
+      
+      logger.info(`Found ${targets.length} contacts to enrich`);
     }
     
-    logger.info(`Found ${contacts.length} contacts to enrich`);
-    
     // Get headers
     let headers = await getStoredHeaders();
     if (!headers) {
@@ -645,165 +1433,239 @@ async function runEnrichment(limit: number): Promise<void> {
       const csrfToken = await getCsrfTokenFromCookies();
       if (csrfToken) {
         headers = { ...headers, 'csrf-token': csrfToken };
+      } else if (resumeFrom) {
+        // Keep the saved job so it can be resumed once the session is back
+        const reason = 'No LinkedIn session. Visit LinkedIn, then resume.';
+        await finishWaitingRun(resumeFrom, reason);
+        return { status: 'paused', error: reason };
       } else {
         logger.error('No session available for enrichment');
-        return;
+        await releaseEnrichmentTargets(job);
+        return { status: 'failed', error: 'No LinkedIn session. Please visit LinkedIn first.' };
       }
     }
     
-    // Extract public identifiers from LinkedIn URLs
-    const urlToId = new Map<string, string>();
-    const identifiers: string[] = [];
-    
-    for (const contact of contacts) {
-      const url = contact.linkedin_url;
-      const match = url.match(/linkedin\.com\/in\/([^/?#]+)/);
-      if (match) {
-        identifiers.push(match[1]);
-        urlToId.set(match[1], contact.id);
-      }
-    }
-    
-    if (identifiers.length === 0) {
-      logger.warn('No valid LinkedIn URLs found');
-      return;
-    }
+    await requireActiveLinkedInAccount(headers);
+    await checkpointJob(job);
     
     // Enrich profiles
-    let enriched = 0;
-    const profiles = await enrichProfiles(
-      identifiers,
+    const remaining = targets.slice(startIndex);
+    await enrichProfiles(
+      remaining.map(t => t.identifier),
       headers,
-      async (completed, total, profile) => {
+      async (completed, _total, profile, fetchError) => {
+        if (budgeted) await storage.recordRefreshUsage(1);
+
         // Update badge with progress
-        const pct = Math.round((completed / total) * 100);
+        const pct = Math.round(((startIndex + completed) / targets.length) * 100);
         chrome.action.setBadgeText({ text: `${pct}%` });
         
         // Save profile if successfully fetched
+        const target = remaining[completed - 1];
         if (profile) {
-          const identifier = identifiers[completed - 1];
-          const contactId = urlToId.get(identifier);
-          const linkedinUrl = `https://www.linkedin.com/in/${identifier}`;
-          
-          if (contactId) {
-            const saved = await saveEnrichedProfile(contactId, linkedinUrl, profile);
-            if (saved) enriched++;
+          const linkedinUrl = `https://www.linkedin.com/in/${target.identifier}`;
+          const saved = await saveEnrichedProfile(target, linkedinUrl, profile);
+          if (saved === 'queued') {
+            // The outbox replay completes its queue entry
+            job.enriched++;
+          } else {
+            if (saved.success) job.enriched++;
+            if (saved.success && !saved.unchanged) job.changed++;
+            if (saved.career_event) await recordCareerEvents([saved.career_event]);
+            await settleEnrichmentTarget(job, target, saved.success ? null : `Failed to save profile: ${saved.error}`);
           }
+        } else {
+          const reason = fetchError instanceof Error ? fetchError.message : 'No profile data returned';
+          await settleEnrichmentTarget(job, target, reason, isProfileGoneError(fetchError));
         }
         
+        // Only now, so a run that fails mid-save releases this target too
+        job.index = startIndex + completed;
+        
+        // Checkpoint after every profile so a restarted worker continues from here
+        await checkpointJob(job);
+        
         // Broadcast progress
-        broadcastProgress('syncing', completed, total);
+        context.progress(job.index, targets.length);
+        broadcastProgress('syncing', job.index, targets.length);
       },
-      2000 // 2 second delay between requests
+      2000, // 2 second delay between requests
+      signal
     );
     
-    logger.info(`Enrichment complete: ${enriched} profiles updated`);
+    logger.info(`Enrichment complete: ${job.enriched} profiles checked (${job.changed} changed), ${job.failed} to retry, ${job.gone} parked`);
+    await storage.clearSyncJob();
     
     // Show success
     chrome.action.setBadgeBackgroundColor({ color: '#22c55e' });
-    chrome.action.setBadgeText({ text: `+${enriched}` });
+    chrome.action.setBadgeText({ text: `+${job.enriched}` });
     setTimeout(() => chrome.action.setBadgeText({ text: '' }), 10000);
     
-    broadcastProgress('completed', enriched, contacts.length);
+    await storage.updateSyncState({ status: 'completed', error: null });
+    broadcastProgress('completed', job.enriched, targets.length);
+    await recordEnrichmentRun(queued, job, 'completed');
+    
+    return {
+      status: 'completed',
+      result: { processed: targets.length, enriched: job.enriched, changed: job.changed, failed: job.failed, gone: job.gone },
+    };
     
   } catch (error) {
+    if (isAbortError(error)) {
+      if (context.stopReason() === 'pause') {
+        await finishPausedRun(job);
+        return { status: 'paused' };
+      }
+      await storage.clearSyncJob();
+      await releaseEnrichmentTargets(job);
+      await finishCancelledRun('enrichment', startTime, job.index);
+      return { status: 'cancelled' };
+    }
+
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Enrichment error:', error);
+    await storage.clearSyncJob();
+    await releaseEnrichmentTargets(job);
+    await recordEnrichmentRun(queued, job, 'failed', errorMsg);
+    await storage.updateSyncState({
+      status: 'error',
+      error: errorMsg,
+    });
     chrome.action.setBadgeBackgroundColor({ color: '#ef4444' });
     chrome.action.setBadgeText({ text: '!' });
+    return { status: 'failed', error: errorMsg };
   } finally {
-    syncInProgress = false;
+    // Early exits above have nothing to report - don't leave the popup on 'syncing'
+    const { status } = await storage.getSyncState();
+    if (status === 'syncing') {
+      await storage.updateSyncState({ status: (await storage.getSyncJob()) ? 'paused' : 'idle' });
+    }
     
     if (currentSyncTabId) {
       try {
         await chrome.tabs.remove(currentSyncTabId);
-      } catch {}
+      } catch {
+        // Tab was already closed
+      }
       currentSyncTabId = null;
     }
   }
 }
 
 /**
- * Save an enriched profile to the database
+ * Record a target's outcome in the enrichment queue: done, retry later, or parked
+ */
+async function settleEnrichmentTarget(
+  job: EnrichmentJob,
+  target: EnrichmentTarget,
+  failure: string | null,
+  gone = false
+): Promise<void> {
+  if (!failure) {
+    if (target.queue_id) await apiClient.completeEnrichment(target.queue_id);
+    return;
+  }
+  
+  // Profile refreshes aren't queued; an unavailable profile is parked so it isn't planned again
+  let status: 'failed' | 'gone' = gone ? 'gone' : 'failed';
+  if (target.queue_id) {
+    status = await apiClient.failEnrichment({ id: target.queue_id, attempts: target.attempts ?? 0 }, failure, gone) === 'gone' ? 'gone' : 'failed';
+  } else if (gone) {
+    await apiClient.parkEnrichment(
+      { contact_id: target.contact_id, linkedin_url: `https://www.linkedin.com/in/${target.identifier}` },
+      failure
+    );
+  }
+  if (status === 'gone') {
+    logger.warn(`Parked ${target.identifier}: ${failure}`);
+    job.gone++;
+  } else {
+    job.failed++;
+  }
+}
+
+/**
+ * Add a finished enrichment run to sync_history so it shows in the popup
+ */
+async function recordEnrichmentRun(
+  queued: BackgroundJob,
+  job: EnrichmentJob,
+  status: 'completed' | 'failed',
+  errorMessage: string | null = null
+): Promise<void> {
+  await apiClient.recordSyncRun({
+    sync_type: 'enrichment',
+    status,
+    total_found: job.targets.length,
+    updated_contacts: job.changed,
+    skipped_contacts: job.failed + job.gone,
+    started_at: new Date(job.started_at).toISOString(),
+    completed_at: new Date().toISOString(),
+    duration_ms: Date.now() - job.started_at,
+    error_message: errorMessage,
+    metadata: {
+      source: 'linkedin_extension',
+      job_type: queued.type,
+      trigger: queued.trigger,
+      processed: job.index,
+      enriched: job.enriched,
+      unchanged: job.enriched - job.changed,
+      failed: job.failed,
+      gone: job.gone,
+    },
+  });
+}
+
+/**
+ * Hand the targets a stopped run didn't get to back to the queue
+ */
+async function releaseEnrichmentTargets(job: EnrichmentJob): Promise<void> {
+  const ids = job.targets
+    .slice(job.index)
+    .map(target => target.queue_id)
+    .filter((id): id is string => !!id);
+  await apiClient.releaseEnrichment(ids);
+}
+
+/**
+ * Save an enriched profile to the database in one atomic write, unless it is
+ * unchanged since the last enrichment
+ * Returns 'queued' when the write was held in the outbox for later
  */
 async function saveEnrichedProfile(
-  contactId: string,
+  target: EnrichmentTarget,
   linkedinUrl: string,
   profile: FullProfileData
-): Promise<boolean> {
-  try {
-    const { contact, experiences, educations, skills } = fullProfileToEnrichedContact(profile, linkedinUrl);
-    
-    // Update contact with enriched data
-    const { error: contactError } = await supabase
-      .from('contacts')
-      .update({
-        ...contact,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', contactId);
-    
-    if (contactError) {
-      logger.error('Failed to update contact:', contactError);
-      return false;
-    }
-    
-    // Clear and insert experiences
-    await supabase.from('experiences').delete().eq('contact_id', contactId);
-    if (experiences.length > 0) {
-      const expRecords = experiences.map(e => ({ ...e, contact_id: contactId }));
-      await supabase.from('experiences').insert(expRecords);
-    }
-    
-    // Clear and insert educations
-    await supabase.from('educations').delete().eq('contact_id', contactId);
-    if (educations.length > 0) {
-      const eduRecords = educations.map(e => ({ ...e, contact_id: contactId }));
-      await supabase.from('educations').insert(eduRecords);
-    }
-    
-    // Clear and insert skills
-    await supabase.from('skills').delete().eq('contact_id', contactId);
-    if (skills.length > 0) {
-      const skillRecords = skills.map(s => ({ ...s, contact_id: contactId }));
-      await supabase.from('skills').insert(skillRecords);
-    }
-    
-    // Update linkedin_profiles table
-    const nameParts = contact.name.split(' ');
-    await supabase
-      .from('linkedin_profiles')
-      .upsert({
-        contact_id: contactId,
-        linkedin_url: linkedinUrl,
-        full_name: contact.name,
-        first_name: nameParts[0] || null,
-        last_name: nameParts.slice(1).join(' ') || null,
-        headline: contact.headline,
-        location: contact.location,
-        about: contact.about,
-        profile_image_url: contact.profile_image_url,
-        current_title: contact.title,
-        current_company: contact.company,
-        experience: contact.linkedin_data.experiences,
-        education: contact.linkedin_data.educations,
-        skills: contact.linkedin_data.skills,
-        scrape_status: 'complete',
-        scraped_at: contact.scraped_at,
-      }, { onConflict: 'linkedin_url' });
-    
-    logger.debug(`Saved enriched profile: ${contact.name}`);
-    return true;
-    
-  } catch (error) {
-    logger.error('Error saving enriched profile:', error);
-    return false;
+): Promise<ProfileSaveResult | 'queued'> {
+  const { profile: mapping } = await storage.getFieldMapping();
+  const { contact, experiences, educations, skills } = fullProfileToEnrichedContact(profile, linkedinUrl, mapping);
+  const snapshot = toProfileSnapshot({ ...contact, ...contact.linkedin_data });
+  const write = { contact_id: target.contact_id, contact, experiences, educations, skills };
+  
+  // Earlier writes still in the outbox have to land first
+  const result = (await hasPendingWrites()) ? null : await apiClient.saveProfileIfChanged(write, snapshot);
+  if (!result || result.unavailable) {
+    await queueProfileWrite(write, snapshot, target.queue_id ?? null);
+    return 'queued';
+  }
+  
+  if (result.success) {
+    logger.debug(`Saved enriched profile: ${contact.name}${result.unchanged ? ' (unchanged)' : ''}`);
+    await sendWebhookEvents(profileSaveEvents(contact, result));
   }
+  return result;
 }
 
 // ============ Lifecycle Events ============
 
 chrome.runtime.onInstalled.addListener(async (details) => {
   logger.info(`Extension ${details.reason}: ${chrome.runtime.getManifest().version}`);
+  if (details.reason === 'install') {
+    // Saved now, so a later update can tell this install never had the built-in Supabase project
+    await storage.updateSettings({});
+  } else if (details.reason === 'update') {
+    await storage.migrateSettings();
+  }
   await initialize();
   
   if (details.reason === 'install') {
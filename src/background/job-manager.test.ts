@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { STORAGE_KEYS, type BackgroundJob, type BackgroundJobType } from '@/types';
+import { JobManager, type JobHandler, type JobOutcome } from './job-manager';
+
+const ACCOUNT_A = 'urn:li:member:1';
+const ACCOUNT_B = 'urn:li:member:2';
+
+// Flush the promise chains a job start or finish runs through
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// The same handler for every job type
+function handlersFor(run: JobHandler['run']): Record<BackgroundJobType, JobHandler> {
+  const handler: JobHandler = { run, discard: vi.fn(async () => {}) };
+  const types: BackgroundJobType[] = ['full_sync', 'incremental_sync', 'enrichment', 'profile_refresh'];
+  return Object.fromEntries(types.map(type => [type, handler])) as Record<BackgroundJobType, JobHandler>;
+}
+
+describe('JobManager', () => {
+  let fake: FakeChrome;
+  let started: BackgroundJob[];
+  let finish: (outcome: JobOutcome) => void;
+  let manager: JobManager;
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+    started = [];
+    manager = new JobManager(handlersFor(job => {
+      started.push({ ...job });
+      return new Promise(resolve => {
+        finish = resolve;
+      });
+    }));
+  });
+
+  it('runs one job at a time, by priority and then oldest first', async () => {
+    await manager.enqueue('enrichment', 'manual');
+    await manager.enqueue('enrichment', 'auto', { limit: 5 });
+    await manager.enqueue('full_sync', 'auto');
+    await manager.enqueue('profile_refresh', 'manual', { contact_ids: ['contact-1'] });
+    await settle();
+
+    for (let i = 0; i < 3; i++) {
+      finish({ status: 'completed', result: {} });
+      await settle();
+    }
+    expect(started.map(job => job.type)).toEqual(['enrichment', 'profile_refresh', 'full_sync', 'enrichment']);
+  });
+
+  it('returns the queued job for a duplicate request', async () => {
+    await manager.enqueue('enrichment', 'manual');
+    await settle();
+    const first = await manager.enqueue('full_sync', 'manual');
+    expect((await manager.enqueue('full_sync', 'auto')).id).toBe(first.id);
+    expect((await manager.enqueue('incremental_sync', 'auto')).id).toBe(first.id);
+  });
+
+  it('cancels a queued incremental sync when a full sync is queued', async () => {
+    await manager.enqueue('enrichment', 'manual');
+    await settle();
+    const incremental = await manager.enqueue('incremental_sync', 'auto');
+    await manager.enqueue('full_sync', 'manual');
+
+    const jobs = await manager.list();
+    expect(jobs.find(job => job.id === incremental.id)).toMatchObject({ status: 'cancelled', error: 'Superseded by a full sync' });
+  });
+
+  it('holds the slot for a paused job until it is resumed', async () => {
+    await manager.enqueue('full_sync', 'manual');
+    await settle();
+    await manager.enqueue('enrichment', 'manual');
+
+    finish({ status: 'paused' });
+    await settle();
+    expect(started).toHaveLength(1);
+
+    expect(await manager.resume()).toBe(true);
+    await settle();
+    expect(started.map(job => job.type)).toEqual(['full_sync', 'full_sync']);
+  });
+
+  it('requeues a job interrupted by the worker stopping ahead of newer ones', async () => {
+    await manager.enqueue('enrichment', 'manual');
+    await manager.enqueue('full_sync', 'manual');
+    await settle();
+    expect(fake.store[STORAGE_KEYS.JOB_QUEUE]).toEqual(expect.arrayContaining([expect.objectContaining({ type: 'enrichment', status: 'running' })]));
+
+    // A new worker loads the persisted queue
+    started = [];
+    const restarted = new JobManager(handlersFor(job => {
+      started.push({ ...job });
+      return new Promise(() => {});
+    }));
+    await restarted.start();
+    await settle();
+
+    expect(started.map(job => job.type)).toEqual(['enrichment']);
+  });
+
+  describe('LinkedIn accounts', () => {
+    it('records the active account on each job', async () => {
+      fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = ACCOUNT_A;
+      const job = await manager.enqueue('full_sync', 'manual');
+      expect(job.linkedin_account).toBe(ACCOUNT_A);
+    });
+
+    it("holds another account's job until that account is active again", async () => {
+      fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = ACCOUNT_A;
+      await manager.enqueue('enrichment', 'manual');
+      await settle();
+      await manager.enqueue('full_sync', 'manual');
+
+      fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = ACCOUNT_B;
+      await manager.setActiveAccount(ACCOUNT_B);
+      finish({ status: 'completed', result: {} });
+      await settle();
+      expect(started.map(job => job.type)).toEqual(['enrichment']);
+
+      fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = ACCOUNT_A;
+      await manager.setActiveAccount(ACCOUNT_A);
+      await settle();
+      expect(started.map(job => job.type)).toEqual(['enrichment', 'full_sync']);
+      expect(started[1].linkedin_account).toBe(ACCOUNT_A);
+    });
+
+    it('only treats a job of the same account as a duplicate', async () => {
+      fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = ACCOUNT_A;
+      await manager.enqueue('enrichment', 'manual');
+      await settle();
+      const first = await manager.enqueue('full_sync', 'manual');
+
+      fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = ACCOUNT_B;
+      await manager.setActiveAccount(ACCOUNT_B);
+      const second = await manager.enqueue('full_sync', 'manual');
+
+      expect(second.id).not.toBe(first.id);
+      expect(second.linkedin_account).toBe(ACCOUNT_B);
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Background Job Manager
+ *
+ * Owns the queue of LinkedIn jobs (connection syncs, enrichment batches,
+ * targeted profile refreshes). Every job goes through the same Voyager
+ * session and rate limits, so only one runs at a time:
+ * - Queued jobs start in priority order, then oldest first
+ * - A paused job keeps the slot until it is resumed or stopped
+ * - Duplicate requests return the job already in the queue
+ * - Each job runs under the LinkedIn account active when it was queued; jobs
+ *   of another account wait until it's active again
+ *
+ * The queue is persisted so it survives the service worker being stopped.
+ */
+
+import { storage } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+import type { BackgroundJob, BackgroundJobParams, BackgroundJobType } from '@/types';
+
+const logger = createLogger('job-manager');
+
+// Higher runs first
+const JOB_PRIORITIES: Record<BackgroundJobType, number> = {
+  profile_refresh: 30, // Someone is waiting on specific contacts
+  full_sync: 20,
+  incremental_sync: 20,
+  enrichment: 10,
+};
+
+// Scheduled jobs yield to the same job started from the popup
+const AUTO_TRIGGER_PENALTY = 5;
+
+// Finished jobs kept for the popup
+const HISTORY_LIMIT = 20;
+
+export type JobOutcome =
+  | { status: 'completed'; result: Record<string, number> }
+  | { status: 'paused'; error?: string }
+  | { status: 'cancelled' }
+  | { status: 'failed'; error: string };
+
+export interface JobContext {
+  signal: AbortSignal;
+  /** Why the signal was aborted: a paused job keeps its checkpoint */
+  stopReason: () => 'pause' | 'cancel' | null;
+  progress: (current: number, total: number | null) => void;
+}
+
+export interface JobHandler {
+  run: (job: BackgroundJob, context: JobContext) => Promise<JobOutcome>;
+  /** Drop the saved checkpoint of a paused job that is being stopped */
+  discard: (job: BackgroundJob) => Promise<void>;
+}
+
+interface ActiveJob {
+  job: BackgroundJob;
+  controller: AbortController;
+  stopReason: 'pause' | 'cancel' | null;
+}
+
+export class JobManager {
+  private jobs: BackgroundJob[] = [];
+  private loading: Promise<void> | null = null;
+  private active: ActiveJob | null = null;
+  private account: string | null = null; // Active LinkedIn account
+
+  constructor(
+    private handlers: Record<BackgroundJobType, JobHandler>,
+    private onChange: (jobs: BackgroundJob[]) => void = () => {}
+  ) {}
+
+  /**
+   * Load the persisted queue and start the next job
+   * A job still marked running was interrupted by the worker stopping - it's
+   * queued again and resumes from its checkpoint ahead of anything new
+   */
+  async start(): Promise<void> {
+    await this.load();
+    this.pump();
+  }
+
+  /**
+   * All jobs: queued, running, paused and recently finished
+   */
+  async list(): Promise<BackgroundJob[]> {
+    await this.load();
+    return this.jobs.map(job => ({ ...job }));
+  }
+
+  /**
+   * Whether a job is running or paused (holding the slot)
+   */
+  async isBusy(): Promise<boolean> {
+    await this.load();
+    return this.jobs.some(job => job.status === 'running' || job.status === 'paused');
+  }
+
+  /**
+   * Follow a change of the active LinkedIn account: its waiting jobs can start
+   */
+  async setActiveAccount(memberUrn: string | null): Promise<void> {
+    await this.load();
+    this.account = memberUrn;
+    this.pump();
+  }
+
+  /**
+   * Add a job to the queue, or return the equivalent job already waiting
+   */
+  async enqueue(
+    type: BackgroundJobType,
+    trigger: BackgroundJob['trigger'],
+    params: BackgroundJobParams = {}
+  ): Promise<BackgroundJob> {
+    await this.load();
+    this.account = await storage.getActiveLinkedInAccount();
+
+    const pending = this.jobs.filter(job => isPendingStatus(job.status) && (job.linkedin_account ?? null) === this.account);
+    const duplicate = pending.find(job =>
+      (job.type === type && JSON.stringify(job.params) === JSON.stringify(params)) ||
+      // A full sync covers everything an incremental one would fetch
+      (type === 'incremental_sync' && job.type === 'full_sync')
+    );
+    if (duplicate) {
+      logger.info(`${type} already queued as ${duplicate.id}`);
+      return { ...duplicate };
+    }
+
+    if (type === 'full_sync') {
+      for (const job of pending) {
+        if (job.type === 'incremental_sync' && job.status === 'queued') {
+          this.finish(job, 'cancelled', { error: 'Superseded by a full sync' });
+        }
+      }
+    }
+
+    const job: BackgroundJob = {
+      id: crypto.randomUUID(),
+      type,
+      trigger,
+      status: 'queued',
+      priority: JOB_PRIORITIES[type] - (trigger === 'auto' ? AUTO_TRIGGER_PENALTY : 0),
+      params,
+      linkedin_account: this.account,
+      progress: { current: 0, total: null },
+      result: null,
+      error: null,
+      created_at: Date.now(),
+      started_at: null,
+      finished_at: null,
+    };
+    this.jobs.push(job);
+    logger.info(`Queued ${trigger} ${type} ${job.id}`);
+
+    await this.persist();
+    this.pump();
+    return { ...job };
+  }
+
+  /**
+   * Pause the running job; it keeps its checkpoint and the slot
+   */
+  async pause(): Promise<boolean> {
+    if (!this.active) return false;
+
+    logger.info(`Pausing ${this.active.job.type} ${this.active.job.id}`);
+    this.active.stopReason = 'pause';
+    this.active.controller.abort();
+    return true;
+  }
+
+  /**
+   * Continue the paused job from its checkpoint
+   */
+  async resume(): Promise<boolean> {
+    await this.load();
+    const job = this.jobs.find(j => j.status === 'paused' && this.runsUnderActiveAccount(j));
+    if (!job || this.active) return false;
+
+    job.status = 'queued';
+    job.error = null;
+    await this.persist();
+    this.pump();
+    return true;
+  }
+
+  /**
+   * Stop a job: the given one, or else the running or paused one
+   */
+  async cancel(id?: string): Promise<boolean> {
+    await this.load();
+    const job = id
+      ? this.jobs.find(j => j.id === id)
+      : this.jobs.find(j => j.status === 'running' || j.status === 'paused');
+    if (!job || !isPendingStatus(job.status)) return false;
+
+    if (this.active?.job.id === job.id) {
+      // The handler reports the cancellation once its requests have stopped
+      logger.info(`Cancelling ${job.type} ${job.id}`);
+      this.active.stopReason = 'cancel';
+      this.active.controller.abort();
+      return true;
+    }
+
+    if (job.status === 'paused' || job.started_at !== null) {
+      await this.handlers[job.type].discard(job);
+    }
+    this.finish(job, 'cancelled');
+    await this.persist();
+    this.pump();
+    return true;
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      [this.jobs, this.account] = await Promise.all([storage.getJobQueue(), storage.getActiveLinkedInAccount()]);
+      for (const job of this.jobs) {
+        if (job.status === 'running') {
+          logger.warn(`Found interrupted ${job.type} ${job.id}, requeueing`);
+          job.status = 'queued';
+        }
+      }
+    })();
+    return this.loading;
+  }
+
+  /**
+   * Start the next queued job if the slot is free
+   */
+  private pump(): void {
+    // Another account's paused job can't resume until it's active again, so it doesn't hold the slot
+    if (this.active || this.jobs.some(job => job.status === 'paused' && this.runsUnderActiveAccount(job))) return;
+
+    const next = this.jobs
+      .filter(job => job.status === 'queued' && this.runsUnderActiveAccount(job))
+      .sort((a, b) =>
+        // Jobs that already started (resumed or interrupted) go first
+        Number(b.started_at !== null) - Number(a.started_at !== null) ||
+        b.priority - a.priority ||
+        a.created_at - b.created_at
+      )[0];
+    if (!next) return;
+
+    const active: ActiveJob = { job: next, controller: new AbortController(), stopReason: null };
+    this.active = active;
+    next.status = 'running';
+    next.started_at ??= Date.now();
+
+    this.execute(active).catch(error => {
+      logger.error(`Job ${next.id} crashed:`, error);
+    });
+  }
+
+  /**
+   * Jobs queued before any account was identified run under whichever is active
+   */
+  private runsUnderActiveAccount(job: BackgroundJob): boolean {
+    return !job.linkedin_account || job.linkedin_account === this.account;
+  }
+
+  private async execute(active: ActiveJob): Promise<void> {
+    const { job, controller } = active;
+    await this.persist();
+    logger.info(`Running ${job.type} ${job.id}`);
+
+    let outcome: JobOutcome;
+    try {
+      outcome = await this.handlers[job.type].run(job, {
+        signal: controller.signal,
+        stopReason: () => active.stopReason,
+        progress: (current, total) => {
+          job.progress = { current, total };
+          this.onChange(this.jobs);
+        },
+      });
+    } catch (error) {
+      outcome = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    this.active = null;
+    if (outcome.status === 'paused') {
+      job.status = 'paused';
+      job.error = outcome.error ?? null;
+    } else {
+      this.finish(
+        job,
+        outcome.status,
+        outcome.status === 'completed' ? { result: outcome.result } : outcome.status === 'failed' ? { error: outcome.error } : {}
+      );
+    }
+    logger.info(`${job.type} ${job.id} ${job.status}`);
+
+    await this.persist();
+    this.pump();
+  }
+
+  private finish(
+    job: BackgroundJob,
+    status: 'completed' | 'failed' | 'cancelled',
+    details: { result?: Record<string, number>; error?: string } = {}
+  ): void {
+    job.status = status;
+    job.result = details.result ?? null;
+    job.error = details.error ?? null;
+    job.finished_at = Date.now();
+  }
+
+  private async persist(): Promise<void> {
+    // Keep every pending job but only the most recent finished ones
+    const finished = this.jobs
+      .filter(job => !isPendingStatus(job.status))
+      .sort((a, b) => (b.finished_at ?? 0) - (a.finished_at ?? 0))
+      .slice(0, HISTORY_LIMIT);
+    this.jobs = this.jobs.filter(job => isPendingStatus(job.status) || finished.includes(job));
+
+    await storage.saveJobQueue(this.jobs);
+    this.onChange(this.jobs);
+  }
+}
+
+function isPendingStatus(status: BackgroundJob['status']): boolean {
+  return status === 'queued' || status === 'running' || status === 'paused';
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { STORAGE_KEYS } from '@/types';
+
+const MEMBER = { member_urn: 'urn:li:member:1', name: 'Ada Lovelace', public_identifier: 'ada', profile_image_url: null };
+
+vi.mock('@/lib/voyager-client', () => ({
+  fetchCurrentMember: vi.fn(async () => MEMBER),
+}));
+
+import { identifyLinkedInAccount } from './linkedin-accounts';
+
+describe('identifyLinkedInAccount', () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+  });
+
+  it('moves headers and sync state saved before any account was known to the first one', async () => {
+    const headers = { 'csrf-token': 'ajax:1' };
+    fake.store[STORAGE_KEYS.LINKEDIN_HEADERS] = headers;
+    fake.store[STORAGE_KEYS.LINKEDIN_HEADERS_FOR_AUTO_SYNC] = headers;
+    fake.store[STORAGE_KEYS.LINKEDIN_HEADERS_UPDATED_AT] = 1000;
+    fake.store[STORAGE_KEYS.LAST_FULL_SYNC] = 2000;
+
+    const account = await identifyLinkedInAccount(headers);
+
+    expect(account?.member_urn).toBe(MEMBER.member_urn);
+    expect(fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT]).toBe(MEMBER.member_urn);
+    expect(fake.store[`${STORAGE_KEYS.LINKEDIN_HEADERS}:${MEMBER.member_urn}`]).toEqual(headers);
+    expect(fake.store[`${STORAGE_KEYS.LINKEDIN_HEADERS_UPDATED_AT}:${MEMBER.member_urn}`]).toBe(1000);
+    expect(fake.store[`${STORAGE_KEYS.LAST_FULL_SYNC}:${MEMBER.member_urn}`]).toBe(2000);
+    expect(fake.store).not.toHaveProperty(STORAGE_KEYS.LINKEDIN_HEADERS);
+    expect(fake.store).not.toHaveProperty(STORAGE_KEYS.LINKEDIN_HEADERS_FOR_AUTO_SYNC);
+  });
+});
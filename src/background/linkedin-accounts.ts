@@ -0,0 +1,131 @@
+/**
+ * LinkedIn Accounts
+ *
+ * Tells apart the LinkedIn accounts used in this browser by member URN, so
+ * each keeps its own headers, sync progress, watermarks and budgets (see
+ * storage.accountKey) and synced contacts record the account they came
+ * through. The active account follows each new LinkedIn login, and can be
+ * switched from the popup.
+ */
+
+import { storage } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+import { fetchCurrentMember } from '@/lib/voyager-client';
+import { RATE_LIMITS } from '@/config/constants';
+import { STORAGE_KEYS, type LinkedInAccount, type LinkedInAccountsResponse } from '@/types';
+import type { LinkedInHeaders } from './header-interceptor';
+
+const logger = createLogger('linkedin-accounts');
+
+// Kept per account; values stored before the first account was identified become its own
+const ACCOUNT_SCOPED_KEYS = [
+  STORAGE_KEYS.SYNC_STATE,
+  STORAGE_KEYS.SYNC_JOB,
+  STORAGE_KEYS.SYNC_WATERMARK,
+  STORAGE_KEYS.LAST_FULL_SYNC,
+  STORAGE_KEYS.REFRESH_USAGE,
+  STORAGE_KEYS.LINKEDIN_HEADERS,
+  STORAGE_KEYS.LINKEDIN_HEADERS_UPDATED_AT,
+  STORAGE_KEYS.LINKEDIN_HEADERS_FOR_AUTO_SYNC,
+  STORAGE_KEYS.LINKEDIN_HEADERS_FOR_MANUAL_SYNC,
+  ...Object.keys(RATE_LIMITS).map(type => `rate_limit_${type}`),
+];
+
+// One /me request per session, however many requests are captured meanwhile
+const identifying = new Map<string, Promise<LinkedInAccount | null>>();
+
+/**
+ * The account a LinkedIn session belongs to, asking LinkedIn the first time a
+ * session is seen. A new session makes its account the active one. Null if
+ * it can't be identified
+ */
+export async function identifyLinkedInAccount(headers: LinkedInHeaders): Promise<LinkedInAccount | null> {
+  const csrfToken = headers['csrf-token'];
+  if (!csrfToken) return null;
+
+  const session = await storage.getLinkedInSession();
+  if (session?.csrf_token === csrfToken) {
+    const accounts = await storage.getLinkedInAccounts();
+    return accounts.find(account => account.member_urn === session.member_urn) ?? null;
+  }
+
+  let pending = identifying.get(csrfToken);
+  if (!pending) {
+    pending = identifySession(headers, csrfToken).finally(() => identifying.delete(csrfToken));
+    identifying.set(csrfToken, pending);
+  }
+  return pending;
+}
+
+async function identifySession(headers: LinkedInHeaders, csrfToken: string): Promise<LinkedInAccount | null> {
+  let account: LinkedInAccount;
+  try {
+    account = { ...(await fetchCurrentMember(headers)), last_seen_at: Date.now() };
+  } catch (error) {
+    logger.warn('Failed to identify the LinkedIn account:', error);
+    return null;
+  }
+
+  await storage.saveLinkedInAccount(account);
+  await storage.setLinkedInSession({ csrf_token: csrfToken, member_urn: account.member_urn });
+
+  const active = await storage.getActiveLinkedInAccount();
+  if (active !== account.member_urn) {
+    if (!active) {
+      await storage.adoptUnscopedKeys(account.member_urn, ACCOUNT_SCOPED_KEYS);
+    }
+    logger.info(`LinkedIn session belongs to ${account.name}, making it the active account`);
+    await storage.setActiveLinkedInAccount(account.member_urn);
+  }
+  return account;
+}
+
+/**
+ * The active account, for a job about to call LinkedIn with these headers.
+ * Throws if LinkedIn is logged in as a different account, so one account's
+ * connections never land in another's sync
+ */
+export async function requireActiveLinkedInAccount(headers: LinkedInHeaders): Promise<LinkedInAccount> {
+  const [active, session] = await Promise.all([storage.getActiveLinkedInAccount(), storage.getLinkedInSession()]);
+  if (active && session && session.member_urn !== active) {
+    throw await accountMismatchError(session.member_urn, active);
+  }
+
+  const account = await identifyLinkedInAccount(headers);
+  if (!account) {
+    throw new Error('Could not tell which LinkedIn account is logged in. Reload LinkedIn and try again.');
+  }
+  if (active && account.member_urn !== active) {
+    throw await accountMismatchError(account.member_urn, active);
+  }
+  return account;
+}
+
+async function accountMismatchError(loggedIn: string, active: string): Promise<Error> {
+  const accounts = await storage.getLinkedInAccounts();
+  const name = (memberUrn: string) => accounts.find(account => account.member_urn === memberUrn)?.name ?? memberUrn;
+  return new Error(`LinkedIn is logged in as ${name(loggedIn)}, not ${name(active)}. Switch accounts, or log in to LinkedIn as ${name(active)}.`);
+}
+
+/**
+ * Known accounts, the active one and the one LinkedIn is logged in as
+ */
+export async function getLinkedInAccounts(): Promise<LinkedInAccountsResponse> {
+  const [accounts, active, session] = await Promise.all([
+    storage.getLinkedInAccounts(),
+    storage.getActiveLinkedInAccount(),
+    storage.getLinkedInSession(),
+  ]);
+  return { accounts, active, logged_in: session?.member_urn ?? null };
+}
+
+/**
+ * Make another known account the active one
+ */
+export async function switchLinkedInAccount(memberUrn: string): Promise<void> {
+  const accounts = await storage.getLinkedInAccounts();
+  if (!accounts.some(account => account.member_urn === memberUrn)) {
+    throw new Error('Unknown LinkedIn account');
+  }
+  await storage.setActiveLinkedInAccount(memberUrn);
+}
@@ -0,0 +1,167 @@
+/**
+ * Outbox Replay
+ *
+ * Contact batches and enriched profiles that couldn't be written because the
+ * backend was unreachable wait in the local outbox (lib/outbox.ts), so the
+ * LinkedIn requests spent on them aren't wasted. Once apiClient.healthCheck()
+ * succeeds they are replayed oldest first:
+ * - A failed write stops the replay, so later writes never overtake it
+ * - The next attempt backs off exponentially
+ * - While anything is pending, new writes join the end of the outbox
+ * - Each write is replayed only as the user signed in when it was made; other
+ *   users' writes wait for them to sign in again
+ */
+
+import { outbox } from '@/lib/outbox';
+import { apiClient } from '@/lib/api-client';
+import { getUserId } from '@/lib/supabase';
+import { createLogger } from '@/lib/logger';
+import { OUTBOX } from '@/config/constants';
+import { recordCareerEvents } from './career-events';
+import { sendWebhookEvents, contactBatchEvents, profileSaveEvents } from './webhooks';
+import type { LinkedInContact, OutboxEntry, OutboxStatus, ProfileSnapshot, ProfileWrite } from '@/types';
+
+const logger = createLogger('outbox');
+
+let replaying = false;
+
+/**
+ * Whether earlier writes are still waiting; new writes must queue behind them
+ */
+export async function hasPendingWrites(): Promise<boolean> {
+  return (await outbox.count(await getUserId())) > 0;
+}
+
+/**
+ * Hold a batch of connections for replay
+ */
+export async function queueContactsWrite(contacts: LinkedInContact[]): Promise<void> {
+  await outbox.add({ kind: 'contacts', contacts, ...(await newEntryState()) });
+  logger.warn(`Queued ${contacts.length} contacts in the outbox`);
+}
+
+/**
+ * Hold an enriched profile for replay; `queueId` is its scrape_queue entry, completed on replay
+ */
+export async function queueProfileWrite(
+  write: ProfileWrite,
+  snapshot: ProfileSnapshot,
+  queueId: string | null
+): Promise<void> {
+  await outbox.add({ kind: 'profile', write, snapshot, queue_id: queueId, ...(await newEntryState()) });
+  logger.warn(`Queued profile ${write.contact.linkedin_url} in the outbox`);
+}
+
+/**
+ * Pending writes for the popup
+ */
+export async function getOutboxStatus(): Promise<OutboxStatus> {
+  const userId = await getUserId();
+  const [pending, total, oldest] = await Promise.all([outbox.count(userId), outbox.countAll(), outbox.peek(userId)]);
+  return {
+    pending,
+    held: total - pending,
+    oldest: oldest?.created_at ?? null,
+    next_attempt_at: oldest?.next_attempt_at ?? null,
+    last_error: oldest?.last_error ?? null,
+  };
+}
+
+/**
+ * Replay pending writes in order if the next attempt is due and the backend is up
+ * Returns how many writes were replayed
+ */
+export async function replayOutbox(): Promise<number> {
+  if (replaying) return 0;
+  replaying = true;
+
+  try {
+    const userId = await getUserId();
+    let entry = await outbox.peek(userId);
+    if (!entry || entry.next_attempt_at > Date.now()) return 0;
+
+    if (!(await apiClient.healthCheck())) {
+      await deferEntry(entry, 'Backend unreachable');
+      return 0;
+    }
+
+    let replayed = 0;
+    while (entry?.id !== undefined) {
+      const error = await applyEntry(entry);
+      if (error) {
+        // Unreachable again: wait. Rejected: retry a few times, then give up on it
+        if (!error.unavailable && entry.attempts + 1 >= OUTBOX.maxAttempts) {
+          logger.error(`Dropping ${entry.kind} write after ${entry.attempts + 1} attempts: ${error.message}`);
+          await outbox.remove(entry.id);
+          entry = await outbox.peek(userId);
+          continue;
+        }
+        await deferEntry(entry, error.message);
+        break;
+      }
+
+      await outbox.remove(entry.id);
+      replayed++;
+      entry = await outbox.peek(userId);
+    }
+
+    logger.info(`Replayed ${replayed} outbox writes${entry ? `, ${await outbox.count(userId)} still pending` : ''}`);
+    return replayed;
+  } finally {
+    replaying = false;
+  }
+}
+
+/**
+ * Write one entry; returns why it failed, or null
+ */
+async function applyEntry(entry: OutboxEntry): Promise<{ message: string; unavailable: boolean } | null> {
+  if (entry.kind === 'contacts') {
+    const result = await apiClient.importContactsBatch(entry.contacts);
+    const written = result.new_count + result.updated_count + result.unchanged_count;
+    if (result.unavailable || (result.error && written === 0)) {
+      return { message: result.error || 'Import failed', unavailable: !!result.unavailable };
+    }
+    if (result.error) {
+      logger.warn(`Replayed contacts batch partially failed: ${result.error}`);
+    }
+
+    await recordCareerEvents(
+      result.contacts.flatMap(contact => contact.outcome === 'updated' && contact.career_event ? [contact.career_event] : [])
+    );
+    await sendWebhookEvents(contactBatchEvents(entry.contacts, result));
+    return null;
+  }
+
+  const result = await apiClient.saveProfileIfChanged(entry.write, entry.snapshot);
+  if (!result.success) {
+    return { message: result.error || 'Profile write failed', unavailable: !!result.unavailable };
+  }
+
+  if (entry.queue_id) {
+    await apiClient.completeEnrichment(entry.queue_id);
+  }
+  if (result.career_event) {
+    await recordCareerEvents([result.career_event]);
+  }
+  await sendWebhookEvents(profileSaveEvents(entry.write.contact, result));
+  return null;
+}
+
+async function deferEntry(entry: OutboxEntry, reason: string): Promise<void> {
+  const delayMs = Math.min(
+    OUTBOX.retryBaseSeconds * 1000 * Math.pow(2, entry.attempts),
+    OUTBOX.retryMaxMinutes * 60 * 1000
+  );
+  await outbox.update({
+    ...entry,
+    attempts: entry.attempts + 1,
+    next_attempt_at: Date.now() + delayMs,
+    last_error: reason,
+  });
+  logger.info(`Outbox replay failed (${reason}), retrying in ${Math.round(delayMs / 1000)}s`);
+}
+
+async function newEntryState() {
+  return { user_id: await getUserId(), created_at: Date.now(), attempts: 0, next_attempt_at: Date.now(), last_error: null };
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { PROFILE_REFRESH } from '@/config/constants';
+import { STORAGE_KEYS, type RefreshCandidate } from '@/types';
+
+vi.mock('@/lib/api-client', () => ({
+  apiClient: { getRefreshCandidates: vi.fn() },
+}));
+
+import { apiClient } from '@/lib/api-client';
+import { getRefreshWeight, getRefreshPriority, planProfileRefresh, scheduleProfileRefresh } from './refresh-planner';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+function candidate(overrides: Partial<RefreshCandidate>): RefreshCandidate {
+  return {
+    id: 'contact',
+    linkedin_url: 'https://www.linkedin.com/in/someone',
+    scraped_at: new Date(NOW - 10 * DAY_MS).toISOString(),
+    relationship_score: null,
+    contact_frequency: null,
+    last_interaction_at: null,
+    ...overrides,
+  };
+}
+
+describe('getRefreshWeight', () => {
+  it('is 1 without relationship signals', () => {
+    expect(getRefreshWeight(candidate({}), NOW)).toBe(1);
+  });
+
+  it('grows with score, frequency and a recent interaction', () => {
+    const weight = getRefreshWeight(candidate({
+      relationship_score: 100,
+      contact_frequency: 'weekly',
+      last_interaction_at: new Date(NOW - DAY_MS).toISOString(),
+    }), NOW);
+    expect(weight).toBe(2 * 3 * 1.5);
+  });
+});
+
+describe('getRefreshPriority', () => {
+  it('is null while the profile is fresh', () => {
+    expect(getRefreshPriority(candidate({}), NOW)).toBeNull();
+  });
+
+  it('is the age relative to the stale age once stale', () => {
+    const scrapedAt = new Date(NOW - 2 * PROFILE_REFRESH.staleAfterDays * DAY_MS).toISOString();
+    expect(getRefreshPriority(candidate({ scraped_at: scrapedAt }), NOW)).toBeCloseTo(2);
+  });
+
+  it('treats a never-scraped profile as overdue', () => {
+    expect(getRefreshPriority(candidate({ scraped_at: null }), NOW)).toBeGreaterThan(1);
+  });
+});
+
+describe('planProfileRefresh', () => {
+  it('returns the most overdue stale contacts first, up to the limit', async () => {
+    const ago = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+    vi.mocked(apiClient.getRefreshCandidates).mockResolvedValue([
+      candidate({ id: 'fresh', scraped_at: ago(10) }),
+      candidate({ id: 'stale', scraped_at: ago(100) }),
+      candidate({ id: 'very-stale', scraped_at: ago(300) }),
+      candidate({ id: 'important', scraped_at: ago(60), relationship_score: 100, contact_frequency: 'weekly' }),
+    ]);
+
+    expect(await planProfileRefresh(2, NOW)).toEqual(['important', 'very-stale']);
+  });
+});
+
+describe('scheduleProfileRefresh', () => {
+  let fake: FakeChrome;
+  let now: number;
+
+  beforeEach(() => {
+    now = NOW;
+    fake = installFakeChrome(() => now);
+  });
+
+  it('keeps the pending alarm when the worker restarts', async () => {
+    await scheduleProfileRefresh();
+    const firstRun = fake.alarms.get(PROFILE_REFRESH.alarmName)?.scheduledTime;
+    expect(firstRun).toBe(NOW + PROFILE_REFRESH.checkIntervalMinutes * 60_000);
+
+    // The health check alarm wakes the worker every minute, and startup schedules again
+    for (let minute = 1; minute < PROFILE_REFRESH.checkIntervalMinutes; minute++) {
+      now = NOW + minute * 60_000;
+      await scheduleProfileRefresh();
+    }
+
+    expect(fake.alarms.get(PROFILE_REFRESH.alarmName)?.scheduledTime).toBe(firstRun);
+  });
+
+  it('clears the alarm when refresh is turned off', async () => {
+    await scheduleProfileRefresh();
+    fake.store[STORAGE_KEYS.SETTINGS] = { refresh_enabled: false };
+    await scheduleProfileRefresh();
+
+    expect(fake.alarms.has(PROFILE_REFRESH.alarmName)).toBe(false);
+  });
+});
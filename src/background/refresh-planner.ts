@@ -0,0 +1,108 @@
+/**
+ * Re-enrichment Planner
+ *
+ * Enrichment fills a profile once; after that titles and companies drift.
+ * The planner picks enriched contacts whose profiles have gone stale and
+ * refreshes the most valuable relationships first, within a daily budget of
+ * profile requests (ExtensionSettings.refresh_daily_budget):
+ * - A contact goes stale after PROFILE_REFRESH.staleAfterDays divided by its weight
+ * - The weight grows with relationship_score, contact_frequency and recent interactions
+ * - The most overdue contacts (age relative to their stale age) go first
+ */
+
+import { storage } from '@/lib/storage';
+import { apiClient } from '@/lib/api-client';
+import { createLogger } from '@/lib/logger';
+import { PROFILE_REFRESH } from '@/config/constants';
+import type { Contact } from '@/lib/supabase';
+import type { ExtensionSettings, RefreshCandidate } from '@/types';
+
+const logger = createLogger('refresh-planner');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// People we keep in touch with often change jobs under our nose the most
+const FREQUENCY_WEIGHTS: Record<NonNullable<Contact['contact_frequency']>, number> = {
+  weekly: 3,
+  biweekly: 2.5,
+  monthly: 2,
+  quarterly: 1.5,
+  yearly: 1.2,
+  none: 1,
+};
+
+const RECENT_INTERACTION_WEIGHT = 1.5;
+
+// relationship_score runs 0-100 and at most doubles the weight
+const MAX_WEIGHT = Math.max(...Object.values(FREQUENCY_WEIGHTS)) * 2 * RECENT_INTERACTION_WEIGHT;
+
+/**
+ * How much keeping this contact's profile fresh matters, from 1 up
+ */
+export function getRefreshWeight(candidate: RefreshCandidate, now = Date.now()): number {
+  const score = Math.min(100, Math.max(0, candidate.relationship_score ?? 0));
+  const frequency = FREQUENCY_WEIGHTS[candidate.contact_frequency ?? 'none'];
+  const lastInteraction = candidate.last_interaction_at ? Date.parse(candidate.last_interaction_at) : NaN;
+  const recent = now - lastInteraction <= PROFILE_REFRESH.recentInteractionDays * DAY_MS;
+
+  return (1 + score / 100) * frequency * (recent ? RECENT_INTERACTION_WEIGHT : 1);
+}
+
+/**
+ * How overdue a refresh is (1 = just went stale), or null while still fresh
+ */
+export function getRefreshPriority(candidate: RefreshCandidate, now = Date.now()): number | null {
+  const staleAfterMs = (PROFILE_REFRESH.staleAfterDays * DAY_MS) / getRefreshWeight(candidate, now);
+  // Never scraped counts as a year overdue
+  const ageMs = candidate.scraped_at ? now - Date.parse(candidate.scraped_at) : staleAfterMs + 365 * DAY_MS;
+
+  return ageMs >= staleAfterMs ? ageMs / staleAfterMs : null;
+}
+
+/**
+ * Pick up to `limit` stale contacts to refresh, most overdue first
+ */
+export async function planProfileRefresh(limit: number, now = Date.now()): Promise<string[]> {
+  if (limit <= 0) return [];
+
+  // Nothing scraped more recently than the most important contact's stale age can be due
+  const scrapedBefore = new Date(now - (PROFILE_REFRESH.staleAfterDays * DAY_MS) / MAX_WEIGHT).toISOString();
+  const candidates = await apiClient.getRefreshCandidates(scrapedBefore, PROFILE_REFRESH.candidateLimit);
+
+  const due = candidates
+    .map(candidate => ({ id: candidate.id, priority: getRefreshPriority(candidate, now) }))
+    .filter((entry): entry is { id: string; priority: number } => entry.priority !== null)
+    .sort((a, b) => b.priority - a.priority);
+
+  logger.info(`${due.length} of ${candidates.length} candidate profiles are stale`);
+  return due.slice(0, limit).map(entry => entry.id);
+}
+
+/**
+ * Profile requests re-enrichment may still spend today
+ */
+export async function getRemainingRefreshBudget(settings: ExtensionSettings): Promise<number> {
+  const usage = await storage.getRefreshUsage();
+  return Math.max(0, settings.refresh_daily_budget - usage.used);
+}
+
+/**
+ * Create or clear the periodic re-enrichment alarm from the settings
+ */
+export async function scheduleProfileRefresh(): Promise<void> {
+  const settings = await storage.getSettings();
+  if (!settings.refresh_enabled || settings.refresh_daily_budget <= 0) {
+    await chrome.alarms.clear(PROFILE_REFRESH.alarmName);
+    logger.info('Profile refresh disabled');
+    return;
+  }
+
+  // Keep an existing alarm so settings changes don't push the next run back
+  if (await chrome.alarms.get(PROFILE_REFRESH.alarmName)) return;
+
+  chrome.alarms.create(PROFILE_REFRESH.alarmName, {
+    delayInMinutes: PROFILE_REFRESH.checkIntervalMinutes,
+    periodInMinutes: PROFILE_REFRESH.checkIntervalMinutes,
+  });
+  logger.info(`Profile refresh every ${PROFILE_REFRESH.checkIntervalMinutes} minutes`);
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { AUTO_SYNC } from '@/config/constants';
+import { DEFAULT_SETTINGS, STORAGE_KEYS, type ExtensionSettings } from '@/types';
+import { getNextRunTime, isIntervalSyncDue, scheduleAutoSync, scheduleSettingsChanged } from './sync-scheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local times, as the time-of-day modes follow the browser's clock
+const MONDAY_8AM = new Date(2026, 9, 19, 8, 0).getTime();
+const FRIDAY_10AM = new Date(2026, 9, 23, 10, 0).getTime();
+
+function settings(overrides: Partial<ExtensionSettings>): ExtensionSettings {
+  return { ...DEFAULT_SETTINGS, auto_sync_enabled: true, ...overrides };
+}
+
+describe('getNextRunTime', () => {
+  it('is null when auto-sync is off', () => {
+    expect(getNextRunTime(settings({ auto_sync_enabled: false }), null, MONDAY_8AM)).toBeNull();
+  });
+
+  it('runs an interval sync a full interval after the last one', () => {
+    const next = getNextRunTime(settings({ auto_sync_mode: 'interval', auto_sync_interval_hours: 6 }), MONDAY_8AM - HOUR_MS, MONDAY_8AM);
+    expect(next).toBe(MONDAY_8AM + 5 * HOUR_MS);
+  });
+
+  it('runs an overdue or first interval sync a minute from now', () => {
+    const interval = settings({ auto_sync_mode: 'interval', auto_sync_interval_hours: 6 });
+    expect(getNextRunTime(interval, MONDAY_8AM - 10 * HOUR_MS, MONDAY_8AM)).toBe(MONDAY_8AM + 60_000);
+    expect(getNextRunTime(interval, null, MONDAY_8AM)).toBe(MONDAY_8AM + 60_000);
+  });
+
+  it('runs a daily sync at the set time, tomorrow once it has passed', () => {
+    expect(getNextRunTime(settings({ auto_sync_mode: 'daily', auto_sync_time: '09:30' }), null, MONDAY_8AM))
+      .toBe(new Date(2026, 9, 19, 9, 30).getTime());
+    expect(getNextRunTime(settings({ auto_sync_mode: 'daily', auto_sync_time: '07:00' }), null, MONDAY_8AM))
+      .toBe(new Date(2026, 9, 20, 7, 0).getTime());
+  });
+
+  it('skips the weekend on weekdays', () => {
+    expect(getNextRunTime(settings({ auto_sync_mode: 'weekdays', auto_sync_time: '09:00' }), null, FRIDAY_10AM))
+      .toBe(new Date(2026, 9, 26, 9, 0).getTime());
+  });
+});
+
+describe('isIntervalSyncDue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(MONDAY_8AM);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is not due when another sync ran within the interval', () => {
+    const interval = settings({ auto_sync_mode: 'interval', auto_sync_interval_hours: 6 });
+    expect(isIntervalSyncDue(interval, MONDAY_8AM - 2 * HOUR_MS)).toBe(false);
+    expect(isIntervalSyncDue(interval, MONDAY_8AM - 6 * HOUR_MS)).toBe(true);
+    expect(isIntervalSyncDue(interval, null)).toBe(true);
+  });
+
+  it('is always due for the time-of-day modes', () => {
+    expect(isIntervalSyncDue(settings({ auto_sync_mode: 'daily' }), MONDAY_8AM - HOUR_MS)).toBe(true);
+  });
+});
+
+describe('scheduleAutoSync', () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(MONDAY_8AM);
+    fake = installFakeChrome();
+    fake.store[STORAGE_KEYS.SETTINGS] = settings({ auto_sync_mode: 'interval', auto_sync_interval_hours: 6 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps an overdue run pending when the worker wakes', async () => {
+    const first = await scheduleAutoSync();
+    expect(first).toBe(MONDAY_8AM + 60_000);
+
+    // The health check alarm wakes the worker every minute
+    vi.setSystemTime(MONDAY_8AM + 30_000);
+    expect(await scheduleAutoSync({ keepPending: true })).toBe(first);
+    expect(fake.alarms.get(AUTO_SYNC.alarmName)?.scheduledTime).toBe(first);
+  });
+
+  it('keeps a daily run about to fire', async () => {
+    fake.store[STORAGE_KEYS.SETTINGS] = settings({ auto_sync_mode: 'daily', auto_sync_time: '08:30' });
+    const first = await scheduleAutoSync();
+
+    vi.setSystemTime(first! + 500);
+    expect(await scheduleAutoSync({ keepPending: true })).toBe(first);
+  });
+
+  it('replaces the alarm when the schedule changes', async () => {
+    await scheduleAutoSync();
+    fake.store[STORAGE_KEYS.SETTINGS] = settings({ auto_sync_mode: 'daily', auto_sync_time: '09:00' });
+
+    expect(await scheduleAutoSync()).toBe(MONDAY_8AM + HOUR_MS);
+    expect(fake.alarms.get(AUTO_SYNC.alarmName)?.scheduledTime).toBe(MONDAY_8AM + HOUR_MS);
+  });
+
+  it('clears the alarm when auto-sync is turned off', async () => {
+    await scheduleAutoSync();
+    fake.store[STORAGE_KEYS.SETTINGS] = settings({ auto_sync_enabled: false });
+
+    expect(await scheduleAutoSync({ keepPending: true })).toBeNull();
+    expect(fake.alarms.has(AUTO_SYNC.alarmName)).toBe(false);
+  });
+});
+
+describe('scheduleSettingsChanged', () => {
+  it('only reports changes to the auto-sync settings', () => {
+    const before = settings({});
+    expect(scheduleSettingsChanged(before, { ...before, export_schedule: 'daily' })).toBe(false);
+    expect(scheduleSettingsChanged(before, { ...before, auto_sync_time: '18:00' })).toBe(true);
+  });
+});
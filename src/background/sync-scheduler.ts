@@ -0,0 +1,154 @@
+/**
+ * Auto-Sync Scheduler
+ *
+ * Schedules the auto-sync alarm from ExtensionSettings: daily or on weekdays
+ * at a set local time, every N hours, or not at all. The alarm fires once and
+ * is rescheduled after every run and whenever the schedule settings change;
+ * waking the worker keeps the pending one.
+ */
+
+import { storage } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+import { AUTO_SYNC } from '@/config/constants';
+import type { AutoSyncSchedule, ExtensionSettings } from '@/types';
+
+const logger = createLogger('scheduler');
+
+// Don't fire the moment the worker starts when a run is overdue
+const MIN_DELAY_MS = 60 * 1000;
+
+const SCHEDULE_SETTING_KEYS: Array<keyof ExtensionSettings> = [
+  'auto_sync_enabled',
+  'auto_sync_mode',
+  'auto_sync_time',
+  'auto_sync_interval_hours',
+];
+
+/**
+ * Work out when the next auto-sync should run, or null when it's disabled
+ */
+export function getNextRunTime(
+  settings: ExtensionSettings,
+  lastSync: number | null,
+  now = Date.now()
+): number | null {
+  if (!settings.auto_sync_enabled) {
+    return null;
+  }
+
+  if (settings.auto_sync_mode === 'interval') {
+    const intervalMs = Math.max(1, settings.auto_sync_interval_hours) * 60 * 60 * 1000;
+    const next = lastSync ? lastSync + intervalMs : now;
+    return Math.max(next, now + MIN_DELAY_MS);
+  }
+
+  const [hours, minutes] = parseTime(settings.auto_sync_time);
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+
+  if (settings.auto_sync_mode === 'weekdays') {
+    // Skip Saturday (6) and Sunday (0)
+    while (next.getDay() === 0 || next.getDay() === 6) {
+      next.setDate(next.getDate() + 1);
+    }
+  }
+
+  return next.getTime();
+}
+
+/**
+ * Whether an interval-mode run is due; false when another sync (e.g. a manual
+ * one) already ran within the interval. Always true for the time-of-day modes
+ */
+export function isIntervalSyncDue(settings: ExtensionSettings, lastSync: number | null): boolean {
+  if (settings.auto_sync_mode !== 'interval' || !lastSync) {
+    return true;
+  }
+
+  const intervalMs = Math.max(1, settings.auto_sync_interval_hours) * 60 * 60 * 1000;
+  return Date.now() - lastSync >= intervalMs - MIN_DELAY_MS;
+}
+
+/**
+ * Whether a settings change touches the auto-sync schedule
+ */
+export function scheduleSettingsChanged(
+  before: Partial<ExtensionSettings> | undefined,
+  after: Partial<ExtensionSettings> | undefined
+): boolean {
+  return SCHEDULE_SETTING_KEYS.some(key => before?.[key] !== after?.[key]);
+}
+
+/**
+ * Create the auto-sync alarm from the current settings
+ * Returns the next run time, or null when auto-sync is disabled
+ *
+ * With `keepPending` (the worker waking up) an existing alarm stays: recomputing
+ * would move an overdue run a minute on at every wake, and a daily run about to
+ * fire to the next day. Otherwise it's only replaced when the time differs
+ */
+export async function scheduleAutoSync({ keepPending = false } = {}): Promise<number | null> {
+  const settings = await storage.getSettings();
+  const { last_sync } = await storage.getSyncState();
+
+  const next = getNextRunTime(settings, last_sync);
+  if (next === null) {
+    await chrome.alarms.clear(AUTO_SYNC.alarmName);
+    logger.info('Auto-sync disabled');
+    return null;
+  }
+
+  const existing = await chrome.alarms.get(AUTO_SYNC.alarmName);
+  if (existing && (keepPending || existing.scheduledTime === next)) {
+    return existing.scheduledTime;
+  }
+
+  await chrome.alarms.create(AUTO_SYNC.alarmName, { when: next });
+  logger.info(`Next auto-sync (${settings.auto_sync_mode}) at ${new Date(next).toLocaleString()}`);
+  return next;
+}
+
+/**
+ * Try again soon instead of waiting for the next scheduled run,
+ * e.g. when the LinkedIn session wasn't fresh
+ */
+export async function retryAutoSyncLater(): Promise<void> {
+  const next = Date.now() + AUTO_SYNC.checkIntervalMinutes * 60 * 1000;
+  await chrome.alarms.create(AUTO_SYNC.alarmName, { when: next });
+  logger.info(`Auto-sync retry at ${new Date(next).toLocaleString()}`);
+}
+
+/**
+ * Get the schedule as the popup shows it, with the real alarm time
+ */
+export async function getAutoSyncSchedule(): Promise<AutoSyncSchedule> {
+  const settings = await storage.getSettings();
+  const alarm = await chrome.alarms.get(AUTO_SYNC.alarmName);
+
+  return {
+    enabled: settings.auto_sync_enabled,
+    mode: settings.auto_sync_mode,
+    time: settings.auto_sync_time,
+    interval_hours: settings.auto_sync_interval_hours,
+    next_run: alarm?.scheduledTime ?? null,
+  };
+}
+
+/**
+ * Parse "HH:MM", falling back to the default time if it's malformed
+ */
+function parseTime(time: string): [number, number] {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  const hours = match ? Number(match[1]) : NaN;
+  const minutes = match ? Number(match[2]) : NaN;
+
+  if (hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60) {
+    return [hours, minutes];
+  }
+
+  logger.warn(`Invalid auto-sync time "${time}", using ${AUTO_SYNC.defaultTime}`);
+  return parseTime(AUTO_SYNC.defaultTime);
+}
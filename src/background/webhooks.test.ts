@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { WEBHOOKS } from '@/config/constants';
+import { DEFAULT_SETTINGS, STORAGE_KEYS, type WebhookDelivery } from '@/types';
+import { deliverWebhooks, sendWebhookEvents, archivedContactEvents } from './webhooks';
+
+const WEBHOOK_URL = 'https://hooks.example.com/crm';
+
+describe('webhook delivery', () => {
+  let fake: FakeChrome;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const deliveries = () => fake.store[STORAGE_KEYS.WEBHOOK_DELIVERIES] as WebhookDelivery[];
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+    fake.store[STORAGE_KEYS.SETTINGS] = { ...DEFAULT_SETTINGS, webhook_enabled: true, webhook_url: WEBHOOK_URL, webhook_secret: 'secret' };
+    fake.origins.add('https://hooks.example.com/*');
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts signed batches', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    await sendWebhookEvents(archivedContactEvents([{ contact_id: 'c1', linkedin_url: 'https://www.linkedin.com/in/ada' }]));
+    await vi.waitFor(() => expect(deliveries()[0].status).toBe('delivered'));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(WEBHOOK_URL);
+    expect(init.headers['X-CRM-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+
+  it('keeps a failed delivery pending with a backoff and the error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    await sendWebhookEvents(archivedContactEvents([{ contact_id: 'c1', linkedin_url: 'https://www.linkedin.com/in/ada' }]));
+    await vi.waitFor(() => expect(deliveries()[0].attempts).toBe(1));
+
+    const [delivery] = deliveries();
+    expect(delivery.status).toBe('pending');
+    expect(delivery.error).toBe('Failed to fetch');
+    expect(delivery.next_attempt_at).toBeGreaterThanOrEqual(Date.now() + (WEBHOOKS.retryBaseSeconds - 1) * 1000);
+    expect(delivery.events).toHaveLength(1);
+  });
+
+  it('fails a delivery the receiver rejects without retrying', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 400 }));
+    await sendWebhookEvents(archivedContactEvents([{ contact_id: 'c1', linkedin_url: 'https://www.linkedin.com/in/ada' }]));
+    await vi.waitFor(() => expect(deliveries()[0].status).toBe('failed'));
+
+    expect(deliveries()[0]).toMatchObject({ response_status: 400, error: 'HTTP 400', next_attempt_at: null });
+  });
+
+  it("doesn't post without access to the webhook's host", async () => {
+    fake.origins.clear();
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    await sendWebhookEvents(archivedContactEvents([{ contact_id: 'c1', linkedin_url: 'https://www.linkedin.com/in/ada' }]));
+    await vi.waitFor(() => expect(deliveries()[0].attempts).toBe(1));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(deliveries()[0].error).toContain('No access to');
+
+    // Granting access lets the retry through
+    fake.origins.add('https://hooks.example.com/*');
+    fake.store[STORAGE_KEYS.WEBHOOK_DELIVERIES] = deliveries().map(d => ({ ...d, next_attempt_at: Date.now() }));
+    await vi.waitFor(async () => expect(await deliverWebhooks()).toBe(1));
+  });
+});
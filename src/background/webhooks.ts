@@ -0,0 +1,304 @@
+/**
+ * Webhooks
+ *
+ * Contacts created, updated or archived by a sync, profile changes found by
+ * enrichment, and job changes are POSTed as JSON event batches to
+ * settings.webhook_url, so other tools (Slack bots, internal services) can react:
+ * - Every POST is signed with settings.webhook_secret (see signPayload)
+ * - A failed delivery retries with exponential backoff from the health-check alarm
+ * - Finished deliveries are kept as a short log for the settings screen
+ * - The URL's host must be granted first (see requestHostPermission), or the
+ *   preflight for the X-CRM-* headers would fail
+ */
+
+import { storage } from '@/lib/storage';
+import { createLogger } from '@/lib/logger';
+import { hasHostPermission } from '@/lib/host-permissions';
+import { TIMEOUTS, WEBHOOKS } from '@/config/constants';
+import type { CareerEvent, ExtensionSettings, ImportBatchResult, LinkedInContact, ProfileSaveResult, WebhookDelivery, WebhookEvent, WebhookEventType, WebhookPayload } from '@/types';
+
+const logger = createLogger('webhooks');
+
+// Deliveries are read-modify-written in chrome.storage; this chains those writes
+let deliveriesLock: Promise<unknown> = Promise.resolve();
+let delivering = false;
+
+/**
+ * Events for one batch of contacts written by a connections sync (or its outbox replay)
+ */
+export function contactBatchEvents(contacts: LinkedInContact[], result: ImportBatchResult): WebhookEvent[] {
+  const byUrl = new Map(contacts.map(contact => [contact.linkedin_url, contact]));
+  const events: WebhookEvent[] = [];
+
+  for (const written of result.contacts) {
+    if (written.outcome !== 'created' && written.outcome !== 'updated') continue;
+    const contact = byUrl.get(written.linkedin_url);
+    const data: Record<string, unknown> = {
+      contact_id: written.contact_id ?? null,
+      linkedin_url: written.linkedin_url,
+      name: contact?.name ?? null,
+      title: contact?.title ?? null,
+      company: contact?.company ?? null,
+      source: 'sync',
+    };
+
+    if (written.outcome === 'created') {
+      events.push(createEvent('contact.created', data));
+    } else {
+      events.push(createEvent('contact.updated', { ...data, changed_fields: written.changed_fields }));
+    }
+    if (written.career_event) {
+      events.push(careerEventToEvent(written.career_event));
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Events for an enriched profile that was saved; an unchanged profile has none
+ */
+export function profileSaveEvents(
+  profile: { name: string; linkedin_url: string },
+  result: ProfileSaveResult
+): WebhookEvent[] {
+  if (!result.success || result.unchanged) return [];
+
+  const data: Record<string, unknown> = {
+    contact_id: result.contact_id,
+    linkedin_url: profile.linkedin_url,
+    name: profile.name,
+    source: 'enrichment',
+  };
+  const events: WebhookEvent[] = [];
+
+  if (result.tables.contacts.status === 'created') {
+    events.push(createEvent('contact.created', data));
+  } else if (result.changes.length > 0) {
+    events.push(createEvent('contact.updated', { ...data, changes: result.changes }));
+  }
+  if (result.career_event) {
+    events.push(careerEventToEvent(result.career_event));
+  }
+
+  return events;
+}
+
+/**
+ * Events for connections archived as removed after a full sync
+ */
+export function archivedContactEvents(contacts: Array<{ contact_id: string; linkedin_url: string }>): WebhookEvent[] {
+  return contacts.map(contact => createEvent('contact.archived', { ...contact, source: 'sync' }));
+}
+
+/**
+ * Queue events for delivery and start sending them. Does nothing while webhooks
+ * are off; never throws, so a webhook problem can't fail a sync
+ */
+export async function sendWebhookEvents(events: WebhookEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const settings = await storage.getSettings();
+    if (!settings.webhook_enabled || !settings.webhook_url) return;
+
+    const deliveries: WebhookDelivery[] = [];
+    for (let i = 0; i < events.length; i += WEBHOOKS.maxEventsPerDelivery) {
+      deliveries.push(newDelivery(events.slice(i, i + WEBHOOKS.maxEventsPerDelivery)));
+    }
+    await updateDeliveries(current => [...current, ...deliveries]);
+  } catch (error) {
+    logger.error('Failed to queue webhook events:', error);
+    return;
+  }
+
+  deliverWebhooks().catch(error => logger.error('Webhook delivery failed:', error));
+}
+
+/**
+ * Send pending deliveries whose next attempt is due, oldest first
+ * Returns how many were delivered
+ */
+export async function deliverWebhooks(): Promise<number> {
+  if (delivering) return 0;
+  delivering = true;
+
+  try {
+    const settings = await storage.getSettings();
+    if (!settings.webhook_enabled || !settings.webhook_url) return 0;
+
+    // Events queued while this runs are picked up too, but nothing is tried twice
+    const tried = new Set<string>();
+    let delivered = 0;
+    for (;;) {
+      const delivery = (await storage.getWebhookDeliveries()).find(d =>
+        d.status === 'pending' && (d.next_attempt_at ?? 0) <= Date.now() && !tried.has(d.id)
+      );
+      if (!delivery) break;
+
+      tried.add(delivery.id);
+      const attempted = await attemptDelivery(delivery, settings, WEBHOOKS.maxAttempts);
+      await updateDeliveries(current => current.map(d => (d.id === attempted.id ? attempted : d)));
+      if (attempted.status === 'delivered') delivered++;
+    }
+
+    if (tried.size > 0) {
+      logger.info(`Delivered ${delivered} of ${tried.size} webhook batches`);
+    }
+    return delivered;
+  } finally {
+    delivering = false;
+  }
+}
+
+/**
+ * Send a single webhook.test event once, without retries; the URL and secret
+ * can be given to test values that aren't saved yet
+ */
+export async function testWebhook(
+  overrides: Partial<Pick<ExtensionSettings, 'webhook_url' | 'webhook_secret'>> = {}
+): Promise<WebhookDelivery> {
+  const saved = await storage.getSettings();
+  const settings = {
+    webhook_url: overrides.webhook_url ?? saved.webhook_url,
+    webhook_secret: overrides.webhook_secret ?? saved.webhook_secret,
+  };
+  if (!settings.webhook_url) {
+    throw new Error('No webhook URL set');
+  }
+
+  const delivery = newDelivery([createEvent('webhook.test', { message: 'Test event from LinkedIn CRM Sync' })]);
+  const attempted = await attemptDelivery(delivery, settings, 1);
+  await updateDeliveries(current => [...current, attempted]);
+  return attempted;
+}
+
+/**
+ * The delivery log, newest first
+ */
+export async function getWebhookDeliveries(): Promise<WebhookDelivery[]> {
+  return (await storage.getWebhookDeliveries()).slice().reverse();
+}
+
+function createEvent(type: WebhookEventType, data: Record<string, unknown>): WebhookEvent {
+  return { id: crypto.randomUUID(), type, occurred_at: new Date().toISOString(), data };
+}
+
+function careerEventToEvent(event: CareerEvent): WebhookEvent {
+  const { type, ...data } = event;
+  return createEvent(type === 'job_change' ? 'contact.job_changed' : 'contact.promoted', data);
+}
+
+function newDelivery(events: WebhookEvent[]): WebhookDelivery {
+  return {
+    id: crypto.randomUUID(),
+    status: 'pending',
+    events,
+    event_count: events.length,
+    event_types: [...new Set(events.map(event => event.type))],
+    attempts: 0,
+    response_status: null,
+    error: null,
+    created_at: Date.now(),
+    next_attempt_at: Date.now(),
+    finished_at: null,
+  };
+}
+
+/**
+ * POST a delivery once and work out its next state
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  settings: Pick<ExtensionSettings, 'webhook_url' | 'webhook_secret'>,
+  maxAttempts: number
+): Promise<WebhookDelivery> {
+  const { status, error } = await postPayload(delivery, settings);
+  const attempts = delivery.attempts + 1;
+
+  if (!error) {
+    return { ...delivery, status: 'delivered', events: [], attempts, response_status: status, error: null, next_attempt_at: null, finished_at: Date.now() };
+  }
+
+  // Other client errors won't go away by sending the same payload again
+  const rejected = status >= 400 && status < 500 && status !== 408 && status !== 429;
+  if (rejected || attempts >= maxAttempts) {
+    logger.warn(`Webhook delivery ${delivery.id} failed after ${attempts} attempts: ${error}`);
+    return { ...delivery, status: 'failed', events: [], attempts, response_status: status, error, next_attempt_at: null, finished_at: Date.now() };
+  }
+
+  const delayMs = Math.min(
+    WEBHOOKS.retryBaseSeconds * 1000 * Math.pow(2, delivery.attempts),
+    WEBHOOKS.retryMaxMinutes * 60 * 1000
+  );
+  logger.info(`Webhook delivery failed (${error}), retrying in ${Math.round(delayMs / 1000)}s`);
+  return { ...delivery, attempts, response_status: status, error, next_attempt_at: Date.now() + delayMs };
+}
+
+async function postPayload(
+  delivery: WebhookDelivery,
+  settings: Pick<ExtensionSettings, 'webhook_url' | 'webhook_secret'>
+): Promise<{ status: number; error: string | null }> {
+  if (!(await hasHostPermission(settings.webhook_url))) {
+    return { status: 0, error: `No access to ${settings.webhook_url}; save the webhook settings again to allow it` };
+  }
+
+  const payload: WebhookPayload = { delivery_id: delivery.id, sent_at: new Date().toISOString(), events: delivery.events };
+  const body = JSON.stringify(payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-CRM-Delivery': delivery.id,
+    'X-CRM-Timestamp': timestamp,
+  };
+  if (settings.webhook_secret) {
+    headers['X-CRM-Signature'] = `sha256=${await signPayload(settings.webhook_secret, `${timestamp}.${body}`)}`;
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUTS.apiRequest);
+  try {
+    const response = await fetch(settings.webhook_url, { method: 'POST', headers, body, signal: controller.signal });
+    return { status: response.status, error: response.ok ? null : `HTTP ${response.status}` };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Timed out after ${TIMEOUTS.apiRequest / 1000}s`
+      : error instanceof Error ? error.message : String(error);
+    return { status: 0, error: message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`; receivers recompute it with the
+ * shared secret and should reject stale timestamps to stop replays
+ */
+async function signPayload(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Change the stored deliveries, keeping every pending one and the most recent
+ * finished ones for the log
+ */
+function updateDeliveries(change: (deliveries: WebhookDelivery[]) => WebhookDelivery[]): Promise<void> {
+  const next = deliveriesLock.then(async () => {
+    const deliveries = change(await storage.getWebhookDeliveries());
+    const finished = deliveries.filter(delivery => delivery.status !== 'pending');
+    const dropped = new Set(finished.slice(0, Math.max(0, finished.length - WEBHOOKS.logSize)));
+    await storage.saveWebhookDeliveries(deliveries.filter(delivery => !dropped.has(delivery)));
+  });
+  deliveriesLock = next.catch(() => {});
+  return next;
+}
@@ -14,20 +14,6 @@ import { createLogger } from '@/lib/logger';
 
 const logger = createLogger('linkedin-observer');
 
-/**
- * Check if we're on a profile page
- */
-function isProfilePage(): boolean {
-  return window.location.pathname.startsWith('/in/');
-}
-
-/**
- * Check if we're on the connections page
- */
-function isConnectionsPage(): boolean {
-  return window.location.pathname.includes('/mynetwork/invite-connect/connections');
-}
-
 /**
  * Get current page type
  */
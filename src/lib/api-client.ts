@@ -1,128 +1,99 @@
-import { supabase, type Contact } from './supabase';
+import { getSupabase, toAuthState, type ContactWithDetails, type FollowUp, type Interaction, type SyncHistoryEntry, type ScrapeQueueEntry, type ScrapeQueueStatus } from './supabase';
 import { storage } from './storage';
 import { createLogger } from './logger';
-import type { LinkedInContact, LinkedInProfile, BulkImportResponse, QuickAddResponse, ContactExistsResponse } from '@/types';
+import { toProfileSnapshot, hashProfileSnapshot } from './profile-history';
+import { supabaseSink } from './sinks/supabase-sink';
+import { restSink } from './sinks/rest-sink';
+import type { CrmSink } from './sinks/sink';
+import { MAX_BATCH_SIZE, ENRICHMENT_QUEUE, PROFILE_REFRESH } from '@/config/constants';
+import type { AuthState, OAuthProvider, LinkedInContact, ContactListQuery, LinkedInProfile, BulkImportResponse, ImportBatchResult, ArchiveRemovedResult, EnrichmentQueueSummary, RefreshCandidate, ProfileWrite, ProfileSaveResult, ProfileSnapshot, CrmSinkType, QuickAddResponse, ContactExistsResponse } from '@/types';
 
 const logger = createLogger('api-client');
 
-/**
- * Convert scraped LinkedIn contact to database format
- */
-function toDbContact(contact: LinkedInContact): Omit<Contact, 'id' | 'created_at' | 'updated_at'> {
-  return {
-    name: contact.name,
-    title: contact.title || null,
-    company: contact.company || null,
-    occupation: contact.occupation || null,
-    linkedin_url: contact.linkedin_url,
-    profile_image_url: contact.profile_image_url || null,
-    connected_at: contact.connected_at || null,
-    source: contact.source || 'linkedin_extension',
-    needs_enrichment: true,
-    scraped_at: new Date().toISOString(),
-  };
-}
+const SINKS: Record<CrmSinkType, CrmSink> = {
+  supabase: supabaseSink,
+  rest: restSink,
+};
 
 /**
- * Compute a hash of profile data for change detection
+ * Snapshot of a scraped profile for change detection
  */
-function computeProfileHash(profile: LinkedInProfile): string {
-  // Create a deterministic string of the key profile data
-  const data = JSON.stringify({
+function snapshotLinkedInProfile(profile: LinkedInProfile): ProfileSnapshot {
+  const currentExp = profile.experiences?.find(exp => !exp.to_date);
+  return toProfileSnapshot({
     name: profile.name,
     headline: profile.occupation,
+    title: currentExp?.position_title || profile.title,
+    company: currentExp?.institution_name || profile.company,
     location: profile.location,
     about: profile.about,
-    experiences: (profile.experiences || []).map(e => ({
-      title: e.position_title,
-      company: e.institution_name,
-      from: e.from_date,
-      to: e.to_date,
-    })),
-    educations: (profile.educations || []).map(e => ({
-      school: e.institution_name,
-      degree: e.degree,
-    })),
-    skills: (profile.skills || []).slice(0, 20), // Only compare top 20 skills
+    experiences: profile.experiences || [],
+    educations: profile.educations || [],
+    skills: profile.skills || [],
   });
-  
-  // Simple hash function (djb2)
-  let hash = 5381;
-  for (let i = 0; i < data.length; i++) {
-    hash = ((hash << 5) + hash) + data.charCodeAt(i);
-  }
-  return (hash >>> 0).toString(16);
 }
 
 /**
- * API Client for communicating with Supabase
+ * API Client for the CRM. Data goes through the sink selected in settings;
+ * sign-in always uses Supabase Auth
  */
 class APIClient {
   // ============ Contact Methods ============
 
   /**
-   * Bulk import LinkedIn contacts (basic info only)
+   * Bulk import LinkedIn contacts (basic info only), in batches of MAX_BATCH_SIZE.
+   * onBatch sees each batch's result, for webhooks and career events
    */
-  async bulkImportContacts(contacts: LinkedInContact[]): Promise<BulkImportResponse> {
+  async bulkImportContacts(
+    contacts: LinkedInContact[],
+    syncType: SyncHistoryEntry['sync_type'] = 'bulk',
+    options: {
+      trigger?: string;
+      onBatch?: (batch: LinkedInContact[], result: ImportBatchResult) => Promise<void>;
+    } = {}
+  ): Promise<BulkImportResponse> {
     const startTime = Date.now();
     logger.info(`Bulk importing ${contacts.length} contacts`);
 
-    // Create sync history entry
-    const { data: syncEntry, error: syncError } = await supabase
-      .from('sync_history')
-      .insert({
-        sync_type: 'bulk' as const,
-        status: 'in_progress' as const,
-        total_found: contacts.length,
-        metadata: { source: 'linkedin_extension' },
-      })
-      .select()
-      .single();
-
-    if (syncError) {
-      logger.error('Failed to create sync history entry', syncError);
-    }
+    const runId = await this.startSyncRun(syncType, contacts.length);
 
     let newCount = 0;
     let updatedCount = 0;
+    let unchangedCount = 0;
     let skippedCount = 0;
     const errors: string[] = [];
 
-    const dbContacts = contacts.map(toDbContact);
-
-    // Upsert contacts
-    const { data, error } = await supabase
-      .from('contacts')
-      .upsert(dbContacts, { 
-        onConflict: 'linkedin_url',
-        ignoreDuplicates: false 
-      })
-      .select();
-
-    if (error) {
-      logger.error('Upsert failed:', error);
-      errors.push(error.message);
-      skippedCount += contacts.length;
-    } else {
-      newCount = data?.length || 0;
+    for (let i = 0; i < contacts.length; i += MAX_BATCH_SIZE) {
+      const batch = contacts.slice(i, i + MAX_BATCH_SIZE);
+      const result = await this.importContactsBatch(batch);
+      newCount += result.new_count;
+      updatedCount += result.updated_count;
+      unchangedCount += result.unchanged_count;
+      skippedCount += result.skipped_count;
+      if (result.error) {
+        errors.push(result.error);
+      }
+      await options.onBatch?.(batch, result);
     }
 
     const duration = Date.now() - startTime;
 
-    // Update sync history
-    if (syncEntry) {
-      await supabase
-        .from('sync_history')
-        .update({
-          status: errors.length === contacts.length ? 'failed' : 'completed',
-          new_contacts: newCount,
-          updated_contacts: updatedCount,
-          skipped_contacts: skippedCount,
-          completed_at: new Date().toISOString(),
-          duration_ms: duration,
-          error_message: errors.length > 0 ? errors.join('; ') : null,
-        })
-        .eq('id', syncEntry.id);
+    if (runId) {
+      await this.updateSyncRun(runId, {
+        status: skippedCount === contacts.length && errors.length > 0 ? 'failed' : 'completed',
+        new_contacts: newCount,
+        updated_contacts: updatedCount,
+        skipped_contacts: unchangedCount + skippedCount,
+        completed_at: new Date().toISOString(),
+        duration_ms: duration,
+        error_message: errors.length > 0 ? errors.join('; ') : null,
+        metadata: {
+          source: 'linkedin_extension',
+          ...(options.trigger ? { trigger: options.trigger } : {}),
+          unchanged: unchangedCount,
+          failed: skippedCount,
+        },
+      });
     }
 
     await storage.updateSyncState({
@@ -131,114 +102,151 @@ class APIClient {
     });
 
     return {
-      success: errors.length < contacts.length,
+      success: skippedCount < contacts.length || contacts.length === 0,
       new_count: newCount,
       updated_count: updatedCount,
+      unchanged_count: unchangedCount,
       skipped_count: skippedCount,
       duration_ms: duration,
     };
   }
 
+  /**
+   * Write one batch of contacts through the selected sink. Errors are returned
+   * rather than thrown so a failed batch doesn't abort the rest of the run
+   */
+  async importContactsBatch(contacts: LinkedInContact[]): Promise<ImportBatchResult> {
+    const { sink } = await this.sink();
+    const result = await sink.importContactsBatch(contacts);
+
+    // New contacts get their full profile fetched by the next enrichment run
+    await sink.enqueueEnrichment(result.contacts.flatMap(c =>
+      c.outcome === 'created' && c.contact_id ? [{ contact_id: c.contact_id, linkedin_url: c.linkedin_url }] : []
+    ));
+    return result;
+  }
+
+  /**
+   * Archive synced connections that are missing from a LinkedIn account's
+   * complete connections list
+   */
+  async archiveRemovedConnections(currentUrls: string[], account: string | null): Promise<ArchiveRemovedResult> {
+    return (await this.sink()).sink.archiveRemovedConnections(currentUrls, account);
+  }
+
+  /**
+   * Open a sync_history entry for a run whose batches are written incrementally
+   */
+  async startSyncRun(
+    syncType: SyncHistoryEntry['sync_type'],
+    totalFound?: number
+  ): Promise<string | null> {
+    return (await this.sink()).sink.startSyncRun(syncType, totalFound);
+  }
+
+  /**
+   * Update the running totals or final status of a sync_history entry
+   */
+  async updateSyncRun(id: string, updates: Partial<SyncHistoryEntry>): Promise<void> {
+    await (await this.sink()).sink.updateSyncRun(id, updates);
+  }
+
   /**
    * Quick add a single contact
    */
   async quickAddContact(contact: LinkedInContact): Promise<QuickAddResponse> {
     logger.info(`Quick adding contact: ${contact.name}`);
 
-    const dbContact = toDbContact(contact);
-
-    const { data, error } = await supabase
-      .from('contacts')
-      .upsert(dbContact, { 
-        onConflict: 'linkedin_url',
-        ignoreDuplicates: false 
-      })
-      .select()
-      .single();
-
-    if (error) {
-      logger.error('Failed to add contact', error);
-      throw new Error(error.message);
+    const result = await this.importContactsBatch([contact]);
+    const added = result.contacts[0];
+    if (!added || added.outcome === 'failed' || !added.contact_id) {
+      logger.error('Failed to add contact', result.error);
+      throw new Error(result.error || 'Failed to add contact');
     }
 
-    await supabase.from('sync_history').insert({
-      sync_type: 'quick_add' as const,
-      status: 'completed' as const,
+    await this.recordSyncRun({
+      sync_type: 'quick_add',
+      status: 'completed',
       total_found: 1,
-      new_contacts: 1,
+      new_contacts: result.new_count,
+      updated_contacts: result.updated_count,
+      skipped_contacts: result.unchanged_count,
       completed_at: new Date().toISOString(),
     });
 
     return {
       success: true,
-      contact: { id: data.id, name: data.name },
-      status: 'created',
+      contact: { id: added.contact_id, name: contact.name },
+      status: added.outcome === 'created' ? 'created' : 'updated',
     };
   }
 
   /**
-   * Check if a contact already exists
+   * Record a finished sync run that did not go through bulkImportContacts
+   * (e.g. a run cancelled before anything was saved)
    */
-  async checkContactExists(linkedinUrl: string): Promise<ContactExistsResponse> {
-    const { data, error } = await supabase
-      .from('contacts')
-      .select('id, name, last_contact_date, relationship_score')
-      .eq('linkedin_url', linkedinUrl)
-      .maybeSingle();
+  async recordSyncRun(entry: SyncHistoryEntry): Promise<void> {
+    await (await this.sink()).sink.recordSyncRun(entry);
+  }
 
-    if (error) {
-      logger.error('Error checking contact', error);
-      throw new Error(error.message);
-    }
+  /**
+   * Get the most recent sync_history entries, newest first
+   */
+  async getSyncHistory(limit = 30): Promise<SyncHistoryEntry[]> {
+    return (await this.sink()).sink.getSyncHistory(limit);
+  }
 
-    return {
-      exists: !!data,
-      contact: data ? {
-        id: data.id,
-        name: data.name,
-        last_contact: data.last_contact_date,
-        relationship_score: data.relationship_score,
-      } : null,
-    };
+  /**
+   * Check if a contact already exists
+   */
+  async checkContactExists(linkedinUrl: string): Promise<ContactExistsResponse> {
+    return (await this.sink()).sink.findContact(linkedinUrl);
   }
 
   /**
    * Check if a profile has changed since last scrape
    */
   async checkProfileChanged(profile: LinkedInProfile): Promise<boolean> {
-    const newHash = computeProfileHash(profile);
-    
-    // Get existing hash from contacts table
-    const { data } = await supabase
-      .from('contacts')
-      .select('data_hash')
-      .eq('linkedin_url', profile.linkedin_url)
-      .maybeSingle();
+    const newHash = hashProfileSnapshot(snapshotLinkedInProfile(profile));
+    const { contact } = await this.checkContactExists(profile.linkedin_url);
     
-    if (!data?.data_hash) {
+    if (!contact?.data_hash) {
       // No existing record, this is new
       return true;
     }
     
-    return data.data_hash !== newHash;
+    return contact.data_hash !== newHash;
+  }
+
+  /**
+   * Save an enriched profile unless its snapshot matches the last one saved;
+   * the result lists the changes and any job change or promotion
+   */
+  async saveProfileIfChanged(write: ProfileWrite, snapshot: ProfileSnapshot): Promise<ProfileSaveResult> {
+    return (await this.sink()).sink.saveProfile(write, snapshot);
+  }
+
+  /**
+   * Log an interaction against a contact
+   */
+  async recordInteraction(interaction: Interaction): Promise<Interaction> {
+    return (await this.sink()).sink.recordInteraction(interaction);
   }
 
   /**
    * Save a fully scraped LinkedIn profile with all details
-   * - Saves to contacts table (main record)
-   * - Saves to relational tables (experiences, educations, skills)
-   * - Saves to linkedin_profiles table (full snapshot)
-   * - Saves to profile_snapshots (for history)
+   * - Writes contacts, experiences, educations, skills and linkedin_profiles atomically
+   * - Saves to profile_snapshots (for history), skipping the write if nothing changed
    */
-  async saveFullProfile(profile: LinkedInProfile): Promise<{ success: boolean; id?: string }> {
+  async saveFullProfile(profile: LinkedInProfile): Promise<ProfileSaveResult> {
     logger.info(`Saving full profile: ${profile.name}`);
 
-    try {
-      const dataHash = computeProfileHash(profile);
-      const currentExp = profile.experiences?.find(exp => !exp.to_date);
+    const currentExp = profile.experiences?.find(exp => !exp.to_date);
 
-      // 1. Upsert main contact record
-      const contactData = {
+    // Child tables are only replaced when the scrape found entries for them
+    const result = await this.saveProfileIfChanged({
+      contact_id: null,
+      contact: {
         name: profile.name,
         title: currentExp?.position_title || profile.title || null,
         company: currentExp?.institution_name || profile.company || null,
@@ -252,7 +260,6 @@ class APIClient {
         location: profile.location || null,
         headline: profile.occupation || null,
         about: profile.about || null,
-        data_hash: dataHash,
         // Store full data as JSONB for quick access
         linkedin_data: {
           experiences: profile.experiences || [],
@@ -260,204 +267,292 @@ class APIClient {
           skills: profile.skills || [],
           open_to_work: profile.open_to_work || false,
         },
-      };
+      },
+      experiences: profile.experiences?.length
+        ? profile.experiences.map(exp => ({
+            position_title: exp.position_title,
+            company_name: exp.institution_name,
+            company_linkedin_url: exp.linkedin_url,
+            location: exp.location,
+            start_date: exp.from_date,
+            end_date: exp.to_date,
+            is_current: !exp.to_date,
+            duration: exp.duration,
+            description: exp.description,
+          }))
+        : null,
+      educations: profile.educations?.length
+        ? profile.educations.map(edu => ({
+            institution_name: edu.institution_name,
+            institution_linkedin_url: edu.linkedin_url,
+            degree: edu.degree,
+            field_of_study: edu.field_of_study,
+            start_date: edu.from_date,
+            end_date: edu.to_date,
+            description: edu.description,
+          }))
+        : null,
+      skills: profile.skills?.length ? profile.skills.map(skill => ({ skill_name: skill })) : null,
+    }, snapshotLinkedInProfile(profile));
+
+    if (!result.success) {
+      return result;
+    }
 
-      const { data: contactResult, error: contactError } = await supabase
-        .from('contacts')
-        .upsert(contactData, { onConflict: 'linkedin_url' })
-        .select('id')
-        .single();
+    await this.completeEnrichmentFor(profile.linkedin_url);
 
-      if (contactError) {
-        logger.error('Failed to save contact:', contactError);
-        return { success: false };
-      }
+    logger.info(`Full profile saved: ${profile.name} (${result.contact_id})${result.unchanged ? ', unchanged' : ''}`);
+    return result;
+  }
 
-      const contactId = contactResult.id;
-
-      // 2. Save to relational experiences table
-      if (profile.experiences && profile.experiences.length > 0) {
-        // Delete existing experiences for this contact
-        await supabase.from('experiences').delete().eq('contact_id', contactId);
-
-        // Insert new experiences
-        const experienceRecords = profile.experiences.map(exp => ({
-          contact_id: contactId,
-          position_title: exp.position_title,
-          company_name: exp.institution_name,
-          company_linkedin_url: exp.linkedin_url,
-          location: exp.location,
-          start_date: exp.from_date,
-          end_date: exp.to_date,
-          is_current: !exp.to_date,
-          duration: exp.duration,
-          description: exp.description,
-        }));
-
-        const { error: expError } = await supabase.from('experiences').insert(experienceRecords);
-        if (expError) {
-          logger.warn('Failed to save experiences:', expError.message);
-        }
-      }
+  // ============ Enrichment Queue Methods ============
 
-      // 3. Save to relational educations table
-      if (profile.educations && profile.educations.length > 0) {
-        // Delete existing educations
-        await supabase.from('educations').delete().eq('contact_id', contactId);
-
-        // Insert new educations
-        const educationRecords = profile.educations.map(edu => ({
-          contact_id: contactId,
-          institution_name: edu.institution_name,
-          institution_linkedin_url: edu.linkedin_url,
-          degree: edu.degree,
-          field_of_study: edu.field_of_study,
-          start_date: edu.from_date,
-          end_date: edu.to_date,
-          description: edu.description,
-        }));
-
-        const { error: eduError } = await supabase.from('educations').insert(educationRecords);
-        if (eduError) {
-          logger.warn('Failed to save educations:', eduError.message);
-        }
-      }
+  /**
+   * Queue contacts for a full profile fetch; contacts already queued are left alone
+   */
+  async enqueueEnrichment(entries: Array<{ contact_id: string; linkedin_url: string }>): Promise<void> {
+    await (await this.sink()).sink.enqueueEnrichment(entries);
+  }
 
-      // 4. Save to relational skills table
-      if (profile.skills && profile.skills.length > 0) {
-        // Delete existing skills
-        await supabase.from('skills').delete().eq('contact_id', contactId);
-
-        // Insert new skills
-        const skillRecords = profile.skills.map(skill => ({
-          contact_id: contactId,
-          skill_name: skill,
-        }));
-
-        const { error: skillError } = await supabase.from('skills').insert(skillRecords);
-        if (skillError) {
-          logger.warn('Failed to save skills:', skillError.message);
-        }
-      }
+  /**
+   * Claim up to `limit` due entries for an enrichment run, oldest due first.
+   * Claimed rows are leased: if the run never finishes them they become due again
+   */
+  async claimEnrichmentBatch(limit: number): Promise<ScrapeQueueEntry[]> {
+    const leaseUntil = new Date(Date.now() + ENRICHMENT_QUEUE.leaseMinutes * 60 * 1000).toISOString();
+    return (await this.sink()).sink.claimEnrichment(limit, leaseUntil);
+  }
 
-      // 5. Save to linkedin_profiles table (full profile snapshot)
-      const nameParts = profile.name.split(' ');
-      const linkedinProfileData = {
-        contact_id: contactId,
-        linkedin_url: profile.linkedin_url,
-        full_name: profile.name,
-        first_name: nameParts[0] || null,
-        last_name: nameParts.slice(1).join(' ') || null,
-        headline: profile.occupation || null,
-        location: profile.location || null,
-        about: profile.about || null,
-        profile_image_url: profile.profile_image_url || null,
-        current_title: currentExp?.position_title || profile.title || null,
-        current_company: currentExp?.institution_name || profile.company || null,
-        experience: profile.experiences || [],
-        education: profile.educations || [],
-        skills: profile.skills || [],
-        scrape_status: 'complete',
-        scraped_at: profile.scraped_at,
-      };
+  /**
+   * Mark a queue entry enriched
+   */
+  async completeEnrichment(id: string): Promise<void> {
+    try {
+      await (await this.sink()).sink.updateEnrichment(id, {
+        status: 'done',
+        last_error: null,
+        completed_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error(`Failed to complete enrichment queue entry ${id}`, error);
+    }
+  }
 
-      await supabase
-        .from('linkedin_profiles')
-        .upsert(linkedinProfileData, { onConflict: 'linkedin_url' });
+  /**
+   * Mark the queue entry for a profile enriched outside an enrichment run
+   */
+  async completeEnrichmentFor(linkedinUrl: string): Promise<void> {
+    await (await this.sink()).sink.completeEnrichmentFor(linkedinUrl);
+  }
 
-      // 6. Save snapshot for history tracking
-      await supabase.from('profile_snapshots').insert({
-        contact_id: contactId,
-        linkedin_url: profile.linkedin_url,
-        snapshot_data: {
-          name: profile.name,
-          occupation: profile.occupation,
-          location: profile.location,
-          about: profile.about,
-          experiences: profile.experiences,
-          educations: profile.educations,
-          skills: profile.skills,
-        },
-        data_hash: dataHash,
-        scraped_at: profile.scraped_at,
+  /**
+   * Record a failed attempt. Unavailable profiles and entries out of attempts
+   * are parked as 'gone'; others are retried with exponential backoff
+   */
+  async failEnrichment(
+    entry: { id: string; attempts: number },
+    reason: string,
+    gone: boolean
+  ): Promise<ScrapeQueueStatus> {
+    const attempts = entry.attempts + 1;
+    const exhausted = attempts >= ENRICHMENT_QUEUE.maxAttempts;
+    const status: ScrapeQueueStatus = gone || exhausted ? 'gone' : 'failed';
+    const delayMs = Math.min(
+      ENRICHMENT_QUEUE.retryBaseMinutes * 60 * 1000 * Math.pow(2, attempts - 1),
+      ENRICHMENT_QUEUE.retryMaxHours * 60 * 60 * 1000
+    );
+
+    try {
+      await (await this.sink()).sink.updateEnrichment(entry.id, {
+        status,
+        attempts,
+        last_error: exhausted && !gone ? `Gave up after ${attempts} attempts: ${reason}` : reason,
+        next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
       });
+    } catch (error) {
+      logger.error(`Failed to record enrichment failure for ${entry.id}`, error);
+    }
 
-      // 7. Update scrape_queue status
-      await supabase
-        .from('scrape_queue')
-        .update({ status: 'completed', completed_at: new Date().toISOString() })
-        .eq('linkedin_url', profile.linkedin_url);
+    return status;
+  }
+
+  /**
+   * Park a contact that was fetched outside the queue (a profile refresh) and
+   * turned out to be unavailable, so it shows with the other parked profiles
+   */
+  async parkEnrichment(entry: { contact_id: string; linkedin_url: string }, reason: string): Promise<void> {
+    await (await this.sink()).sink.parkEnrichment(entry, reason);
+  }
 
-      logger.info(`Full profile saved: ${profile.name} (${contactId})`);
-      return { success: true, id: contactId };
+  /**
+   * Hand claimed entries back without counting an attempt (e.g. a cancelled run)
+   */
+  async releaseEnrichment(ids: string[]): Promise<void> {
+    await (await this.sink()).sink.releaseEnrichment(ids);
+  }
 
+  /**
+   * Put a parked entry back in the queue with a fresh set of attempts
+   */
+  async retryEnrichment(id: string): Promise<void> {
+    try {
+      await (await this.sink()).sink.updateEnrichment(id, {
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: new Date().toISOString(),
+      });
     } catch (error) {
-      logger.error('Error saving full profile:', error);
-      return { success: false };
+      logger.error(`Failed to retry enrichment queue entry ${id}`, error);
+      throw error;
     }
   }
 
   /**
-   * Get total contact count
+   * Count queue entries by status and list the most recently parked ones
    */
-  async getTotalContacts(): Promise<number> {
-    const { count, error } = await supabase
-      .from('contacts')
-      .select('*', { count: 'exact', head: true });
+  async getEnrichmentQueueSummary(): Promise<EnrichmentQueueSummary> {
+    return (await this.sink()).sink.getEnrichmentQueueSummary();
+  }
 
-    if (error) {
-      logger.error('Failed to get contact count', error);
-      return 0;
-    }
+  // ============ Follow-up Methods ============
+
+  /**
+   * Create follow-ups, skipping any whose source and source_id already exist
+   * Returns the follow-ups that were created
+   */
+  async createFollowUps(followUps: FollowUp[]): Promise<FollowUp[]> {
+    return (await this.sink()).sink.createFollowUps(followUps);
+  }
+
+  // ============ Re-enrichment Methods ============
+
+  /**
+   * Get enriched, active contacts last scraped before the given time, oldest first
+   * Contacts still waiting for their first enrichment, or parked as unavailable,
+   * belong to the queue instead
+   */
+  async getRefreshCandidates(scrapedBefore: string, limit: number): Promise<RefreshCandidate[]> {
+    // Logged interactions count as contact too, whether or not last_contact_date was updated
+    const since = new Date(Date.now() - PROFILE_REFRESH.recentInteractionDays * 24 * 60 * 60 * 1000).toISOString();
+    return (await this.sink()).sink.getRefreshCandidates(scrapedBefore, limit, since);
+  }
 
-    return count || 0;
+  /**
+   * The profile URLs of these contacts, for a profile refresh
+   */
+  async getContactUrls(ids: string[]): Promise<Array<{ id: string; linkedin_url: string }>> {
+    return (await this.sink()).sink.getContactUrls(ids);
+  }
+
+  /**
+   * One page of contacts matching a query, ordered by name
+   */
+  async listContacts(query: ContactListQuery, offset: number, limit: number): Promise<ContactWithDetails[]> {
+    return (await this.sink()).sink.listContacts(query, offset, limit);
+  }
+
+  /**
+   * Get total contact count
+   */
+  async getTotalContacts(): Promise<number> {
+    return (await this.sink()).sink.countContacts();
   }
 
   /**
    * Get sync stats
    */
   async getSyncStats(): Promise<{ total_contacts: number; last_sync: string | null }> {
-    const [contactCount, lastSync] = await Promise.all([
+    const [contactCount, history] = await Promise.all([
       this.getTotalContacts(),
-      supabase
-        .from('sync_history')
-        .select('completed_at')
-        .eq('status', 'completed')
-        .order('completed_at', { ascending: false })
-        .limit(1)
-        .maybeSingle(),
+      this.getSyncHistory().catch(() => [] as SyncHistoryEntry[]),
     ]);
 
     return {
       total_contacts: contactCount,
-      last_sync: lastSync.data?.completed_at || null,
+      last_sync: history.find(entry => entry.status === 'completed')?.completed_at || null,
     };
   }
 
-  // ============ Auth Methods (placeholder) ============
+  // ============ Auth Methods ============
+
+  /**
+   * Sign in with Supabase Auth email and password
+   */
+  async signIn(email: string, password: string): Promise<AuthState> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    logger.info(`Signed in as ${email}`);
+    return toAuthState(data.session);
+  }
+
+  /**
+   * Sign in with an OAuth provider in a chrome.identity window. The provider
+   * redirects back with a PKCE code, which is exchanged for a session
+   */
+  async signInWithOAuth(provider: OAuthProvider): Promise<AuthState> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: chrome.identity.getRedirectURL(), skipBrowserRedirect: true },
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const responseUrl = await chrome.identity.launchWebAuthFlow({ url: data.url, interactive: true });
+    const params = new URL(responseUrl || chrome.identity.getRedirectURL()).searchParams;
+    const code = params.get('code');
+    if (!code) {
+      throw new Error(params.get('error_description') || 'Sign in was cancelled');
+    }
+
+    const { data: exchanged, error: exchangeError } = await supabase.auth.exchangeCodeForSession(code);
+    if (exchangeError) {
+      throw new Error(exchangeError.message);
+    }
 
-  async signIn(email: string, _password: string): Promise<{ token: string; user: { id: string; email: string; name: string } }> {
-    const mockUser = { id: 'local-user', email, name: email.split('@')[0] };
-    await storage.setAuth({ token: 'local-session', user: mockUser });
-    return { token: 'local-session', user: mockUser };
+    logger.info(`Signed in with ${provider}`);
+    return toAuthState(exchanged.session);
   }
 
-  async signInWithGoogle(_googleToken: string): Promise<{ token: string; user: { id: string; email: string; name: string } }> {
-    return this.signIn('google-user@gmail.com', '');
+  /**
+   * End this browser's session; sessions elsewhere stay signed in
+   */
+  async signOut(): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase.auth.signOut({ scope: 'local' });
+    if (error) {
+      logger.warn('Sign out failed:', error.message);
+    }
+    await storage.clearAuth();
   }
 
-  async getCurrentUser(): Promise<{ id: string; email: string; name: string } | null> {
-    const auth = await storage.getAuth();
-    return auth.user || null;
+  /**
+   * The current session, refreshing the access token first if it has expired
+   */
+  async getAuthState(): Promise<AuthState> {
+    const supabase = await getSupabase().catch(() => null);
+    if (!supabase) return toAuthState(null);
+
+    const { data } = await supabase.auth.getSession();
+    return toAuthState(data.session);
   }
 
   async healthCheck(): Promise<boolean> {
-    try {
-      const { error } = await supabase.from('contacts').select('id').limit(1);
-      return !error;
-    } catch {
-      return false;
-    }
+    return (await this.sink()).sink.healthCheck();
+  }
+
+  /**
+   * The sink selected in settings
+   */
+  private async sink(): Promise<{ sink: CrmSink; type: CrmSinkType }> {
+    const { crm_sink: type } = await storage.getSettings();
+    return { sink: SINKS[type] ?? supabaseSink, type };
   }
 }
 
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { installFakeChrome } from '@/test/fake-chrome';
+import { checkBackendSettings, type BackendSettings } from './backend-check';
+
+const SUPABASE_URL = 'https://project.supabase.co';
+const API_URL = 'https://crm.example.com';
+
+describe('checkBackendSettings', () => {
+  let requested: string[];
+
+  beforeEach(() => {
+    installFakeChrome();
+    requested = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      requested.push(url);
+      const body = url.endsWith('/contacts/count') ? { count: 0 } : {};
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const settings = (crm_sink: BackendSettings['crm_sink']): BackendSettings => ({
+    crm_sink,
+    api_url: API_URL,
+    supabase_url: SUPABASE_URL,
+    supabase_anon_key: 'anon-key',
+  });
+
+  it('checks the Supabase tables when Supabase is the sink', async () => {
+    expect(await checkBackendSettings(settings('supabase'))).toEqual([]);
+    expect(requested).toContain(`${SUPABASE_URL}/auth/v1/health`);
+    expect(requested.some(url => url.startsWith(`${SUPABASE_URL}/rest/v1/contacts`))).toBe(true);
+    expect(requested.some(url => url.startsWith(API_URL))).toBe(false);
+  });
+
+  it('only checks Supabase sign-in when the REST API is the sink', async () => {
+    expect(await checkBackendSettings(settings('rest'))).toEqual([]);
+    expect(requested.filter(url => url.startsWith(SUPABASE_URL))).toEqual([`${SUPABASE_URL}/auth/v1/health`]);
+    expect(requested).toEqual(expect.arrayContaining([`${API_URL}/health`, `${API_URL}/contacts/count`]));
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Backend settings check
+ *
+ * Before new backend settings are saved, makes sure the Supabase project
+ * answers with that key, and has the tables and columns the extension writes
+ * when it's the sink, and that a REST sink answers its health and count endpoints.
+ */
+
+import { storage } from './storage';
+import { TIMEOUTS } from '@/config/constants';
+import type { ExtensionSettings } from '@/types';
+
+export type BackendSettings = Pick<ExtensionSettings, 'crm_sink' | 'api_url' | 'supabase_url' | 'supabase_anon_key'>;
+
+export const BACKEND_SETTING_KEYS: Array<keyof BackendSettings> = ['crm_sink', 'api_url', 'supabase_url', 'supabase_anon_key'];
+
+// Columns queried per table; newer columns stand in for the migrations that add them
+const REQUIRED_COLUMNS: Record<string, string> = {
+  contacts: 'id,user_id,linkedin_url,data_hash,disconnected_at,linkedin_accounts',
+  experiences: 'id,contact_id',
+  educations: 'id,contact_id',
+  skills: 'id,contact_id',
+  linkedin_profiles: 'id,user_id',
+  profile_snapshots: 'id,user_id,changes',
+  scrape_queue: 'id,user_id,attempts,next_attempt_at',
+  sync_history: 'id,user_id',
+  interactions: 'id,user_id',
+  follow_ups: 'id,user_id',
+};
+
+// PostgREST and Postgres codes for a missing table or column
+const MISSING_TABLE_CODES = ['PGRST205', '42P01'];
+const MISSING_COLUMN_CODES = ['PGRST204', '42703'];
+
+const RUN_MIGRATIONS = 'run the migrations in supabase/migrations';
+
+interface CheckResponse {
+  status: number; // 0 if the request never got a response
+  body: { code?: string; message?: string; error?: string; count?: unknown } | null;
+  error: string | null;
+}
+
+/**
+ * Problems that would stop the extension working with these settings; empty if they work
+ */
+export async function checkBackendSettings(settings: BackendSettings): Promise<string[]> {
+  const isSink = settings.crm_sink === 'supabase';
+  const errors = await checkSupabase(settings.supabase_url, settings.supabase_anon_key, isSink);
+  if (!isSink) {
+    errors.push(...await checkRestApi(settings.api_url));
+  }
+  return errors;
+}
+
+/**
+ * Sign-in always uses Supabase Auth, so it's checked for either sink; the
+ * tables only when Supabase is the sink
+ */
+async function checkSupabase(url: string, anonKey: string, isSink: boolean): Promise<string[]> {
+  if (!isHttpUrl(url)) {
+    return ['Supabase URL must be an http(s) URL'];
+  }
+  if (!anonKey) {
+    return ['Supabase anon key is missing'];
+  }
+
+  const base = url.replace(/\/+$/, '');
+  const headers = { apikey: anonKey, Authorization: `Bearer ${anonKey}` };
+
+  const health = await request(`${base}/auth/v1/health`, headers);
+  if (health.status === 401 || health.status === 403) {
+    return ['Supabase rejected the anon key'];
+  }
+  if (health.error) {
+    return [`Can't reach Supabase at ${base}: ${health.error}`];
+  }
+  if (!isSink) {
+    return [];
+  }
+
+  const errors: string[] = [];
+  for (const [table, columns] of Object.entries(REQUIRED_COLUMNS)) {
+    const { status, body, error } = await request(`${base}/rest/v1/${table}?select=${columns}&limit=0`, headers);
+    if (!error) continue;
+
+    if (status === 401 || status === 403) {
+      return ['Supabase rejected the anon key'];
+    }
+    if (body?.code && MISSING_TABLE_CODES.includes(body.code)) {
+      errors.push(`Table ${table} is missing; ${RUN_MIGRATIONS}`);
+    } else if (body?.code && MISSING_COLUMN_CODES.includes(body.code)) {
+      errors.push(`Table ${table} is out of date (${body.message}); ${RUN_MIGRATIONS}`);
+    } else {
+      errors.push(`Can't read ${table}: ${error}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * The REST sink's health endpoint, and /contacts/count for a JSON API that
+ * follows the contract. An auth error from the count still shows it's there
+ */
+async function checkRestApi(apiUrl: string): Promise<string[]> {
+  if (!isHttpUrl(apiUrl)) {
+    return ['API URL must be an http(s) URL'];
+  }
+
+  const base = apiUrl.replace(/\/+$/, '');
+  const health = await request(`${base}/health`, {});
+  if (health.error) {
+    return [`Can't reach the API at ${base}: ${health.error}`];
+  }
+
+  const auth = await storage.getAuth();
+  const count = await request(`${base}/contacts/count`, auth.token ? { Authorization: `Bearer ${auth.token}` } : {});
+  if (count.status === 401 || count.status === 403) {
+    return [];
+  }
+  if (count.error || typeof count.body?.count !== 'number') {
+    return [`The API's /contacts/count doesn't return { count }: ${count.error || 'no count'}; see "REST CRM sink" in the README`];
+  }
+  return [];
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET a JSON endpoint; failures are returned, never thrown
+ */
+async function request(url: string, headers: Record<string, string>): Promise<CheckResponse> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUTS.apiRequest);
+
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json', ...headers }, signal: controller.signal });
+    const text = await response.text();
+    let body: CheckResponse['body'] = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON; the status decides
+    }
+
+    if (!response.ok) {
+      return { status: response.status, body, error: body?.message || body?.error || `HTTP ${response.status}` };
+    }
+    return { status: response.status, body, error: null };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Timed out after ${TIMEOUTS.apiRequest / 1000}s`
+      : error instanceof Error ? error.message : String(error);
+    return { status: 0, body: null, error: message };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
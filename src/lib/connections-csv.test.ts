@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseConnectionsCsv, CSV_CONTACT_SOURCE } from './connections-csv';
+
+const PREAMBLE = 'Notes:\r\n"When exporting your connection data, you may notice that some of the email addresses are missing."\r\n\r\n';
+const HEADER = 'First Name,Last Name,URL,Email Address,Company,Position,Connected On\r\n';
+
+function file(...rows: string[]): string {
+  return PREAMBLE + HEADER + rows.map(row => `${row}\r\n`).join('');
+}
+
+describe('parseConnectionsCsv', () => {
+  it('reads contacts after the notes preamble', () => {
+    const result = parseConnectionsCsv(file(
+      'Ada,Lovelace,https://www.linkedin.com/in/ada,ada@example.com,Analytical Engines,Engineer,18 Oct 2026'
+    ));
+
+    expect(result.rows).toBe(1);
+    expect(result.issues).toEqual([]);
+    expect(result.contacts).toEqual([expect.objectContaining({
+      name: 'Ada Lovelace',
+      title: 'Engineer',
+      company: 'Analytical Engines',
+      occupation: 'Engineer at Analytical Engines',
+      linkedin_url: 'https://www.linkedin.com/in/ada',
+      email: 'ada@example.com',
+      connected_at: '2026-10-18T00:00:00.000Z',
+      source: CSV_CONTACT_SOURCE,
+    })]);
+  });
+
+  it('keeps commas, quotes and line breaks inside quoted cells', () => {
+    const result = parseConnectionsCsv(file(
+      'Grace,Hopper,https://www.linkedin.com/in/grace,,"Navy, US","Rear Admiral ""Amazing""\nRetired",18 Oct 2026'
+    ));
+    expect(result.contacts[0].company).toBe('Navy, US');
+    expect(result.contacts[0].title).toBe('Rear Admiral "Amazing"\nRetired');
+    expect(result.contacts[0]).not.toHaveProperty('email');
+  });
+
+  it('counts repeated profile URLs and reports rows it skips', () => {
+    const result = parseConnectionsCsv(file(
+      'Ada,Lovelace,https://www.linkedin.com/in/ada,,,,',
+      'Ada,L.,https://www.linkedin.com/in/ada/,,,,',
+      'No,Url,,,,,',
+      ',,https://www.linkedin.com/in/nobody,,,,'
+    ));
+
+    expect(result.contacts.map(contact => contact.name)).toEqual(['Ada Lovelace']);
+    expect(result.duplicate_count).toBe(1);
+    expect(result.issues).toEqual([
+      { line: 7, reason: 'No profile URL for No Url' },
+      { line: 8, reason: 'No name' },
+    ]);
+  });
+
+  it('reads dates in other locales', () => {
+    const dateOf = (connectedOn: string) =>
+      parseConnectionsCsv(file(`Ada,Lovelace,https://www.linkedin.com/in/ada,,,,${connectedOn}`)).contacts[0].connected_at;
+
+    expect(dateOf('"Oct 18, 2026"')).toBe('2026-10-18T00:00:00.000Z');
+    expect(dateOf('18. Okt. 2026')).toBe('2026-10-18T00:00:00.000Z');
+    expect(dateOf('18 de out. de 2026')).toBe('2026-10-18T00:00:00.000Z');
+    expect(dateOf('2026-10-18')).toBe('2026-10-18T00:00:00.000Z');
+    expect(dateOf('18 juin 2026')).toBe('2026-06-18T00:00:00.000Z');
+    expect(dateOf('2026年10月18日')).toBe('2026-10-18T00:00:00.000Z');
+  });
+
+  it('tells day-first from month-first numeric dates across the file', () => {
+    const result = parseConnectionsCsv(file(
+      'Ada,Lovelace,https://www.linkedin.com/in/ada,,,,03/04/2026',
+      'Grace,Hopper,https://www.linkedin.com/in/grace,,,,10/18/2026'
+    ));
+    expect(result.contacts.map(contact => contact.connected_at)).toEqual([
+      '2026-03-04T00:00:00.000Z',
+      '2026-10-18T00:00:00.000Z',
+    ]);
+  });
+
+  it('imports a contact without a date it cannot read, and says so', () => {
+    const result = parseConnectionsCsv(file('Ada,Lovelace,https://www.linkedin.com/in/ada,,,,31 Feb 2026'));
+    expect(result.contacts[0].connected_at).toBeNull();
+    expect(result.issues).toEqual([{ line: 5, reason: 'Unrecognised date "31 Feb 2026" for Ada Lovelace, imported without it' }]);
+  });
+
+  it('rejects a file that is not a Connections.csv', () => {
+    expect(() => parseConnectionsCsv('Name,Email\r\nAda,ada@example.com\r\n')).toThrow(/Not a LinkedIn Connections.csv/);
+  });
+});
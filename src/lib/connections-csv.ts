@@ -0,0 +1,234 @@
+/**
+ * Connections.csv parser
+ *
+ * Reads the connections file from LinkedIn's "Get a copy of your data"
+ * archive: a notes preamble, then
+ * First Name,Last Name,URL,Email Address,Company,Position,Connected On.
+ * The "Connected On" date follows the account's locale.
+ */
+
+import { normalizeProfileUrl } from './voyager-parser';
+import type { ConnectionsCsvRowError, LinkedInContact } from '@/types';
+
+export const CSV_CONTACT_SOURCE = 'linkedin_csv';
+
+const COLUMNS = {
+  firstName: 'first name',
+  lastName: 'last name',
+  url: 'url',
+  email: 'email address',
+  company: 'company',
+  position: 'position',
+  connectedOn: 'connected on',
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+// Month names and abbreviations, lowercased without accents or dots, in the
+// locales LinkedIn exports dates in
+const MONTHS: Record<string, number> = {
+  jan: 1, ene: 1, gen: 1,
+  feb: 2, fev: 2,
+  mar: 3, mrt: 3, maa: 3,
+  apr: 4, avr: 4, abr: 4,
+  may: 5, mai: 5, mag: 5, mei: 5,
+  jun: 6, juin: 6, giu: 6,
+  jul: 7, juil: 7, lug: 7,
+  aug: 8, aou: 8, ago: 8,
+  sep: 9, set: 9,
+  oct: 10, okt: 10, out: 10, ott: 10,
+  nov: 11,
+  dec: 12, dez: 12, dic: 12,
+};
+
+export interface ConnectionsCsvParseResult {
+  rows: number;
+  contacts: LinkedInContact[]; // One per profile URL, first row wins
+  duplicate_count: number;
+  issues: ConnectionsCsvRowError[];
+}
+
+/**
+ * Parse a Connections.csv file into contacts. Throws if it isn't one
+ */
+export function parseConnectionsCsv(text: string): ConnectionsCsvParseResult {
+  const records = parseCsv(text.replace(/^\uFEFF/, ''));
+
+  const headerIndex = records.findIndex(({ cells }) => {
+    const names = cells.map(cell => cell.trim().toLowerCase());
+    return names.includes(COLUMNS.firstName) && names.includes(COLUMNS.lastName);
+  });
+  if (headerIndex === -1) {
+    throw new Error('Not a LinkedIn Connections.csv file: no "First Name,Last Name" header');
+  }
+
+  const header = records[headerIndex].cells.map(cell => cell.trim().toLowerCase());
+  const positions = Object.fromEntries(
+    (Object.keys(COLUMNS) as Column[]).map(column => [column, header.indexOf(COLUMNS[column])])
+  ) as Record<Column, number>;
+  if (positions.url === -1) {
+    throw new Error('This export has no URL column; request a new copy of your data from LinkedIn');
+  }
+
+  const dataRecords = records.slice(headerIndex + 1).filter(({ cells }) => cells.some(cell => cell.trim()));
+  const dateOrder = detectNumericDateOrder(
+    positions.connectedOn === -1 ? [] : dataRecords.map(({ cells }) => cells[positions.connectedOn] || '')
+  );
+  const scrapedAt = new Date().toISOString();
+
+  const result: ConnectionsCsvParseResult = { rows: dataRecords.length, contacts: [], duplicate_count: 0, issues: [] };
+  const seen = new Set<string>();
+
+  for (const { line, cells } of dataRecords) {
+    const value = (column: Column) => (positions[column] === -1 ? '' : (cells[positions[column]] || '').trim());
+
+    const name = `${value('firstName')} ${value('lastName')}`.trim();
+    const linkedinUrl = normalizeProfileUrl(value('url'));
+    if (!name) {
+      result.issues.push({ line, reason: 'No name' });
+      continue;
+    }
+    if (!linkedinUrl) {
+      result.issues.push({ line, reason: `No profile URL for ${name}` });
+      continue;
+    }
+    if (seen.has(linkedinUrl)) {
+      result.duplicate_count++;
+      continue;
+    }
+    seen.add(linkedinUrl);
+
+    const connectedOn = value('connectedOn');
+    const connectedAt = connectedOn ? parseConnectedOn(connectedOn, dateOrder) : null;
+    if (connectedOn && !connectedAt) {
+      result.issues.push({ line, reason: `Unrecognised date "${connectedOn}" for ${name}, imported without it` });
+    }
+
+    const position = value('position') || null;
+    const company = value('company') || null;
+    const email = value('email');
+    result.contacts.push({
+      name,
+      title: position,
+      company,
+      occupation: position && company ? `${position} at ${company}` : position,
+      linkedin_url: linkedinUrl,
+      profile_image_url: null,
+      connected_at: connectedAt,
+      scraped_at: scrapedAt,
+      source: CSV_CONTACT_SOURCE,
+      ...(email ? { email } : {}),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * RFC 4180 records, with the line each starts on; quoted cells may hold commas,
+ * quotes and line breaks
+ */
+function parseCsv(text: string): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || cells.length > 0) {
+    cells.push(cell);
+    records.push({ line: recordLine, cells });
+  }
+
+  return records;
+}
+
+/**
+ * Whether all-numeric dates in the file are day-first or month-first: a part
+ * above 12 settles it, otherwise day-first, as most locales using them are
+ */
+function detectNumericDateOrder(values: string[]): 'dmy' | 'mdy' {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})[./-](\d{1,2})[./-]\d{2,4}$/);
+    if (!match) continue;
+    if (Number(match[1]) > 12) return 'dmy';
+    if (Number(match[2]) > 12) return 'mdy';
+  }
+  return 'dmy';
+}
+
+/**
+ * A "Connected On" date as an ISO timestamp (midnight UTC): "18 Oct 2026",
+ * "Oct 18, 2026", "18. Okt. 2026", "18 de out. de 2026", "2026-10-18",
+ * "2026年10月18日" or "18/10/2026". Null if it can't be read
+ */
+function parseConnectedOn(value: string, numericOrder: 'dmy' | 'mdy'): string | null {
+  const trimmed = value.trim();
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const yearFirst = trimmed.match(/^(\d{4})\D+(\d{1,2})\D+(\d{1,2})/);
+  const numeric = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/);
+  if (yearFirst) {
+    [year, month, day] = [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])];
+  } else if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    [day, month] = numericOrder === 'dmy' ? [first, second] : [second, first];
+    year = Number(numeric[3]) + (numeric[3].length === 2 ? 2000 : 0);
+  } else {
+    // Day, month name and year in any order, ignoring words like "de"
+    const tokens = trimmed
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[\s.,]+/)
+      .filter(Boolean);
+    for (const token of tokens) {
+      if (/^\d{4}$/.test(token)) {
+        year = Number(token);
+      } else if (/^\d{1,2}$/.test(token)) {
+        day = Number(token);
+      } else if (token.length >= 3) {
+        // Four letters first, to tell French juin from juil(let)
+        month = MONTHS[token.slice(0, 4)] ?? MONTHS[token.slice(0, 3)] ?? month;
+      }
+    }
+  }
+
+  if (!year || !month || !day || month > 12 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects days past the end of the month, which Date would roll over
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString();
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { formatContactExport, DEFAULT_EXPORT_OPTIONS } from './contact-export';
+import type { ContactWithDetails } from './supabase';
+
+function csvCell(value: string): string {
+  const contact = { id: 'contact-1', name: value, linkedin_url: 'https://www.linkedin.com/in/someone' } as ContactWithDetails;
+  const { content } = formatContactExport([contact], { ...DEFAULT_EXPORT_OPTIONS, columns: ['name'] });
+  return content.split('\r\n')[1];
+}
+
+describe('formatContactExport CSV', () => {
+  it('guards values a spreadsheet would run as a formula', () => {
+    expect(csvCell('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(csvCell('+1+A1')).toBe("'+1+A1");
+    expect(csvCell('-1+A1')).toBe("'-1+A1");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell('\tcmd')).toBe("'\tcmd");
+  });
+
+  it('leaves plain numbers as they are', () => {
+    expect(csvCell('-5')).toBe('-5');
+    expect(csvCell('+44')).toBe('+44');
+    expect(csvCell('-0.25')).toBe('-0.25');
+  });
+
+  it('quotes commas and line breaks', () => {
+    expect(csvCell('Smith, Jane')).toBe('"Smith, Jane"');
+    expect(csvCell('a\nb')).toBe('"a\nb"');
+  });
+});
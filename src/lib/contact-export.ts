@@ -0,0 +1,127 @@
+/**
+ * Contact export formats
+ *
+ * Turns listed contacts into CSV (one row per contact, related rows summarised
+ * in one cell each), JSON Lines (one object per contact, related rows as arrays)
+ * or vCards.
+ */
+
+import { contactsToVCards } from './vcard';
+
+import type { ContactWithDetails, ContactExperience, ContactEducation } from './supabase';
+import type { ExportColumn, ExportOptions } from '@/types';
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  'name',
+  'title',
+  'company',
+  'occupation',
+  'headline',
+  'location',
+  'industry',
+  'email',
+  'phone',
+  'website',
+  'linkedin_url',
+  'connected_at',
+  'relationship_score',
+  'last_contact_date',
+  'tags',
+  'is_archived',
+  'scraped_at',
+  'created_at',
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  columns: ['name', 'title', 'company', 'location', 'email', 'linkedin_url', 'connected_at'],
+  include_archived: false,
+  company: null,
+  connected_after: null,
+  linkedin_url: null,
+  with_experiences: false,
+  with_educations: false,
+  with_skills: false,
+};
+
+/**
+ * The file for a set of contacts
+ */
+export function formatContactExport(
+  contacts: ContactWithDetails[],
+  options: ExportOptions
+): { content: string; mimeType: string; extension: string } {
+  if (options.format === 'vcard') {
+    return { content: contactsToVCards(contacts), mimeType: 'text/vcard', extension: 'vcf' };
+  }
+  if (options.format === 'jsonl') {
+    return { content: toJsonl(contacts, options), mimeType: 'application/x-ndjson', extension: 'jsonl' };
+  }
+  return { content: toCsv(contacts, options), mimeType: 'text/csv', extension: 'csv' };
+}
+
+function toCsv(contacts: ContactWithDetails[], options: ExportOptions): string {
+  const header = [...options.columns, ...relatedColumns(options)];
+  const rows = contacts.map(contact => [
+    ...options.columns.map(column => formatCell(contact[column])),
+    ...(options.with_experiences ? [(contact.experiences || []).map(describeExperience).join('; ')] : []),
+    ...(options.with_educations ? [(contact.educations || []).map(describeEducation).join('; ')] : []),
+    ...(options.with_skills ? [(contact.skills || []).map(skill => skill.skill_name).join('; ')] : []),
+  ]);
+
+  // CRLF, as spreadsheet apps expect
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function toJsonl(contacts: ContactWithDetails[], options: ExportOptions): string {
+  return contacts.map(contact => {
+    const record: Record<string, unknown> = {};
+    for (const column of options.columns) {
+      record[column] = contact[column] ?? null;
+    }
+    if (options.with_experiences) record.experiences = (contact.experiences || []).map(withoutKeys);
+    if (options.with_educations) record.educations = (contact.educations || []).map(withoutKeys);
+    if (options.with_skills) record.skills = (contact.skills || []).map(withoutKeys);
+    return JSON.stringify(record);
+  }).join('\n') + '\n';
+}
+
+function relatedColumns(options: ExportOptions): string[] {
+  return [
+    ...(options.with_experiences ? ['experiences'] : []),
+    ...(options.with_educations ? ['educations'] : []),
+    ...(options.with_skills ? ['skills'] : []),
+  ];
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+}
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i;
+
+function escapeCsv(value: string): string {
+  // A leading = + - @ tab or CR would run as a formula in a spreadsheet; plain numbers such as -5 are left as they are
+  const safe = /^[=+\-@\t\r]/.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function describeExperience(exp: ContactExperience): string {
+  const dates = [exp.start_date, exp.is_current ? 'present' : exp.end_date].filter(Boolean).join(' - ');
+  return `${exp.position_title} at ${exp.company_name}${dates ? ` (${dates})` : ''}`;
+}
+
+function describeEducation(edu: ContactEducation): string {
+  const subject = [edu.degree, edu.field_of_study].filter(Boolean).join(', ');
+  return subject ? `${edu.institution_name} (${subject})` : edu.institution_name;
+}
+
+/**
+ * Related rows without their database keys
+ */
+function withoutKeys(row: object): Record<string, unknown> {
+  const { id: _id, contact_id: _contactId, created_at: _createdAt, ...rest } = row as Record<string, unknown>;
+  return rest;
+}
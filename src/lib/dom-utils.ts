@@ -1,7 +1,4 @@
 import { TIMEOUTS } from '@/config/constants';
-import { createLogger } from './logger';
-
-const logger = createLogger('dom-utils');
 
 /**
  * DOM utility functions for scraping LinkedIn pages
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFieldMapping,
+  validateFieldMapping,
+  toConnectionSource,
+  toProfileSource,
+  DEFAULT_FIELD_MAPPING,
+  SAMPLE_CONNECTION,
+  SAMPLE_PROFILE,
+} from './field-mapping';
+import type { FieldMapping } from '@/types';
+
+describe('validateFieldMapping', () => {
+  it('accepts the default mappings', () => {
+    expect(validateFieldMapping('connection', DEFAULT_FIELD_MAPPING.connection)).toEqual([]);
+    expect(validateFieldMapping('profile', DEFAULT_FIELD_MAPPING.profile)).toEqual([]);
+  });
+
+  it('reports unknown fields, repeated targets, wrong transforms and a missing name', () => {
+    const mappings: FieldMapping[] = [
+      { target: 'title', sources: ['nope'], transform: 'none' },
+      { target: 'title', sources: ['headline'], transform: 'none' },
+      { target: 'connected_at', sources: ['headline'], transform: 'date' },
+      { target: 'location', sources: [], transform: 'none' },
+    ];
+
+    expect(validateFieldMapping('connection', mappings)).toEqual([
+      'title: unknown connection field "nope"',
+      'title is mapped more than once',
+      'connected_at: "date" can\'t be applied to headline (text)',
+      'location needs a source field or a default',
+      'name must be mapped',
+    ]);
+  });
+
+  it('does not take object prototype keys for fields', () => {
+    const errors = validateFieldMapping('connection', [{ target: 'name', sources: ['toString'], transform: 'none' }]);
+    expect(errors).toEqual(['name: unknown connection field "toString"']);
+  });
+});
+
+describe('applyFieldMapping', () => {
+  it('maps a connection with the defaults, splitting the headline', () => {
+    expect(applyFieldMapping(DEFAULT_FIELD_MAPPING.connection, toConnectionSource(SAMPLE_CONNECTION))).toEqual({
+      name: 'Jane Doe',
+      title: 'Head of Product',
+      company: 'Acme Corp',
+      occupation: 'Head of Product at Acme Corp',
+      location: 'Berlin, Germany',
+      profile_image_url: 'https://media.licdn.com/dms/image/sample/profile.jpg',
+      connected_at: '2024-03-14T09:30:00.000Z',
+      source: 'linkedin_extension',
+    });
+  });
+
+  it('maps a profile with the defaults', () => {
+    expect(applyFieldMapping(DEFAULT_FIELD_MAPPING.profile, toProfileSource(SAMPLE_PROFILE))).toMatchObject({
+      name: 'Jane Doe',
+      title: 'Head of Product',
+      company: 'Acme Corp',
+      email: 'jane@example.com',
+      phone: '+49 30 1234567',
+      website: 'https://janedoe.dev',
+    });
+  });
+
+  it('applies transforms and falls back to the default', () => {
+    const source = { first: 'Jane', last: '', email: 'Jane@Example.COM', tags: [], at: Date.UTC(2024, 2, 14) };
+    expect(applyFieldMapping([
+      { target: 'name', sources: ['first', 'last', 'missing'], transform: 'concat', separator: '-' },
+      { target: 'email', sources: ['email'], transform: 'lowercase' },
+      { target: 'website', sources: ['tags'], transform: 'first', default: 'none' },
+      { target: 'connected_at', sources: ['at'], transform: 'date', date_format: 'date' },
+    ], source)).toEqual({
+      name: 'Jane',
+      email: 'jane@example.com',
+      website: 'none',
+      connected_at: '2024-03-14',
+    });
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Field mapping
+ *
+ * Which Voyager fields fill which contact columns, for connections
+ * (ParsedConnection) and enriched profiles (FullProfileData). The mapping is
+ * stored in settings so it can be edited from the popup; DEFAULT_FIELD_MAPPING
+ * is what the extension writes out of the box.
+ */
+
+import type { ParsedConnection, FullProfileData } from './voyager-client';
+import type { FieldMapping, FieldMappingConfig, FieldTransform, MappedContactField, MappingSource, SourceFieldType } from '@/types';
+
+// Contact columns set by a mapping; columns it doesn't map are left out
+export type MappedContact = Partial<Record<MappedContactField, string | null>>;
+
+/**
+ * Fields a connection mapping can read: ParsedConnection plus the title and
+ * company split out of the headline
+ */
+export interface ConnectionSource extends ParsedConnection {
+  headlineTitle: string | null;
+  headlineCompany: string | null;
+}
+
+/**
+ * Fields a profile mapping can read: FullProfileData's own values plus a few
+ * derived from its lists
+ */
+export interface ProfileSource extends Pick<
+  FullProfileData,
+  | 'publicIdentifier'
+  | 'firstName'
+  | 'lastName'
+  | 'headline'
+  | 'summary'
+  | 'locationName'
+  | 'industryName'
+  | 'profileImageUrl'
+  | 'backgroundImageUrl'
+  | 'emailAddress'
+  | 'twitterHandles'
+  | 'languages'
+  | 'websites'
+> {
+  fullName: string;
+  currentTitle: string | null;
+  currentCompany: string | null;
+  phones: string[];
+  skillNames: string[];
+}
+
+// The SourceFieldType a TypeScript field type maps to; never if it can't be mapped
+type FieldTypeOf<T> =
+  [T] extends [string | null | undefined] ? 'text'
+  : [T] extends [string[] | undefined] ? 'list'
+  : [T] extends [number] ? 'timestamp'
+  : never;
+
+// Checked against the source interfaces, so a field can't be listed with the wrong type
+const CONNECTION_FIELDS: { [K in keyof ConnectionSource]: FieldTypeOf<ConnectionSource[K]> } = {
+  linkedinUrl: 'text',
+  publicIdentifier: 'text',
+  firstName: 'text',
+  lastName: 'text',
+  name: 'text',
+  headline: 'text',
+  headlineTitle: 'text',
+  headlineCompany: 'text',
+  profileImageUrl: 'text',
+  locationName: 'text',
+  connectedAt: 'timestamp',
+  entityUrn: 'text',
+};
+
+const PROFILE_FIELDS: { [K in keyof ProfileSource]: FieldTypeOf<ProfileSource[K]> } = {
+  publicIdentifier: 'text',
+  firstName: 'text',
+  lastName: 'text',
+  fullName: 'text',
+  headline: 'text',
+  summary: 'text',
+  locationName: 'text',
+  industryName: 'text',
+  profileImageUrl: 'text',
+  backgroundImageUrl: 'text',
+  emailAddress: 'text',
+  currentTitle: 'text',
+  currentCompany: 'text',
+  phones: 'list',
+  websites: 'list',
+  twitterHandles: 'list',
+  languages: 'list',
+  skillNames: 'list',
+};
+
+export const SOURCE_FIELDS: Record<MappingSource, Record<string, SourceFieldType>> = {
+  connection: CONNECTION_FIELDS,
+  profile: PROFILE_FIELDS,
+};
+
+// Every destination column holds text (connected_at an ISO timestamp)
+export const TARGET_FIELDS: MappedContactField[] = [
+  'name',
+  'title',
+  'company',
+  'occupation',
+  'headline',
+  'about',
+  'location',
+  'industry',
+  'email',
+  'phone',
+  'website',
+  'profile_image_url',
+  'connected_at',
+  'source',
+];
+
+// Source field types each transform accepts
+const TRANSFORM_INPUTS: Record<FieldTransform, SourceFieldType[]> = {
+  none: ['text'],
+  concat: ['text'],
+  lowercase: ['text'],
+  first: ['list'],
+  date: ['timestamp'],
+};
+
+export const DEFAULT_FIELD_MAPPING: FieldMappingConfig = {
+  connection: [
+    { target: 'name', sources: ['name'], transform: 'none' },
+    { target: 'title', sources: ['headlineTitle'], transform: 'none' },
+    { target: 'company', sources: ['headlineCompany'], transform: 'none' },
+    { target: 'occupation', sources: ['headline'], transform: 'none' },
+    { target: 'location', sources: ['locationName'], transform: 'none' },
+    { target: 'profile_image_url', sources: ['profileImageUrl'], transform: 'none' },
+    { target: 'connected_at', sources: ['connectedAt'], transform: 'date', date_format: 'iso' },
+    { target: 'source', sources: [], transform: 'none', default: 'linkedin_extension' },
+  ],
+  profile: [
+    { target: 'name', sources: ['fullName'], transform: 'none' },
+    { target: 'title', sources: ['currentTitle'], transform: 'none' },
+    { target: 'company', sources: ['currentCompany'], transform: 'none' },
+    { target: 'occupation', sources: ['headline'], transform: 'none' },
+    { target: 'headline', sources: ['headline'], transform: 'none' },
+    { target: 'about', sources: ['summary'], transform: 'none' },
+    { target: 'location', sources: ['locationName'], transform: 'none' },
+    { target: 'industry', sources: ['industryName'], transform: 'none' },
+    { target: 'email', sources: ['emailAddress'], transform: 'none' },
+    { target: 'phone', sources: ['phones'], transform: 'first' },
+    { target: 'website', sources: ['websites'], transform: 'first' },
+    { target: 'profile_image_url', sources: ['profileImageUrl'], transform: 'none' },
+  ],
+};
+
+// Used by the settings preview
+export const SAMPLE_CONNECTION: ParsedConnection = {
+  linkedinUrl: 'https://www.linkedin.com/in/jane-doe-123/',
+  publicIdentifier: 'jane-doe-123',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  name: 'Jane Doe',
+  headline: 'Head of Product at Acme Corp',
+  profileImageUrl: 'https://media.licdn.com/dms/image/sample/profile.jpg',
+  locationName: 'Berlin, Germany',
+  connectedAt: Date.UTC(2024, 2, 14, 9, 30),
+  entityUrn: 'urn:li:fsd_profile:ACoAAAsample',
+};
+
+export const SAMPLE_PROFILE: FullProfileData = {
+  publicIdentifier: 'jane-doe-123',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  headline: 'Head of Product at Acme Corp',
+  summary: 'Building tools people love.',
+  locationName: 'Berlin, Germany',
+  industryName: 'Software Development',
+  profileImageUrl: 'https://media.licdn.com/dms/image/sample/profile.jpg',
+  backgroundImageUrl: null,
+  connectionsCount: 500,
+  followersCount: 1200,
+  emailAddress: 'jane@example.com',
+  phoneNumbers: [{ number: '+49 30 1234567', type: 'WORK' }],
+  twitterHandles: ['janedoe'],
+  birthdate: null,
+  experiences: [{
+    title: 'Head of Product',
+    companyName: 'Acme Corp',
+    companyUrn: null,
+    companyLogoUrl: null,
+    locationName: 'Berlin, Germany',
+    description: null,
+    startDate: { month: 1, year: 2022 },
+    endDate: null,
+    isCurrent: true,
+  }],
+  educations: [],
+  skills: [{ name: 'Product Management', endorsementCount: 12 }],
+  certifications: [],
+  languages: ['English', 'German'],
+  websites: ['https://janedoe.dev'],
+};
+
+/**
+ * Split a headline like "Engineer at Acme" into title and company; without a
+ * separator the whole headline is the title
+ */
+function splitHeadline(headline: string | null): { title: string | null; company: string | null } {
+  if (!headline) return { title: null, company: null };
+
+  for (const sep of [' at ', ' @ ', ' | ', ' - ']) {
+    const idx = headline.indexOf(sep);
+    if (idx > 0) {
+      return { title: headline.substring(0, idx).trim(), company: headline.substring(idx + sep.length).trim() };
+    }
+  }
+  return { title: headline, company: null };
+}
+
+/**
+ * The values a connection mapping reads
+ */
+export function toConnectionSource(conn: ParsedConnection): ConnectionSource {
+  const { title, company } = splitHeadline(conn.headline);
+  return { ...conn, headlineTitle: title, headlineCompany: company };
+}
+
+/**
+ * The values a profile mapping reads
+ */
+export function toProfileSource(profile: FullProfileData): ProfileSource {
+  const currentExp = profile.experiences.find(e => e.isCurrent);
+  return {
+    publicIdentifier: profile.publicIdentifier,
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    fullName: `${profile.firstName} ${profile.lastName}`.trim(),
+    headline: profile.headline,
+    summary: profile.summary,
+    locationName: profile.locationName,
+    industryName: profile.industryName,
+    profileImageUrl: profile.profileImageUrl,
+    backgroundImageUrl: profile.backgroundImageUrl,
+    emailAddress: profile.emailAddress,
+    currentTitle: currentExp?.title || null,
+    currentCompany: currentExp?.companyName || null,
+    phones: (profile.phoneNumbers || []).map(phone => phone.number),
+    websites: profile.websites,
+    twitterHandles: profile.twitterHandles,
+    languages: profile.languages,
+    skillNames: profile.skills.map(skill => skill.name),
+  };
+}
+
+/**
+ * Problems that would make a mapping write bad data; empty if it's valid
+ */
+export function validateFieldMapping(source: MappingSource, mappings: FieldMapping[]): string[] {
+  const fields = SOURCE_FIELDS[source];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const mapping of mappings) {
+    if (!TARGET_FIELDS.includes(mapping.target)) {
+      errors.push(`Unknown destination field "${mapping.target}"`);
+      continue;
+    }
+    if (seen.has(mapping.target)) {
+      errors.push(`${mapping.target} is mapped more than once`);
+    }
+    seen.add(mapping.target);
+
+    if (mapping.sources.length === 0 && !mapping.default) {
+      errors.push(`${mapping.target} needs a source field or a default`);
+    }
+    for (const field of mapping.sources) {
+      const type = Object.prototype.hasOwnProperty.call(fields, field) ? fields[field] : undefined;
+      if (!type) {
+        errors.push(`${mapping.target}: unknown ${source} field "${field}"`);
+      } else if (!TRANSFORM_INPUTS[mapping.transform]?.includes(type)) {
+        errors.push(`${mapping.target}: "${mapping.transform}" can't be applied to ${field} (${type})`);
+      }
+    }
+  }
+
+  if (!seen.has('name')) {
+    errors.push('name must be mapped');
+  }
+  return errors;
+}
+
+/**
+ * Build the contact columns a mapping sets from a source record
+ */
+export function applyFieldMapping(mappings: FieldMapping[], source: object): MappedContact {
+  const values = source as Record<string, unknown>;
+  const contact: MappedContact = {};
+
+  for (const mapping of mappings) {
+    const inputs = mapping.sources.map(field => values[field]);
+    contact[mapping.target] = transformValues(mapping, inputs) ?? mapping.default ?? null;
+  }
+  return contact;
+}
+
+function transformValues(mapping: FieldMapping, inputs: unknown[]): string | null {
+  switch (mapping.transform) {
+    case 'concat':
+      return inputs.map(toText).filter(Boolean).join(mapping.separator ?? ' ') || null;
+    case 'lowercase':
+      return firstText(inputs)?.toLowerCase() ?? null;
+    case 'first':
+      return firstText(inputs.map(input => (Array.isArray(input) ? input[0] : input)));
+    case 'date': {
+      const timestamp = inputs.find(input => typeof input === 'number' && input > 0) as number | undefined;
+      if (timestamp === undefined) return null;
+      const iso = new Date(timestamp).toISOString();
+      return mapping.date_format === 'date' ? iso.slice(0, 10) : iso;
+    }
+    default:
+      return firstText(inputs);
+  }
+}
+
+function firstText(inputs: unknown[]): string | null {
+  for (const input of inputs) {
+    const text = toText(input);
+    if (text) return text;
+  }
+  return null;
+}
+
+function toText(input: unknown): string | null {
+  return typeof input === 'string' && input !== '' ? input : null;
+}
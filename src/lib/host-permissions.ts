@@ -0,0 +1,39 @@
+/**
+ * Host permissions for user-set endpoints
+ *
+ * The manifest only grants LinkedIn; any other origin is an optional host
+ * permission, asked for when its URL is saved. Without it, a request with
+ * custom headers needs a CORS preflight, which most receivers don't answer.
+ */
+
+/**
+ * Match pattern for a URL's host, or null when it isn't an http(s) URL
+ */
+export function originPattern(url: string): string | null {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'https:' && protocol !== 'http:') return null;
+    return `${protocol}//${hostname}/*`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask for access to a URL's host; only works while handling a user gesture,
+ * so call it before anything else is awaited
+ */
+export async function requestHostPermission(url: string): Promise<boolean> {
+  const pattern = originPattern(url);
+  if (!pattern) return false;
+  return chrome.permissions.request({ origins: [pattern] });
+}
+
+/**
+ * Whether the extension may reach a URL's host without a preflight
+ */
+export async function hasHostPermission(url: string): Promise<boolean> {
+  const pattern = originPattern(url);
+  if (!pattern) return false;
+  return chrome.permissions.contains({ origins: [pattern] });
+}
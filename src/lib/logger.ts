@@ -15,7 +15,6 @@ class Logger {
   private formatMessage(level: LogLevel, message: string, ...args: unknown[]): void {
     if (!this.enabled && level === 'debug') return;
 
-    const timestamp = new Date().toISOString();
     const prefix = `${LOG_PREFIX} [${this.context}] [${level.toUpperCase()}]`;
 
     switch (level) {
@@ -55,7 +54,7 @@ class Logger {
     }
   }
 
-  private reportError(message: string, args: unknown[]): void {
+  private reportError(_message: string, _args: unknown[]): void {
     // TODO: Implement Sentry or other error tracking
     // Sentry.captureMessage(message, { extra: { args, context: this.context } });
   }
@@ -0,0 +1,117 @@
+import { OUTBOX } from '@/config/constants';
+import type { OutboxEntry } from '@/types';
+
+const STORE = 'writes';
+
+/**
+ * Durable queue of CRM writes (IndexedDB) that couldn't reach the backend
+ * Entries keep their insertion order so they replay in the order they were made
+ */
+class Outbox {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Append a write
+   */
+  async add(entry: OutboxEntry): Promise<void> {
+    await this.request('readwrite', store => store.add(entry));
+  }
+
+  /**
+   * The oldest pending write `userId` may replay
+   */
+  async peek(userId: string | null): Promise<OutboxEntry | null> {
+    let oldest: OutboxEntry | null = null;
+    await this.scan(userId, entry => {
+      oldest = entry;
+      return false;
+    });
+    return oldest;
+  }
+
+  /**
+   * Number of pending writes `userId` may replay
+   */
+  async count(userId: string | null): Promise<number> {
+    let count = 0;
+    await this.scan(userId, () => {
+      count++;
+      return true;
+    });
+    return count;
+  }
+
+  /**
+   * Number of pending writes, whoever they belong to
+   */
+  async countAll(): Promise<number> {
+    return this.request('readonly', store => store.count());
+  }
+
+  /**
+   * Save a pending write's retry state
+   */
+  async update(entry: OutboxEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry));
+  }
+
+  /**
+   * Drop a write once it has been replayed (or given up on)
+   */
+  async remove(id: number): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  /**
+   * Visit the writes `userId` may replay, oldest first, until `visit` returns false.
+   * That's their own and those queued while nobody was signed in; other users'
+   * writes are held until they sign in again
+   */
+  private async scan(userId: string | null, visit: (entry: OutboxEntry) => boolean): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE, 'readonly');
+      const request = transaction.objectStore(STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const entry = cursor.value as OutboxEntry;
+        const replayable = !entry.user_id || entry.user_id === userId;
+        if (!replayable || visit(entry)) cursor.continue();
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(OUTBOX.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      // Resolve once committed, so a write survives the worker stopping right after
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+// Export singleton instance
+export const outbox = new Outbox();
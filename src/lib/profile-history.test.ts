@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { toProfileSnapshot, hashProfileSnapshot, detectCareerChange, diffProfileSnapshots, type ProfileSnapshotSource } from './profile-history';
+
+const source: ProfileSnapshotSource = {
+  name: 'Ada Lovelace',
+  headline: 'Engineer at Analytical Engines',
+  title: 'Engineer',
+  company: 'Analytical Engines',
+  location: 'London',
+  about: null,
+  experiences: [
+    { position_title: 'Engineer', institution_name: 'Analytical Engines', location: null, from_date: '2024-01', to_date: null },
+  ],
+  educations: [{ institution_name: 'University of London', degree: null, field_of_study: 'Mathematics' }],
+  skills: ['Mathematics', 'Computing'],
+};
+
+describe('toProfileSnapshot and hashProfileSnapshot', () => {
+  it('hashes the same for skills in another order', () => {
+    const reordered = toProfileSnapshot({ ...source, skills: ['Computing', 'Mathematics', 'Computing'] });
+    expect(hashProfileSnapshot(reordered)).toBe(hashProfileSnapshot(toProfileSnapshot(source)));
+  });
+
+  it('hashes differently once a tracked field changes', () => {
+    const moved = toProfileSnapshot({ ...source, location: 'Paris' });
+    expect(hashProfileSnapshot(moved)).not.toBe(hashProfileSnapshot(toProfileSnapshot(source)));
+  });
+});
+
+describe('detectCareerChange', () => {
+  it('is a job change when the company changes', () => {
+    expect(detectCareerChange({ title: 'Engineer', company: 'Acme' }, { title: 'Engineer', company: 'Globex' })).toBe('job_change');
+  });
+
+  it('is a promotion when only the title changes', () => {
+    expect(detectCareerChange({ title: 'Engineer', company: 'Acme' }, { title: 'Lead Engineer', company: 'acme ' })).toBe('promotion');
+  });
+
+  it('is nothing when the position was unknown before or is unknown now', () => {
+    expect(detectCareerChange({ title: null, company: null }, { title: 'Engineer', company: 'Acme' })).toBeNull();
+    expect(detectCareerChange({ title: 'Engineer', company: 'Acme' }, { title: null, company: null })).toBeNull();
+  });
+});
+
+describe('diffProfileSnapshots', () => {
+  it('lists field, position, education and skill changes', () => {
+    const before = toProfileSnapshot(source);
+    const after = toProfileSnapshot({
+      ...source,
+      title: 'Lead Engineer',
+      experiences: [
+        { ...source.experiences[0], to_date: '2026-09' },
+        { position_title: 'Lead Engineer', institution_name: 'Difference Engines', location: null, from_date: '2026-10', to_date: null },
+      ],
+      educations: [...source.educations, { institution_name: 'Royal Society', degree: 'Fellowship', field_of_study: null }],
+      skills: ['Mathematics', 'Poetry'],
+    });
+
+    expect(diffProfileSnapshots(before, after)).toEqual([
+      { type: 'title_changed', from: 'Engineer', to: 'Lead Engineer' },
+      { type: 'position_ended', from: 'Engineer at Analytical Engines', to: '2026-09' },
+      { type: 'new_position', from: null, to: 'Lead Engineer at Difference Engines' },
+      { type: 'new_education', from: null, to: 'Fellowship, Royal Society' },
+      { type: 'skills_added', from: null, to: null, items: ['Poetry'] },
+      { type: 'skills_removed', from: null, to: null, items: ['Computing'] },
+    ]);
+  });
+
+  it('finds nothing between equal snapshots', () => {
+    expect(diffProfileSnapshots(toProfileSnapshot(source), toProfileSnapshot(source))).toEqual([]);
+  });
+});
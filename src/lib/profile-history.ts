@@ -0,0 +1,147 @@
+/**
+ * Profile change history
+ *
+ * Enriched profiles are reduced to a ProfileSnapshot, hashed to detect
+ * changes, and compared field by field so profile_snapshots can record what
+ * changed between two enrichments (new position, company change, new skills...).
+ */
+
+import type { CareerEventType, ProfileChange, ProfileSnapshot } from '@/types';
+
+// What both enrichment paths can provide: a scraped LinkedInProfile or a Voyager enriched contact
+export interface ProfileSnapshotSource {
+  name: string;
+  headline?: string | null; // Left out when the field mapping doesn't set it
+  title?: string | null;
+  company?: string | null;
+  location?: string | null;
+  about?: string | null;
+  experiences: Array<{
+    position_title: string;
+    institution_name: string;
+    location: string | null;
+    from_date: string | null;
+    to_date: string | null;
+  }>;
+  educations: Array<{
+    institution_name: string;
+    degree: string | null;
+    field_of_study: string | null;
+  }>;
+  skills: string[];
+}
+
+/**
+ * Reduce a profile to the fields whose changes we track
+ */
+export function toProfileSnapshot(source: ProfileSnapshotSource): ProfileSnapshot {
+  return {
+    name: source.name,
+    headline: source.headline || null,
+    title: source.title || null,
+    company: source.company || null,
+    location: source.location || null,
+    about: source.about || null,
+    experiences: source.experiences.map(exp => ({
+      title: exp.position_title,
+      company: exp.institution_name,
+      location: exp.location || null,
+      start_date: exp.from_date || null,
+      end_date: exp.to_date || null,
+    })),
+    educations: source.educations.map(edu => ({
+      school: edu.institution_name,
+      degree: edu.degree || null,
+      field_of_study: edu.field_of_study || null,
+    })),
+    // Order follows endorsements, which shift without the skills changing
+    skills: [...new Set(source.skills)].sort(),
+  };
+}
+
+/**
+ * Hash a snapshot for change detection (djb2)
+ */
+export function hashProfileSnapshot(snapshot: ProfileSnapshot): string {
+  const data = JSON.stringify(snapshot);
+
+  let hash = 5381;
+  for (let i = 0; i < data.length; i++) {
+    hash = ((hash << 5) + hash) + data.charCodeAt(i);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Classify a change of current position: a new company is a job change, a new
+ * title at the same company a promotion. Losing the title or company, or not
+ * knowing it before, is not an event
+ */
+export function detectCareerChange(
+  before: { title?: string | null; company?: string | null },
+  after: { title?: string | null; company?: string | null }
+): CareerEventType | null {
+  const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+  const [fromTitle, fromCompany] = [normalize(before.title), normalize(before.company)];
+  const [toTitle, toCompany] = [normalize(after.title), normalize(after.company)];
+
+  if ((!fromTitle && !fromCompany) || (!toTitle && !toCompany)) return null;
+  if (toCompany && fromCompany && toCompany !== fromCompany) return 'job_change';
+  if (toTitle && fromTitle && toTitle !== fromTitle) return 'promotion';
+  return null;
+}
+
+/**
+ * Field-level differences from one snapshot of a profile to the next
+ */
+export function diffProfileSnapshots(before: ProfileSnapshot, after: ProfileSnapshot): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+
+  const scalar = (type: ProfileChange['type'], from: string | null, to: string | null) => {
+    if ((from || null) !== (to || null)) {
+      changes.push({ type, from: from || null, to: to || null });
+    }
+  };
+  scalar('name_changed', before.name, after.name);
+  scalar('title_changed', before.title, after.title);
+  scalar('company_changed', before.company, after.company);
+  scalar('headline_changed', before.headline, after.headline);
+  scalar('location_changed', before.location, after.location);
+  scalar('about_changed', before.about, after.about);
+
+  // Positions are matched on title, company and start date
+  const positionKey = (exp: ProfileSnapshot['experiences'][number]) =>
+    `${exp.title}|${exp.company}|${exp.start_date ?? ''}`.toLowerCase();
+  const describe = (exp: ProfileSnapshot['experiences'][number]) =>
+    exp.company ? `${exp.title} at ${exp.company}` : exp.title;
+  const previous = new Map(before.experiences.map(exp => [positionKey(exp), exp]));
+
+  for (const exp of after.experiences) {
+    const old = previous.get(positionKey(exp));
+    if (!old) {
+      changes.push({ type: 'new_position', from: null, to: describe(exp) });
+    } else if (!old.end_date && exp.end_date) {
+      changes.push({ type: 'position_ended', from: describe(exp), to: exp.end_date });
+    }
+  }
+
+  const schools = new Set(before.educations.map(edu => `${edu.school}|${edu.degree ?? ''}`.toLowerCase()));
+  for (const edu of after.educations) {
+    if (!schools.has(`${edu.school}|${edu.degree ?? ''}`.toLowerCase())) {
+      changes.push({ type: 'new_education', from: null, to: edu.degree ? `${edu.degree}, ${edu.school}` : edu.school });
+    }
+  }
+
+  const oldSkills = new Set(before.skills);
+  const newSkills = new Set(after.skills);
+  const added = after.skills.filter(skill => !oldSkills.has(skill));
+  const removed = before.skills.filter(skill => !newSkills.has(skill));
+  if (added.length > 0) {
+    changes.push({ type: 'skills_added', from: null, to: null, items: added });
+  }
+  if (removed.length > 0) {
+    changes.push({ type: 'skills_removed', from: null, to: null, items: removed });
+  }
+
+  return changes;
+}
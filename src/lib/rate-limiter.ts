@@ -22,7 +22,7 @@ export class RateLimiter {
   private type: RateLimitType;
   private config: (typeof RATE_LIMITS)[RateLimitType];
   private state: RateLimitState;
-  private stateLoaded: boolean = false;
+  private stateKey: string | null = null; // Key the state was loaded from, per LinkedIn account
 
   constructor(type: RateLimitType = 'bulk') {
     this.type = type;
@@ -37,24 +37,24 @@ export class RateLimiter {
   }
 
   /**
-   * Load state from storage
+   * Load state from storage, again whenever the active LinkedIn account changes
    */
   private async loadState(): Promise<void> {
-    if (this.stateLoaded) return;
+    const key = await storage.accountKey(`rate_limit_${this.type}`);
+    if (this.stateKey === key) return;
 
-    const saved = await storage.get<RateLimitState>(`rate_limit_${this.type}`);
-    if (saved) {
-      this.state = saved;
-      this.checkResets();
-    }
-    this.stateLoaded = true;
+    const saved = await storage.get<RateLimitState>(key);
+    const now = Date.now();
+    this.state = saved ?? { hourlyCount: 0, dailyCount: 0, hourStart: now, dayStart: now, lastAction: 0 };
+    this.checkResets();
+    this.stateKey = key;
   }
 
   /**
    * Save state to storage
    */
   private async saveState(): Promise<void> {
-    await storage.set(`rate_limit_${this.type}`, this.state);
+    await storage.set(await storage.accountKey(`rate_limit_${this.type}`), this.state);
   }
 
   /**
@@ -0,0 +1,282 @@
+import type { ContactWithDetails, EnrichmentQueueUpdate, FollowUp, Interaction, ScrapeQueueEntry, SyncHistoryEntry } from '../supabase';
+import { storage } from '../storage';
+import { createLogger } from '../logger';
+import { hashProfileSnapshot } from '../profile-history';
+import { TIMEOUTS } from '@/config/constants';
+import { isUnavailableStatus, type CrmSink } from './sink';
+import type { LinkedInContact, ContactListQuery, ImportBatchResult, ArchiveRemovedResult, ContactExistsResponse, ProfileWrite, ProfileSnapshot, ProfileSaveResult, ProfileTableOutcome, EnrichmentQueueSummary, RefreshCandidate } from '@/types';
+
+const logger = createLogger('rest-sink');
+
+interface RestResponse<T> {
+  data: T | null;
+  error: string | null;
+  status: number; // 0 if the request never got a response
+}
+
+/**
+ * Writes to our own backend at settings.api_url, so the extension needs no
+ * database credentials. The JSON contract is documented in the README
+ * ("REST CRM sink"); requests carry the signed-in user's token
+ */
+class RestSink implements CrmSink {
+  async importContactsBatch(contacts: LinkedInContact[]): Promise<ImportBatchResult> {
+    const { data, error, status } = await this.request<ImportBatchResult>('POST', '/contacts/batch', { contacts });
+
+    if (error || !data) {
+      logger.error(`Import of ${contacts.length} contacts failed:`, error);
+      return {
+        new_count: 0,
+        updated_count: 0,
+        unchanged_count: 0,
+        skipped_count: contacts.length,
+        contacts: [],
+        error: error || 'Empty response',
+        unavailable: isUnavailableStatus(status),
+      };
+    }
+
+    return data;
+  }
+
+  async archiveRemovedConnections(currentUrls: string[], account: string | null): Promise<ArchiveRemovedResult> {
+    return this.require(await this.request<ArchiveRemovedResult>(
+      'POST', '/contacts/archive-removed', { linkedin_urls: currentUrls, linkedin_account: account }
+    ));
+  }
+
+  async findContact(linkedinUrl: string): Promise<ContactExistsResponse> {
+    return this.require(await this.request<ContactExistsResponse>(
+      'GET', `/contacts/lookup?linkedin_url=${encodeURIComponent(linkedinUrl)}`
+    ));
+  }
+
+  async listContacts(query: ContactListQuery, offset: number, limit: number): Promise<ContactWithDetails[]> {
+    const params = new URLSearchParams({
+      offset: String(offset),
+      limit: String(limit),
+      include_archived: String(query.include_archived),
+    });
+    if (query.company) params.set('company', query.company);
+    if (query.connected_after) params.set('connected_after', query.connected_after);
+    if (query.linkedin_url) params.set('linkedin_url', query.linkedin_url);
+    const related = [
+      query.with_experiences && 'experiences',
+      query.with_educations && 'educations',
+      query.with_skills && 'skills',
+    ].filter(Boolean);
+    if (related.length > 0) params.set('with', related.join(','));
+
+    return this.require(await this.request<ContactWithDetails[]>('GET', `/contacts?${params}`));
+  }
+
+  async countContacts(): Promise<number> {
+    const { data, error } = await this.request<{ count: number }>('GET', '/contacts/count');
+    if (error) {
+      logger.error('Failed to get contact count', error);
+    }
+    return data?.count || 0;
+  }
+
+  async getContactUrls(ids: string[]): Promise<Array<{ id: string; linkedin_url: string }>> {
+    return this.require(await this.request<Array<{ id: string; linkedin_url: string }>>('POST', '/contacts/urls', { ids }));
+  }
+
+  async getRefreshCandidates(scrapedBefore: string, limit: number, interactionsSince: string): Promise<RefreshCandidate[]> {
+    const params = new URLSearchParams({
+      scraped_before: scrapedBefore,
+      limit: String(limit),
+      interactions_since: interactionsSince,
+    });
+    return this.require(await this.request<RefreshCandidate[]>('GET', `/contacts/refresh-candidates?${params}`));
+  }
+
+  /**
+   * The backend decides whether the profile changed, using data_hash or its own history
+   */
+  async saveProfile(write: ProfileWrite, snapshot: ProfileSnapshot): Promise<ProfileSaveResult> {
+    const dataHash = hashProfileSnapshot(snapshot);
+    const { data, error, status } = await this.request<ProfileSaveResult>('POST', '/profiles', {
+      write: { ...write, contact: { ...write.contact, data_hash: dataHash } },
+      snapshot,
+    });
+
+    if (error || !data) {
+      logger.error(`Failed to save profile ${write.contact.linkedin_url}`, error);
+      const failed: ProfileTableOutcome = { status: 'failed', rows: 0 };
+      return {
+        success: false,
+        contact_id: write.contact_id,
+        tables: { contacts: failed, experiences: failed, educations: failed, skills: failed, linkedin_profiles: failed },
+        error: error || 'Empty response',
+        unavailable: isUnavailableStatus(status),
+        unchanged: false,
+        changes: [],
+        career_event: null,
+      };
+    }
+
+    // Backends without change history can leave these out
+    return { ...data, changes: data.changes || [], career_event: data.career_event || null };
+  }
+
+  async startSyncRun(
+    syncType: SyncHistoryEntry['sync_type'],
+    totalFound?: number
+  ): Promise<string | null> {
+    const { data, error } = await this.request<{ id: string }>('POST', '/sync-runs', {
+      sync_type: syncType,
+      status: 'in_progress',
+      total_found: totalFound,
+      metadata: { source: 'linkedin_extension' },
+    });
+
+    if (error) {
+      logger.error('Failed to create sync history entry', error);
+    }
+    return data?.id || null;
+  }
+
+  async updateSyncRun(id: string, updates: Partial<SyncHistoryEntry>): Promise<void> {
+    const { error } = await this.request('PATCH', `/sync-runs/${encodeURIComponent(id)}`, updates);
+    if (error) {
+      logger.error(`Failed to update sync history entry ${id}`, error);
+    }
+  }
+
+  async recordSyncRun(entry: SyncHistoryEntry): Promise<void> {
+    const { error } = await this.request('POST', '/sync-runs', entry);
+    if (error) {
+      logger.error('Failed to record sync history entry', error);
+    }
+  }
+
+  async getSyncHistory(limit: number): Promise<SyncHistoryEntry[]> {
+    return this.require(await this.request<SyncHistoryEntry[]>('GET', `/sync-runs?limit=${limit}`));
+  }
+
+  async recordInteraction(interaction: Interaction): Promise<Interaction> {
+    return this.require(await this.request<Interaction>('POST', '/interactions', interaction));
+  }
+
+  async createFollowUps(followUps: FollowUp[]): Promise<FollowUp[]> {
+    if (followUps.length === 0) return [];
+    return this.require(await this.request<FollowUp[]>('POST', '/follow-ups', { follow_ups: followUps }));
+  }
+
+  async enqueueEnrichment(entries: Array<{ contact_id: string; linkedin_url: string }>): Promise<void> {
+    if (entries.length === 0) return;
+    const { error } = await this.request('POST', '/enrichment-queue', { entries });
+    if (error) {
+      logger.error(`Failed to queue ${entries.length} contacts for enrichment`, error);
+    }
+  }
+
+  async claimEnrichment(limit: number, leaseUntil: string): Promise<ScrapeQueueEntry[]> {
+    return this.require(await this.request<ScrapeQueueEntry[]>(
+      'POST', '/enrichment-queue/claim', { limit, lease_until: leaseUntil }
+    ));
+  }
+
+  async updateEnrichment(id: string, updates: EnrichmentQueueUpdate): Promise<void> {
+    const { error } = await this.request('PATCH', `/enrichment-queue/${encodeURIComponent(id)}`, updates);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  async completeEnrichmentFor(linkedinUrl: string): Promise<void> {
+    const { error } = await this.request('POST', '/enrichment-queue/complete', { linkedin_url: linkedinUrl });
+    if (error) {
+      logger.error(`Failed to complete enrichment queue entry for ${linkedinUrl}`, error);
+    }
+  }
+
+  async parkEnrichment(entry: { contact_id: string; linkedin_url: string }, reason: string): Promise<void> {
+    const { error } = await this.request('POST', '/enrichment-queue/park', { ...entry, reason });
+    if (error) {
+      logger.error(`Failed to park ${entry.linkedin_url}`, error);
+    }
+  }
+
+  async releaseEnrichment(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await this.request('POST', '/enrichment-queue/release', { ids });
+    if (error) {
+      logger.error(`Failed to release ${ids.length} enrichment queue entries`, error);
+    }
+  }
+
+  async getEnrichmentQueueSummary(): Promise<EnrichmentQueueSummary> {
+    const { data, error } = await this.request<EnrichmentQueueSummary>('GET', '/enrichment-queue/summary');
+    if (error || !data) {
+      logger.error('Failed to load the enrichment queue summary', error);
+      return { counts: { pending: 0, in_progress: 0, done: 0, failed: 0, gone: 0 }, parked: [] };
+    }
+    return data;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    const { error } = await this.request('GET', '/health');
+    return !error;
+  }
+
+  /**
+   * Send a JSON request; failures are returned, never thrown
+   */
+  private async request<T>(method: string, path: string, body?: unknown): Promise<RestResponse<T>> {
+    const [settings, auth] = await Promise.all([storage.getSettings(), storage.getAuth()]);
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (auth.token) {
+      headers.Authorization = `Bearer ${auth.token}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TIMEOUTS.apiRequest);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(`${settings.api_url.replace(/\/+$/, '')}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `Timed out after ${TIMEOUTS.apiRequest / 1000}s`
+        : error instanceof Error ? error.message : String(error);
+      return { data: null, error: message, status: 0 };
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    let json: unknown = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      return { data: null, error: `Invalid JSON from ${path} (HTTP ${response.status})`, status: response.status };
+    }
+
+    if (!response.ok) {
+      const message = (json as { error?: string } | null)?.error;
+      return { data: null, error: message || `HTTP ${response.status}`, status: response.status };
+    }
+    return { data: json as T, error: null, status: response.status };
+  }
+
+  private require<T>({ data, error }: RestResponse<T>): T {
+    if (error || data === null) {
+      throw new Error(error || 'Empty response');
+    }
+    return data;
+  }
+}
+
+// Export singleton instance
+export const restSink = new RestSink();
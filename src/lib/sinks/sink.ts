@@ -0,0 +1,124 @@
+import type { ContactWithDetails, EnrichmentQueueUpdate, FollowUp, Interaction, ScrapeQueueEntry, SyncHistoryEntry } from '../supabase';
+import type { LinkedInContact, ContactListQuery, ImportBatchResult, ArchiveRemovedResult, ContactExistsResponse, ProfileWrite, ProfileSnapshot, ProfileSaveResult, EnrichmentQueueSummary, RefreshCandidate } from '@/types';
+
+/**
+ * Where CRM data is written: contacts, enriched profiles, sync history,
+ * interactions, follow-ups and the enrichment queue. Selected by
+ * ExtensionSettings.crm_sink and used through apiClient
+ */
+export interface CrmSink {
+  /**
+   * Write one batch of contacts, classifying each as created, updated or unchanged.
+   * Errors are returned rather than thrown; `unavailable` means nothing was written
+   */
+  importContactsBatch(contacts: LinkedInContact[]): Promise<ImportBatchResult>;
+
+  /**
+   * Archive synced connections missing from a LinkedIn account's complete
+   * connections list; null for contacts not tied to an account
+   */
+  archiveRemovedConnections(currentUrls: string[], account: string | null): Promise<ArchiveRemovedResult>;
+
+  /**
+   * Look up a contact by LinkedIn URL
+   */
+  findContact(linkedinUrl: string): Promise<ContactExistsResponse>;
+
+  /**
+   * One page of contacts matching a query, ordered by name
+   */
+  listContacts(query: ContactListQuery, offset: number, limit: number): Promise<ContactWithDetails[]>;
+
+  /**
+   * Total number of contacts, 0 if it can't be counted
+   */
+  countContacts(): Promise<number>;
+
+  /**
+   * The profile URLs of these contacts, for a profile refresh
+   */
+  getContactUrls(ids: string[]): Promise<Array<{ id: string; linkedin_url: string }>>;
+
+  /**
+   * Enriched, active contacts last scraped before the given time, oldest first,
+   * leaving out parked ones. last_interaction_at counts interactions logged since `interactionsSince`
+   */
+  getRefreshCandidates(scrapedBefore: string, limit: number, interactionsSince: string): Promise<RefreshCandidate[]>;
+
+  /**
+   * Save an enriched profile unless its snapshot matches the last one saved
+   */
+  saveProfile(write: ProfileWrite, snapshot: ProfileSnapshot): Promise<ProfileSaveResult>;
+
+  /**
+   * Open a sync_history entry; null if it couldn't be created
+   */
+  startSyncRun(syncType: SyncHistoryEntry['sync_type'], totalFound?: number): Promise<string | null>;
+
+  updateSyncRun(id: string, updates: Partial<SyncHistoryEntry>): Promise<void>;
+
+  recordSyncRun(entry: SyncHistoryEntry): Promise<void>;
+
+  /**
+   * Most recent sync_history entries, newest first
+   */
+  getSyncHistory(limit: number): Promise<SyncHistoryEntry[]>;
+
+  recordInteraction(interaction: Interaction): Promise<Interaction>;
+
+  /**
+   * Create follow-ups, skipping any whose source and source_id already exist;
+   * returns the ones created
+   */
+  createFollowUps(followUps: FollowUp[]): Promise<FollowUp[]>;
+
+  /**
+   * Queue contacts for a full profile fetch; contacts already queued are left alone.
+   * Errors are logged, not thrown, as for the other queue writes below
+   */
+  enqueueEnrichment(entries: Array<{ contact_id: string; linkedin_url: string }>): Promise<void>;
+
+  /**
+   * Lease up to `limit` due entries (pending, failed or with an expired lease)
+   * until `leaseUntil`, oldest due first
+   */
+  claimEnrichment(limit: number, leaseUntil: string): Promise<ScrapeQueueEntry[]>;
+
+  /**
+   * Throws if the entry couldn't be updated
+   */
+  updateEnrichment(id: string, updates: EnrichmentQueueUpdate): Promise<void>;
+
+  /**
+   * Mark the entry for a profile enriched outside an enrichment run done
+   */
+  completeEnrichmentFor(linkedinUrl: string): Promise<void>;
+
+  /**
+   * Park a contact as unavailable, queued or not
+   */
+  parkEnrichment(entry: { contact_id: string; linkedin_url: string }, reason: string): Promise<void>;
+
+  /**
+   * Make leased entries due again without counting an attempt
+   */
+  releaseEnrichment(ids: string[]): Promise<void>;
+
+  /**
+   * Entry counts by status and the most recently parked entries
+   */
+  getEnrichmentQueueSummary(): Promise<EnrichmentQueueSummary>;
+
+  /**
+   * Whether the backend can be reached
+   */
+  healthCheck(): Promise<boolean>;
+}
+
+/**
+ * Whether a response status means the backend couldn't be reached (network
+ * failure or gateway error) rather than that it rejected the request
+ */
+export function isUnavailableStatus(status: number): boolean {
+  return status === 0 || status >= 502;
+}
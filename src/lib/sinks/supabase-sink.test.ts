@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { toContactUpdate, toDbContact } from './supabase-sink';
+import type { Contact } from '../supabase';
+import type { LinkedInContact } from '@/types';
+
+const incoming: LinkedInContact = {
+  name: 'Ada Lovelace',
+  title: 'Engineer',
+  company: 'Analytical Engines',
+  occupation: 'Engineer at Analytical Engines',
+  linkedin_url: 'https://www.linkedin.com/in/ada',
+  profile_image_url: null,
+  connected_at: '2026-10-01T00:00:00.000Z',
+  scraped_at: '2026-10-19T00:00:00.000Z',
+  source: 'linkedin_extension',
+};
+
+const stored: Contact = {
+  id: 'contact-1',
+  name: 'Ada Lovelace',
+  title: 'Mathematician',
+  company: null,
+  linkedin_url: 'https://www.linkedin.com/in/ada',
+  is_archived: false,
+  disconnected_at: null,
+};
+
+describe('toContactUpdate', () => {
+  it('gives every row the same columns, so a batch upsert nulls nothing', () => {
+    const rows = [
+      toContactUpdate(stored, toDbContact(incoming), 'user-1', []),
+      toContactUpdate({ ...stored, is_archived: true, disconnected_at: '2026-10-10T00:00:00Z' }, toDbContact(incoming), 'user-1', []),
+      toContactUpdate({ ...stored, is_archived: true }, toDbContact(incoming), 'user-1', ['urn:li:member:1']),
+    ];
+
+    const columns = Object.keys(rows[0]).sort();
+    for (const row of rows) {
+      expect(Object.keys(row).sort()).toEqual(columns);
+    }
+  });
+
+  it('un-archives a contact archived as removed that is connected again', () => {
+    const row = toContactUpdate(
+      { ...stored, is_archived: true, disconnected_at: '2026-10-10T00:00:00Z' },
+      toDbContact(incoming),
+      'user-1',
+      []
+    );
+    expect(row.is_archived).toBe(false);
+    expect(row.disconnected_at).toBeNull();
+  });
+
+  it('keeps a contact archived by hand archived', () => {
+    const row = toContactUpdate({ ...stored, is_archived: true }, toDbContact(incoming), 'user-1', []);
+    expect(row.is_archived).toBe(true);
+  });
+
+  it('writes the synced fields, owner and accounts, and leaves enrichment state out', () => {
+    const row = toContactUpdate(stored, toDbContact(incoming), 'user-1', ['urn:li:member:1']);
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      title: 'Engineer',
+      company: 'Analytical Engines',
+      linkedin_accounts: ['urn:li:member:1'],
+    });
+    expect(row).not.toHaveProperty('needs_enrichment');
+    expect(row).not.toHaveProperty('source');
+  });
+
+  it('fills an empty stored email and keeps a stored one', () => {
+    const withEmail = toDbContact({ ...incoming, email: 'ada@example.com' });
+    expect(toContactUpdate(stored, withEmail, 'user-1', []).email).toBe('ada@example.com');
+    expect(toContactUpdate({ ...stored, email: 'ada@engines.com' }, withEmail, 'user-1', []).email).toBe('ada@engines.com');
+    expect(toContactUpdate({ ...stored, email: 'ada@engines.com' }, toDbContact(incoming), 'user-1', []).email).toBe('ada@engines.com');
+  });
+});
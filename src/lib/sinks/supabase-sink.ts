@@ -0,0 +1,1019 @@
+import { getSupabase, getUserId, requireUserId, NOT_SIGNED_IN, type Contact, type ContactWithDetails, type EnrichmentQueueUpdate, type FollowUp, type Interaction, type ScrapeQueueEntry, type ScrapeQueueStatus, type SyncHistoryEntry } from '../supabase';
+import { createLogger } from '../logger';
+import { hashProfileSnapshot, diffProfileSnapshots, detectCareerChange } from '../profile-history';
+import { MAX_BATCH_SIZE, RECONCILE } from '@/config/constants';
+import { isUnavailableStatus, type CrmSink } from './sink';
+import type { LinkedInContact, ContactListQuery, ImportBatchResult, ArchiveRemovedResult, ProfileWrite, ProfileWriteResult, ProfileSaveResult, ProfileSnapshot, ProfileTableOutcome, CareerEvent, ContactImportResult, ContactExistsResponse, EnrichmentQueueSummary, RefreshCandidate } from '@/types';
+
+const logger = createLogger('supabase-sink');
+
+// Optional LinkedInContact columns, present when the field mapping sets them
+const MAPPED_EXTRA_FIELDS = ['location', 'headline', 'about', 'industry', 'email', 'phone', 'website'] as const;
+
+/**
+ * Convert scraped LinkedIn contact to database format
+ */
+export function toDbContact(contact: LinkedInContact): Omit<Contact, 'id' | 'created_at' | 'updated_at'> {
+  const extras: Partial<Contact> = {};
+  for (const field of MAPPED_EXTRA_FIELDS) {
+    if (contact[field] !== undefined) extras[field] = contact[field];
+  }
+
+  return {
+    ...extras,
+    name: contact.name,
+    title: contact.title || null,
+    company: contact.company || null,
+    occupation: contact.occupation || null,
+    linkedin_url: contact.linkedin_url,
+    profile_image_url: contact.profile_image_url || null,
+    connected_at: contact.connected_at || null,
+    source: contact.source || 'linkedin_extension',
+    linkedin_accounts: contact.linkedin_account ? [contact.linkedin_account] : [],
+    needs_enrichment: true,
+    scraped_at: new Date().toISOString(),
+  };
+}
+
+// Contact columns written by a connections sync, compared to detect updates
+const SYNCED_CONTACT_FIELDS = [
+  'name',
+  'title',
+  'company',
+  'occupation',
+  'profile_image_url',
+  'connected_at',
+] as const;
+
+/**
+ * List the synced fields whose incoming value differs from the stored row
+ */
+function getChangedFields(
+  stored: Contact,
+  incoming: ReturnType<typeof toDbContact>
+): string[] {
+  return SYNCED_CONTACT_FIELDS.filter(field => {
+    const before = stored[field] ?? null;
+    const after = incoming[field] ?? null;
+    if (before === after) return false;
+    if (before === null || after === null) return true;
+
+    if (field === 'connected_at') {
+      // Postgres returns timestamps in a different ISO format than we send
+      return Date.parse(before) !== Date.parse(after);
+    }
+    if (field === 'profile_image_url') {
+      // Image URLs carry an expiring signature in the query string
+      return before.split('?')[0] !== after.split('?')[0];
+    }
+    return true;
+  });
+}
+
+/**
+ * The update row for a stored contact: only the synced fields, plus an email
+ * where the stored one is empty, so enrichment state and other columns stay as
+ * they are. Every row has the same columns, as a batch upsert sets columns
+ * missing from a row to null
+ */
+export function toContactUpdate(
+  stored: Contact,
+  incoming: ReturnType<typeof toDbContact>,
+  userId: string,
+  accounts: string[]
+): Partial<Contact> {
+  const changes: Partial<Contact> = { user_id: userId, linkedin_url: incoming.linkedin_url, name: incoming.name, linkedin_accounts: accounts };
+  for (const field of SYNCED_CONTACT_FIELDS) {
+    (changes as Record<string, unknown>)[field] = incoming[field];
+  }
+  changes.email = stored.email || incoming.email || null;
+  // Archived as removed by an earlier full sync, but connected again; archived by hand stays archived
+  changes.is_archived = stored.disconnected_at ? false : stored.is_archived ?? false;
+  changes.disconnected_at = null;
+  return { ...changes, scraped_at: incoming.scraped_at, updated_at: new Date().toISOString() };
+}
+
+/**
+ * Whether stored snapshot_data has the current ProfileSnapshot shape; rows
+ * written before change tracking can't be diffed
+ */
+function isProfileSnapshot(data: unknown): data is ProfileSnapshot {
+  const snapshot = data as Partial<ProfileSnapshot> | null;
+  return !!snapshot && 'title' in snapshot && 'headline' in snapshot &&
+    Array.isArray(snapshot.experiences) && Array.isArray(snapshot.skills);
+}
+
+/**
+ * Writes straight to the Supabase tables with the extension's own credentials
+ */
+class SupabaseSink implements CrmSink {
+  /**
+   * Write one batch of contacts, classifying each as created, updated or unchanged
+   * against the stored row. Errors are returned rather than thrown so a failed
+   * batch doesn't abort the rest of the run
+   */
+  async importContactsBatch(contacts: LinkedInContact[]): Promise<ImportBatchResult> {
+    const result: ImportBatchResult = {
+      new_count: 0,
+      updated_count: 0,
+      unchanged_count: 0,
+      skipped_count: 0,
+      contacts: [],
+      error: null,
+    };
+    if (contacts.length === 0) {
+      return result;
+    }
+
+    // Held in the outbox until someone signs in
+    const userId = await getUserId();
+    if (!userId) {
+      return { ...result, skipped_count: contacts.length, error: NOT_SIGNED_IN, unavailable: true };
+    }
+
+    const supabase = await getSupabase();
+    const { data: existingRows, error: lookupError, status: lookupStatus } = await supabase
+      .from('contacts')
+      .select(`id, linkedin_url, email, is_archived, disconnected_at, linkedin_accounts, ${SYNCED_CONTACT_FIELDS.join(', ')}`)
+      .eq('user_id', userId)
+      .in('linkedin_url', contacts.map(c => c.linkedin_url));
+
+    if (lookupError) {
+      logger.error(`Lookup of ${contacts.length} contacts failed:`, lookupError);
+      return {
+        ...result,
+        skipped_count: contacts.length,
+        error: lookupError.message,
+        unavailable: isUnavailableStatus(lookupStatus),
+      };
+    }
+
+    const existing = new Map(
+      ((existingRows || []) as unknown as Contact[]).map(row => [row.linkedin_url, row])
+    );
+    const created: ContactImportResult[] = [];
+    const updated: ContactImportResult[] = [];
+    const tagged: ContactImportResult[] = []; // Unchanged, but reached through another account
+    const toInsert: ReturnType<typeof toDbContact>[] = [];
+    const toUpdate: Array<Partial<Contact>> = [];
+    const seen = new Set<string>();
+
+    for (const contact of contacts) {
+      // LinkedIn can return the same connection on two pages
+      if (seen.has(contact.linkedin_url)) continue;
+      seen.add(contact.linkedin_url);
+
+      const dbContact = { ...toDbContact(contact), user_id: userId };
+      const stored = existing.get(contact.linkedin_url);
+
+      if (!stored) {
+        toInsert.push(dbContact);
+        created.push({ linkedin_url: contact.linkedin_url, outcome: 'created', changed_fields: [] });
+        continue;
+      }
+
+      const storedAccounts = stored.linkedin_accounts || [];
+      const accounts = [...new Set([...storedAccounts, ...dbContact.linkedin_accounts!])];
+      const changedFields = getChangedFields(stored, dbContact);
+      if (!stored.email && dbContact.email) {
+        changedFields.push('email');
+      }
+      if (stored.disconnected_at) {
+        changedFields.push('disconnected_at');
+      }
+      const accountAdded = accounts.length > storedAccounts.length;
+      if (changedFields.length === 0 && !accountAdded) {
+        result.unchanged_count++;
+        result.contacts.push({ linkedin_url: contact.linkedin_url, contact_id: stored.id, outcome: 'unchanged', changed_fields: [] });
+        continue;
+      }
+
+      toUpdate.push(toContactUpdate(stored, dbContact, userId, accounts));
+
+      if (changedFields.length === 0) {
+        // Only the account list changed; still reported as unchanged
+        tagged.push({ linkedin_url: contact.linkedin_url, contact_id: stored.id, outcome: 'unchanged', changed_fields: [] });
+        continue;
+      }
+
+      const updatedContact: ContactImportResult = {
+        linkedin_url: contact.linkedin_url,
+        contact_id: stored.id,
+        outcome: 'updated',
+        changed_fields: changedFields,
+      };
+      const careerChange = detectCareerChange(stored, dbContact);
+      if (careerChange && stored.id) {
+        updatedContact.career_event = {
+          type: careerChange,
+          contact_id: stored.id,
+          name: dbContact.name,
+          linkedin_url: contact.linkedin_url,
+          from_title: stored.title ?? null,
+          from_company: stored.company ?? null,
+          to_title: dbContact.title ?? null,
+          to_company: dbContact.company ?? null,
+        };
+      }
+      updated.push(updatedContact);
+    }
+
+    const errors: string[] = [];
+
+    if (toInsert.length > 0) {
+      const { data: inserted, error } = await supabase
+        .from('contacts')
+        .insert(toInsert)
+        .select('id, linkedin_url');
+      if (error) {
+        logger.error(`Insert of ${toInsert.length} contacts failed:`, error);
+        errors.push(error.message);
+        result.skipped_count += created.length;
+        result.contacts.push(...created.map(c => ({ ...c, outcome: 'failed' as const })));
+      } else {
+        const ids = new Map((inserted || []).map(row => [row.linkedin_url, row.id as string]));
+        result.new_count += created.length;
+        result.contacts.push(...created.map(c => ({ ...c, contact_id: ids.get(c.linkedin_url) })));
+      }
+    }
+
+    if (toUpdate.length > 0) {
+      const { error } = await supabase
+        .from('contacts')
+        .upsert(toUpdate, { onConflict: 'user_id,linkedin_url' });
+      if (error) {
+        logger.error(`Update of ${toUpdate.length} contacts failed:`, error);
+        errors.push(error.message);
+        result.skipped_count += updated.length + tagged.length;
+        result.contacts.push(...[...updated, ...tagged].map(c => ({ ...c, outcome: 'failed' as const })));
+      } else {
+        result.updated_count += updated.length;
+        result.unchanged_count += tagged.length;
+        result.contacts.push(...updated, ...tagged);
+      }
+    }
+
+    result.error = errors.length > 0 ? errors.join('; ') : null;
+    return result;
+  }
+
+  /**
+   * Archive synced connections that are missing from an account's complete
+   * connections list. Only contacts with a connected_at (i.e. from a connections
+   * sync) through that account, or through no recorded account, are considered;
+   * one still connected through another account just loses this one
+   */
+  async archiveRemovedConnections(currentUrls: string[], account: string | null): Promise<ArchiveRemovedResult> {
+    const userId = await requireUserId();
+    const current = new Set(currentUrls);
+    const missing: Array<{ contact_id: string; linkedin_url: string }> = [];
+    const untag: Array<{ id: string; linkedin_accounts: string[] }> = [];
+    let active = 0;
+
+    const supabase = await getSupabase();
+    // PostgREST caps responses at 1000 rows
+    for (let from = 0; ; from += 1000) {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, linkedin_url, linkedin_accounts')
+        .eq('user_id', userId)
+        .not('is_archived', 'is', true)
+        .not('connected_at', 'is', null)
+        .order('id')
+        .range(from, from + 999);
+
+      if (error) {
+        logger.error('Failed to load active connections', error);
+        throw new Error(error.message);
+      }
+
+      for (const row of data) {
+        const accounts: string[] = row.linkedin_accounts || [];
+        if (account && accounts.length > 0 && !accounts.includes(account)) continue;
+        active++;
+        if (current.has(row.linkedin_url)) continue;
+
+        const others = accounts.filter(other => other !== account);
+        if (others.length > 0) {
+          untag.push({ id: row.id, linkedin_accounts: others });
+        } else {
+          missing.push({ contact_id: row.id, linkedin_url: row.linkedin_url });
+        }
+      }
+      if (data.length < 1000) break;
+    }
+
+    for (const row of untag) {
+      const { error } = await supabase
+        .from('contacts')
+        .update({ linkedin_accounts: row.linkedin_accounts })
+        .eq('id', row.id);
+      if (error) {
+        logger.error('Failed to remove the account from a connection', error);
+        throw new Error(error.message);
+      }
+    }
+
+    const archivedContacts: typeof missing = [];
+    const result: ArchiveRemovedResult = {
+      active,
+      missing: missing.length,
+      archived: 0,
+      blocked: false,
+      archived_contacts: archivedContacts,
+    };
+    if (missing.length === 0) {
+      return result;
+    }
+
+    // Mass removals are far more likely a bad fetch than real unfriending
+    const limit = Math.max(RECONCILE.maxArchiveAlways, Math.floor(active * RECONCILE.maxArchiveRatio));
+    if (missing.length > limit) {
+      logger.warn(`${missing.length} of ${active} connections missing, over the limit of ${limit} - not archiving`);
+      return { ...result, blocked: true };
+    }
+
+    const disconnectedAt = new Date().toISOString();
+    for (let i = 0; i < missing.length; i += MAX_BATCH_SIZE) {
+      const contacts = missing.slice(i, i + MAX_BATCH_SIZE);
+      const ids = contacts.map(c => c.contact_id);
+      const { error } = await supabase
+        .from('contacts')
+        .update({ is_archived: true, disconnected_at: disconnectedAt, updated_at: disconnectedAt })
+        .in('id', ids);
+
+      if (error) {
+        logger.error(`Failed to archive ${ids.length} removed connections`, error);
+        throw new Error(error.message);
+      }
+      result.archived += ids.length;
+      archivedContacts.push(...contacts);
+    }
+
+    logger.info(`Archived ${result.archived} removed connections`);
+    return result;
+  }
+
+  /**
+   * Check if a contact already exists
+   */
+  async findContact(linkedinUrl: string): Promise<ContactExistsResponse> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, name, last_contact_date, relationship_score, data_hash')
+      .eq('user_id', await requireUserId())
+      .eq('linkedin_url', linkedinUrl)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error checking contact', error);
+      throw new Error(error.message);
+    }
+
+    return {
+      exists: !!data,
+      contact: data ? {
+        id: data.id,
+        name: data.name,
+        last_contact: data.last_contact_date,
+        relationship_score: data.relationship_score,
+        data_hash: data.data_hash ?? null,
+      } : null,
+    };
+  }
+
+  /**
+   * One page of contacts, with related rows embedded through their contact_id foreign keys
+   */
+  async listContacts(query: ContactListQuery, offset: number, limit: number): Promise<ContactWithDetails[]> {
+    const columns = ['*'];
+    if (query.with_experiences) columns.push('experiences(*)');
+    if (query.with_educations) columns.push('educations(*)');
+    if (query.with_skills) columns.push('skills(*)');
+
+    const supabase = await getSupabase();
+    let request = supabase
+      .from('contacts')
+      .select(columns.join(', '))
+      .eq('user_id', await requireUserId())
+      .order('name')
+      .order('id')
+      .range(offset, offset + limit - 1);
+    if (!query.include_archived) {
+      request = request.not('is_archived', 'is', true);
+    }
+    if (query.company) {
+      request = request.ilike('company', `%${query.company}%`);
+    }
+    if (query.connected_after) {
+      request = request.gte('connected_at', query.connected_after);
+    }
+    if (query.linkedin_url) {
+      request = request.eq('linkedin_url', query.linkedin_url);
+    }
+
+    const { data, error } = await request;
+    if (error) {
+      logger.error('Failed to list contacts', error);
+      throw new Error(error.message);
+    }
+
+    return (data || []) as unknown as ContactWithDetails[];
+  }
+
+  /**
+   * Get total contact count
+   */
+  async countContacts(): Promise<number> {
+    const userId = await getUserId();
+    if (!userId) return 0;
+
+    const supabase = await getSupabase();
+    const { count, error } = await supabase
+      .from('contacts')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to get contact count', error);
+      return 0;
+    }
+
+    return count || 0;
+  }
+
+  async getContactUrls(ids: string[]): Promise<Array<{ id: string; linkedin_url: string }>> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, linkedin_url')
+      .eq('user_id', await requireUserId())
+      .in('id', ids);
+
+    if (error) {
+      logger.error('Failed to get contacts by id', error);
+      throw new Error(error.message);
+    }
+    return data || [];
+  }
+
+  async getRefreshCandidates(scrapedBefore: string, limit: number, interactionsSince: string): Promise<RefreshCandidate[]> {
+    const candidates: RefreshCandidate[] = [];
+
+    const userId = await requireUserId();
+    const supabase = await getSupabase();
+    // PostgREST caps responses at 1000 rows
+    for (let from = 0; from < limit; from += 1000) {
+      const { data, error } = await supabase
+        .from('contacts')
+        .select('id, linkedin_url, scraped_at, relationship_score, contact_frequency, last_contact_date')
+        .eq('user_id', userId)
+        .not('is_archived', 'is', true)
+        .not('needs_enrichment', 'is', true)
+        .or(`scraped_at.is.null,scraped_at.lt.${scrapedBefore}`)
+        .order('scraped_at', { ascending: true, nullsFirst: true })
+        .range(from, Math.min(from + 1000, limit) - 1);
+
+      if (error) {
+        logger.error('Failed to load re-enrichment candidates', error);
+        throw new Error(error.message);
+      }
+
+      candidates.push(...data.map(row => ({
+        id: row.id,
+        linkedin_url: row.linkedin_url,
+        scraped_at: row.scraped_at,
+        relationship_score: row.relationship_score,
+        contact_frequency: row.contact_frequency,
+        last_interaction_at: row.last_contact_date,
+      })));
+      if (data.length < 1000) break;
+    }
+
+    // Logged interactions count as contact too, whether or not last_contact_date was updated
+    const byId = new Map(candidates.map(candidate => [candidate.id, candidate]));
+    for (let i = 0; i < candidates.length; i += MAX_BATCH_SIZE) {
+      const ids = candidates.slice(i, i + MAX_BATCH_SIZE).map(candidate => candidate.id);
+
+      const { data: parked, error: parkedError } = await supabase
+        .from('scrape_queue')
+        .select('contact_id')
+        .eq('user_id', userId)
+        .in('contact_id', ids)
+        .eq('status', 'gone');
+
+      if (parkedError) {
+        logger.error('Failed to load parked contacts', parkedError);
+        throw new Error(parkedError.message);
+      }
+      for (const row of parked) {
+        byId.delete(row.contact_id);
+      }
+
+      const { data, error } = await supabase
+        .from('interactions')
+        .select('contact_id, interaction_date')
+        .eq('user_id', userId)
+        .in('contact_id', ids)
+        .gte('interaction_date', interactionsSince);
+
+      if (error) {
+        logger.error('Failed to load recent interactions', error);
+        continue;
+      }
+
+      for (const row of data) {
+        const candidate = byId.get(row.contact_id);
+        if (candidate && (!candidate.last_interaction_at || Date.parse(row.interaction_date) > Date.parse(candidate.last_interaction_at))) {
+          candidate.last_interaction_at = row.interaction_date;
+        }
+      }
+    }
+
+    return [...byId.values()];
+  }
+
+  /**
+   * Save an enriched profile unless its snapshot hash matches the last one.
+   * A changed profile is written with writeProfile and gets a profile_snapshots
+   * row with the changes since the previous snapshot; an unchanged one only
+   * has its scraped_at moved on
+   */
+  async saveProfile(write: ProfileWrite, snapshot: ProfileSnapshot): Promise<ProfileSaveResult> {
+    const dataHash = hashProfileSnapshot(snapshot);
+    const scrapedAt = write.contact.scraped_at || new Date().toISOString();
+
+    // Held in the outbox until someone signs in
+    const userId = await getUserId();
+    if (!userId) {
+      const failed: ProfileTableOutcome = { status: 'failed', rows: 0 };
+      return {
+        success: false,
+        contact_id: write.contact_id,
+        tables: { contacts: failed, experiences: failed, educations: failed, skills: failed, linkedin_profiles: failed },
+        error: NOT_SIGNED_IN,
+        unavailable: true,
+        unchanged: false,
+        changes: [],
+        career_event: null,
+      };
+    }
+
+    const supabase = await getSupabase();
+    let previousQuery = supabase
+      .from('profile_snapshots')
+      .select('contact_id, snapshot_data, data_hash')
+      .eq('user_id', userId);
+    previousQuery = write.contact_id
+      ? previousQuery.eq('contact_id', write.contact_id)
+      : previousQuery.eq('linkedin_url', write.contact.linkedin_url);
+    const { data: previous, error: previousError } = await previousQuery
+      .order('scraped_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (previousError) {
+      logger.warn('Failed to load previous profile snapshot:', previousError.message);
+    }
+
+    const contactId = write.contact_id || previous?.contact_id || null;
+    if (previous?.data_hash === dataHash && contactId) {
+      const { error } = await supabase
+        .from('contacts')
+        .update({ scraped_at: scrapedAt, needs_enrichment: false })
+        .eq('id', contactId);
+
+      if (error) {
+        logger.error(`Failed to mark unchanged profile ${contactId} as scraped`, error);
+      }
+
+      const kept: ProfileTableOutcome = { status: 'kept', rows: 0 };
+      return {
+        success: !error,
+        contact_id: contactId,
+        tables: { contacts: kept, experiences: kept, educations: kept, skills: kept, linkedin_profiles: kept },
+        error: error?.message || null,
+        unchanged: true,
+        changes: [],
+        career_event: null,
+      };
+    }
+
+    const result = await this.writeProfile({ ...write, contact: { ...write.contact, data_hash: dataHash } });
+    if (!result.success || !result.contact_id) {
+      return { ...result, unchanged: false, changes: [], career_event: null };
+    }
+
+    // Only a snapshot from an earlier enrichment is comparable; the first one has nothing to diff
+    const before = isProfileSnapshot(previous?.snapshot_data) ? previous.snapshot_data : null;
+    const changes = before ? diffProfileSnapshots(before, snapshot) : [];
+    const careerChange = before ? detectCareerChange(before, snapshot) : null;
+    const careerEvent: CareerEvent | null = before && careerChange
+      ? {
+          type: careerChange,
+          contact_id: result.contact_id,
+          name: snapshot.name,
+          linkedin_url: write.contact.linkedin_url,
+          from_title: before.title,
+          from_company: before.company,
+          to_title: snapshot.title,
+          to_company: snapshot.company,
+        }
+      : null;
+
+    const { error: snapshotError } = await supabase.from('profile_snapshots').insert({
+      user_id: userId,
+      contact_id: result.contact_id,
+      linkedin_url: write.contact.linkedin_url,
+      snapshot_data: snapshot,
+      data_hash: dataHash,
+      changes,
+      scraped_at: scrapedAt,
+    });
+
+    if (snapshotError) {
+      logger.warn('Failed to save profile snapshot:', snapshotError.message);
+    }
+    if (changes.length > 0) {
+      logger.info(`Profile changed: ${write.contact.name} (${changes.map(change => change.type).join(', ')})`);
+    }
+
+    return { ...result, unchanged: false, changes, career_event: careerEvent };
+  }
+
+  /**
+   * Write a contact's full profile (contact, experiences, educations, skills and
+   * linkedin_profiles) in one transaction; either every table is written or none.
+   * The function scopes everything to the caller's auth.uid()
+   */
+  private async writeProfile(write: ProfileWrite): Promise<ProfileWriteResult> {
+    const supabase = await getSupabase();
+    const { data, error, status } = await supabase.rpc('save_enriched_profile', {
+      p_contact_id: write.contact_id,
+      p_contact: write.contact,
+      p_experiences: write.experiences,
+      p_educations: write.educations,
+      p_skills: write.skills,
+    });
+
+    if (error) {
+      logger.error(`Failed to save profile ${write.contact.linkedin_url}`, error);
+      const failed: ProfileTableOutcome = { status: 'failed', rows: 0 };
+      return {
+        success: false,
+        contact_id: write.contact_id,
+        tables: { contacts: failed, experiences: failed, educations: failed, skills: failed, linkedin_profiles: failed },
+        error: error.message,
+        unavailable: isUnavailableStatus(status),
+      };
+    }
+
+    const written = data as {
+      contact_id: string;
+      contact_created: boolean;
+      experiences: number | null;
+      educations: number | null;
+      skills: number | null;
+    };
+    const childOutcome = (rows: number | null): ProfileTableOutcome =>
+      rows === null ? { status: 'kept', rows: 0 } : { status: 'written', rows };
+
+    return {
+      success: true,
+      contact_id: written.contact_id,
+      tables: {
+        contacts: { status: written.contact_created ? 'created' : 'written', rows: 1 },
+        experiences: childOutcome(written.experiences),
+        educations: childOutcome(written.educations),
+        skills: childOutcome(written.skills),
+        linkedin_profiles: { status: 'written', rows: 1 },
+      },
+      error: null,
+    };
+  }
+
+  /**
+   * Open a sync_history entry for a run whose batches are written incrementally
+   */
+  async startSyncRun(
+    syncType: SyncHistoryEntry['sync_type'],
+    totalFound?: number
+  ): Promise<string | null> {
+    const userId = await getUserId();
+    if (!userId) {
+      logger.error(`Failed to create sync history entry: ${NOT_SIGNED_IN}`);
+      return null;
+    }
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('sync_history')
+      .insert({
+        user_id: userId,
+        sync_type: syncType,
+        status: 'in_progress' as const,
+        total_found: totalFound,
+        metadata: { source: 'linkedin_extension' },
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('Failed to create sync history entry', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Update the running totals or final status of a sync_history entry
+   */
+  async updateSyncRun(id: string, updates: Partial<SyncHistoryEntry>): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('sync_history')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      logger.error(`Failed to update sync history entry ${id}`, error);
+    }
+  }
+
+  /**
+   * Record a finished sync run that did not go through bulkImportContacts
+   * (e.g. a run cancelled before anything was saved)
+   */
+  async recordSyncRun(entry: SyncHistoryEntry): Promise<void> {
+    const userId = await getUserId();
+    if (!userId) {
+      logger.error(`Failed to record sync history entry: ${NOT_SIGNED_IN}`);
+      return;
+    }
+
+    const supabase = await getSupabase();
+    const { error } = await supabase.from('sync_history').insert({ ...entry, user_id: userId });
+
+    if (error) {
+      logger.error('Failed to record sync history entry', error);
+    }
+  }
+
+  /**
+   * Get the most recent sync_history entries, newest first
+   */
+  async getSyncHistory(limit: number): Promise<SyncHistoryEntry[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('sync_history')
+      .select('*')
+      .eq('user_id', await requireUserId())
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Failed to load sync history', error);
+      throw new Error(error.message);
+    }
+
+    return (data || []) as SyncHistoryEntry[];
+  }
+
+  /**
+   * Log an interaction (message, meeting, note...) against a contact
+   */
+  async recordInteraction(interaction: Interaction): Promise<Interaction> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('interactions')
+      .insert({ ...interaction, user_id: await requireUserId() })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to record interaction', error);
+      throw new Error(error.message);
+    }
+
+    return data as Interaction;
+  }
+
+  /**
+   * Create follow-ups, skipping any whose source and source_id already exist
+   */
+  async createFollowUps(followUps: FollowUp[]): Promise<FollowUp[]> {
+    if (followUps.length === 0) return [];
+
+    const sourceIds = followUps.map(f => f.source_id).filter((id): id is string => !!id);
+    const existing = new Set<string>();
+    const supabase = await getSupabase();
+    if (sourceIds.length > 0) {
+      const { data, error } = await supabase
+        .from('follow_ups')
+        .select('source, source_id')
+        .in('source_id', sourceIds);
+
+      if (error) {
+        logger.error('Failed to check existing follow-ups', error);
+        throw new Error(error.message);
+      }
+      for (const row of data) {
+        existing.add(`${row.source}:${row.source_id}`);
+      }
+    }
+
+    const toCreate = followUps.filter(f => !f.source_id || !existing.has(`${f.source}:${f.source_id}`));
+    if (toCreate.length === 0) return [];
+
+    const userId = await requireUserId();
+    const { data, error } = await supabase
+      .from('follow_ups')
+      .insert(toCreate.map(followUp => ({ ...followUp, user_id: userId })))
+      .select();
+
+    if (error) {
+      logger.error(`Failed to create ${toCreate.length} follow-ups`, error);
+      throw new Error(error.message);
+    }
+
+    return data as FollowUp[];
+  }
+
+  // ============ Enrichment queue (scrape_queue) ============
+
+  async enqueueEnrichment(entries: Array<{ contact_id: string; linkedin_url: string }>): Promise<void> {
+    if (entries.length === 0) return;
+
+    const userId = await getUserId();
+    if (!userId) {
+      logger.error(`Failed to queue ${entries.length} contacts for enrichment: ${NOT_SIGNED_IN}`);
+      return;
+    }
+
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('scrape_queue')
+      .upsert(
+        entries.map(entry => ({ ...entry, user_id: userId })),
+        { onConflict: 'user_id,linkedin_url', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      logger.error(`Failed to queue ${entries.length} contacts for enrichment`, error);
+    }
+  }
+
+  async claimEnrichment(limit: number, leaseUntil: string): Promise<ScrapeQueueEntry[]> {
+    const now = new Date().toISOString();
+
+    const userId = await requireUserId();
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('scrape_queue')
+      .select('*')
+      .eq('user_id', userId)
+      .in('status', ['pending', 'failed', 'in_progress'])
+      .lte('next_attempt_at', now)
+      .order('next_attempt_at')
+      .limit(limit);
+
+    if (error) {
+      logger.error('Failed to read enrichment queue', error);
+      throw new Error(error.message);
+    }
+
+    const entries = (data || []) as ScrapeQueueEntry[];
+    if (entries.length === 0) return [];
+
+    const { error: claimError } = await supabase
+      .from('scrape_queue')
+      .update({ status: 'in_progress', next_attempt_at: leaseUntil, updated_at: now })
+      .eq('user_id', userId)
+      .in('id', entries.map(entry => entry.id));
+
+    if (claimError) {
+      logger.error('Failed to claim enrichment queue entries', claimError);
+      throw new Error(claimError.message);
+    }
+
+    return entries;
+  }
+
+  async updateEnrichment(id: string, updates: EnrichmentQueueUpdate): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('scrape_queue')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async completeEnrichmentFor(linkedinUrl: string): Promise<void> {
+    const userId = await getUserId();
+    if (!userId) {
+      logger.error(`Failed to complete enrichment queue entry for ${linkedinUrl}: ${NOT_SIGNED_IN}`);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('scrape_queue')
+      .update({ status: 'done', last_error: null, completed_at: now, updated_at: now })
+      .eq('user_id', userId)
+      .eq('linkedin_url', linkedinUrl);
+
+    if (error) {
+      logger.error(`Failed to complete enrichment queue entry for ${linkedinUrl}`, error);
+    }
+  }
+
+  async parkEnrichment(entry: { contact_id: string; linkedin_url: string }, reason: string): Promise<void> {
+    const userId = await getUserId();
+    if (!userId) {
+      logger.error(`Failed to park ${entry.linkedin_url}: ${NOT_SIGNED_IN}`);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('scrape_queue')
+      .upsert(
+        { ...entry, user_id: userId, status: 'gone', last_error: reason, next_attempt_at: now, updated_at: now },
+        { onConflict: 'user_id,linkedin_url' }
+      );
+
+    if (error) {
+      logger.error(`Failed to park ${entry.linkedin_url}`, error);
+    }
+  }
+
+  async releaseEnrichment(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const now = new Date().toISOString();
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('scrape_queue')
+      .update({ status: 'pending', next_attempt_at: now, updated_at: now })
+      .in('id', ids)
+      .eq('status', 'in_progress');
+
+    if (error) {
+      logger.error(`Failed to release ${ids.length} enrichment queue entries`, error);
+    }
+  }
+
+  async getEnrichmentQueueSummary(): Promise<EnrichmentQueueSummary> {
+    const statuses: ScrapeQueueStatus[] = ['pending', 'in_progress', 'done', 'failed', 'gone'];
+    const counts = {} as EnrichmentQueueSummary['counts'];
+
+    const userId = await requireUserId();
+    const supabase = await getSupabase();
+    for (const status of statuses) {
+      const { count, error } = await supabase
+        .from('scrape_queue')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('status', status);
+
+      if (error) {
+        logger.error(`Failed to count ${status} enrichment queue entries`, error);
+      }
+      counts[status] = count || 0;
+    }
+
+    const { data: parked, error } = await supabase
+      .from('scrape_queue')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'gone')
+      .order('updated_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      logger.error('Failed to load parked enrichment queue entries', error);
+    }
+
+    return { counts, parked: (parked || []) as ScrapeQueueEntry[] };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const supabase = await getSupabase();
+      const { error } = await supabase.from('contacts').select('id').limit(1);
+      return !error;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const supabaseSink = new SupabaseSink();
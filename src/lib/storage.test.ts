@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { installFakeChrome, type FakeChrome } from '@/test/fake-chrome';
+import { LEGACY_SUPABASE } from '@/config/constants';
+import { STORAGE_KEYS } from '@/types';
+import { storage } from './storage';
+
+describe('storage.migrateSettings', () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+  });
+
+  it('keeps settings from before the Supabase project was a setting on the built-in project', async () => {
+    fake.store[STORAGE_KEYS.SETTINGS] = { crm_sink: 'supabase', auto_sync_enabled: false };
+    await storage.migrateSettings();
+
+    const settings = await storage.getSettings();
+    expect(settings.supabase_url).toBe(LEGACY_SUPABASE.url);
+    expect(settings.supabase_anon_key).toBe(LEGACY_SUPABASE.anonKey);
+    expect(settings.auto_sync_enabled).toBe(false);
+  });
+
+  it('leaves a configured project alone', async () => {
+    fake.store[STORAGE_KEYS.SETTINGS] = { supabase_url: 'https://other.supabase.co', supabase_anon_key: 'key' };
+    await storage.migrateSettings();
+
+    expect((await storage.getSettings()).supabase_url).toBe('https://other.supabase.co');
+  });
+
+  it('leaves an install that saved its settings without a project alone', async () => {
+    await storage.updateSettings({});
+    await storage.migrateSettings();
+
+    expect((await storage.getSettings()).supabase_url).not.toBe(LEGACY_SUPABASE.url);
+  });
+});
+
+describe('storage sync job checkpoints', () => {
+  let fake: FakeChrome;
+
+  beforeEach(() => {
+    fake = installFakeChrome();
+    fake.store[STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT] = 'urn:li:member:2';
+  });
+
+  it("reads and clears another account's checkpoint without touching the active one's", async () => {
+    fake.store[`${STORAGE_KEYS.SYNC_JOB}:urn:li:member:1`] = { id: 'paused-job' };
+    fake.store[`${STORAGE_KEYS.SYNC_JOB}:urn:li:member:2`] = { id: 'active-job' };
+
+    expect((await storage.getSyncJob('urn:li:member:1'))?.id).toBe('paused-job');
+    await storage.clearSyncJob('urn:li:member:1');
+
+    expect(fake.store).not.toHaveProperty(`${STORAGE_KEYS.SYNC_JOB}:urn:li:member:1`);
+    expect((await storage.getSyncJob())?.id).toBe('active-job');
+  });
+
+  it('uses the active account for jobs queued before any account was known', async () => {
+    fake.store[`${STORAGE_KEYS.SYNC_JOB}:urn:li:member:2`] = { id: 'active-job' };
+
+    expect((await storage.getSyncJob(null))?.id).toBe('active-job');
+  });
+});
@@ -1,5 +1,8 @@
-import { STORAGE_KEYS, type AuthState, type SyncState, type ExtensionSettings, DEFAULT_SETTINGS } from '@/types';
+import { STORAGE_KEYS, type AuthState, type SyncState, type SyncJob, type BackgroundJob, type SyncWatermark, type RefreshBudgetUsage, type LinkedInAccount, type LinkedInSession, type WebhookDelivery, type FieldMappingConfig, type ExportOptions, type ExtensionSettings, DEFAULT_SETTINGS } from '@/types';
 import { createLogger } from './logger';
+import { DEFAULT_FIELD_MAPPING } from './field-mapping';
+import { DEFAULT_EXPORT_OPTIONS } from './contact-export';
+import { LEGACY_SUPABASE } from '@/config/constants';
 
 const logger = createLogger('storage');
 
@@ -71,6 +74,29 @@ class Storage {
     }
   }
 
+  /**
+   * A key of the active LinkedIn account's own: headers, sync progress,
+   * watermarks and budgets are kept per account. Unscoped until one is known;
+   * `account` gives another account's key
+   */
+  async accountKey(key: string, account?: string | null): Promise<string> {
+    account ??= await this.getActiveLinkedInAccount();
+    return account ? `${key}:${account}` : key;
+  }
+
+  /**
+   * Move values stored before accounts were told apart to an account's keys
+   */
+  async adoptUnscopedKeys(memberUrn: string, keys: string[]): Promise<void> {
+    const values = await chrome.storage.local.get(keys);
+    const adopted = Object.fromEntries(Object.entries(values).map(([key, value]) => [`${key}:${memberUrn}`, value]));
+    if (Object.keys(adopted).length === 0) return;
+
+    await chrome.storage.local.set(adopted);
+    await chrome.storage.local.remove(Object.keys(values));
+    logger.info(`Moved ${Object.keys(values).join(', ')} to ${memberUrn}`);
+  }
+
   // ============ Typed Accessors ============
 
   /**
@@ -108,8 +134,8 @@ class Storage {
   /**
    * Get sync state
    */
-  async getSyncState(): Promise<SyncState> {
-    const state = await this.get<SyncState>(STORAGE_KEYS.SYNC_STATE);
+  async getSyncState(account?: string | null): Promise<SyncState> {
+    const state = await this.get<SyncState>(await this.accountKey(STORAGE_KEYS.SYNC_STATE, account));
     
     return state ?? {
       status: 'idle',
@@ -123,10 +149,205 @@ class Storage {
   /**
    * Update sync state (partial update)
    */
-  async updateSyncState(updates: Partial<SyncState>): Promise<void> {
-    const current = await this.getSyncState();
+  async updateSyncState(updates: Partial<SyncState>, account?: string | null): Promise<void> {
+    const current = await this.getSyncState(account);
     const newState = { ...current, ...updates };
-    await this.set(STORAGE_KEYS.SYNC_STATE, newState);
+    await this.set(await this.accountKey(STORAGE_KEYS.SYNC_STATE, account), newState);
+  }
+
+  /**
+   * Get the persisted sync/enrichment job, if one is running, paused or interrupted
+   */
+  async getSyncJob(account?: string | null): Promise<SyncJob | null> {
+    const job = await this.get<SyncJob>(await this.accountKey(STORAGE_KEYS.SYNC_JOB, account));
+    return job ?? null;
+  }
+
+  /**
+   * Save the sync/enrichment job (checkpoint)
+   */
+  async saveSyncJob(job: SyncJob): Promise<void> {
+    await this.set(await this.accountKey(STORAGE_KEYS.SYNC_JOB), job);
+  }
+
+  /**
+   * Clear the job once it completes, fails or is cancelled
+   */
+  async clearSyncJob(account?: string | null): Promise<void> {
+    await this.remove(await this.accountKey(STORAGE_KEYS.SYNC_JOB, account));
+  }
+
+  /**
+   * Get the background job queue, including recently finished jobs
+   */
+  async getJobQueue(): Promise<BackgroundJob[]> {
+    const jobs = await this.get<BackgroundJob[]>(STORAGE_KEYS.JOB_QUEUE);
+    return jobs ?? [];
+  }
+
+  /**
+   * Save the background job queue
+   */
+  async saveJobQueue(jobs: BackgroundJob[]): Promise<void> {
+    await this.set(STORAGE_KEYS.JOB_QUEUE, jobs);
+  }
+
+  /**
+   * Get the incremental sync watermark
+   */
+  async getSyncWatermark(): Promise<SyncWatermark | null> {
+    const watermark = await this.get<SyncWatermark>(await this.accountKey(STORAGE_KEYS.SYNC_WATERMARK));
+    return watermark ?? null;
+  }
+
+  /**
+   * Save the incremental sync watermark
+   */
+  async setSyncWatermark(watermark: SyncWatermark): Promise<void> {
+    await this.set(await this.accountKey(STORAGE_KEYS.SYNC_WATERMARK), watermark);
+  }
+
+  /**
+   * Get when the last complete (non-incremental) sync finished
+   */
+  async getLastFullSync(): Promise<number | null> {
+    const timestamp = await this.get<number>(await this.accountKey(STORAGE_KEYS.LAST_FULL_SYNC));
+    return timestamp ?? null;
+  }
+
+  /**
+   * Record that a complete (non-incremental) sync finished
+   */
+  async setLastFullSync(timestamp: number): Promise<void> {
+    await this.set(await this.accountKey(STORAGE_KEYS.LAST_FULL_SYNC), timestamp);
+  }
+
+  /**
+   * Get how many profile requests re-enrichment has spent today
+   */
+  async getRefreshUsage(): Promise<RefreshBudgetUsage> {
+    const today = new Date().toLocaleDateString('en-CA');
+    const usage = await this.get<RefreshBudgetUsage>(await this.accountKey(STORAGE_KEYS.REFRESH_USAGE));
+    return usage?.date === today ? usage : { date: today, used: 0 };
+  }
+
+  /**
+   * Count profile requests against today's re-enrichment budget
+   */
+  async recordRefreshUsage(count: number): Promise<void> {
+    const usage = await this.getRefreshUsage();
+    await this.set(await this.accountKey(STORAGE_KEYS.REFRESH_USAGE), { ...usage, used: usage.used + count });
+  }
+
+  /**
+   * LinkedIn accounts seen in this browser, most recently seen first
+   */
+  async getLinkedInAccounts(): Promise<LinkedInAccount[]> {
+    const accounts = await this.get<LinkedInAccount[]>(STORAGE_KEYS.LINKEDIN_ACCOUNTS);
+    return (accounts ?? []).sort((a, b) => b.last_seen_at - a.last_seen_at);
+  }
+
+  /**
+   * Add an account, or update the one with the same member URN
+   */
+  async saveLinkedInAccount(account: LinkedInAccount): Promise<void> {
+    const accounts = await this.getLinkedInAccounts();
+    await this.set(STORAGE_KEYS.LINKEDIN_ACCOUNTS, [
+      account,
+      ...accounts.filter(a => a.member_urn !== account.member_urn),
+    ]);
+  }
+
+  /**
+   * Member URN of the account whose state is in use; null until one is identified
+   */
+  async getActiveLinkedInAccount(): Promise<string | null> {
+    const account = await this.get<string>(STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT);
+    return account ?? null;
+  }
+
+  async setActiveLinkedInAccount(memberUrn: string): Promise<void> {
+    await this.set(STORAGE_KEYS.ACTIVE_LINKEDIN_ACCOUNT, memberUrn);
+  }
+
+  /**
+   * Which account the current LinkedIn session belongs to
+   */
+  async getLinkedInSession(): Promise<LinkedInSession | null> {
+    const session = await this.get<LinkedInSession>(STORAGE_KEYS.LINKEDIN_SESSION);
+    return session ?? null;
+  }
+
+  async setLinkedInSession(session: LinkedInSession): Promise<void> {
+    await this.set(STORAGE_KEYS.LINKEDIN_SESSION, session);
+  }
+
+  /**
+   * Get webhook deliveries, pending ones and the recent log, oldest first
+   */
+  async getWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    const deliveries = await this.get<WebhookDelivery[]>(STORAGE_KEYS.WEBHOOK_DELIVERIES);
+    return deliveries ?? [];
+  }
+
+  /**
+   * Save webhook deliveries
+   */
+  async saveWebhookDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+    await this.set(STORAGE_KEYS.WEBHOOK_DELIVERIES, deliveries);
+  }
+
+  /**
+   * Get the field mapping, or the default one if it was never edited
+   */
+  async getFieldMapping(): Promise<FieldMappingConfig> {
+    const mapping = await this.get<FieldMappingConfig>(STORAGE_KEYS.FIELD_MAPPING);
+    return mapping ?? DEFAULT_FIELD_MAPPING;
+  }
+
+  /**
+   * Save an edited field mapping; null goes back to the default
+   */
+  async setFieldMapping(mapping: FieldMappingConfig | null): Promise<void> {
+    if (mapping) {
+      await this.set(STORAGE_KEYS.FIELD_MAPPING, mapping);
+    } else {
+      await this.remove(STORAGE_KEYS.FIELD_MAPPING);
+    }
+  }
+
+  /**
+   * Get the last used export options, which scheduled exports reuse
+   */
+  async getExportOptions(): Promise<ExportOptions> {
+    const options = await this.get<ExportOptions>(STORAGE_KEYS.EXPORT_OPTIONS);
+    return { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  }
+
+  /**
+   * Save export options
+   */
+  async setExportOptions(options: ExportOptions): Promise<void> {
+    await this.set(STORAGE_KEYS.EXPORT_OPTIONS, options);
+  }
+
+  /**
+   * Get when the scheduled export last ran, or was turned on; the next run is due a period later
+   */
+  async getLastScheduledExport(): Promise<number | null> {
+    const timestamp = await this.get<number>(STORAGE_KEYS.LAST_SCHEDULED_EXPORT);
+    return timestamp ?? null;
+  }
+
+  /**
+   * Record that the scheduled export ran, or null once it's turned off
+   */
+  async setLastScheduledExport(timestamp: number | null): Promise<void> {
+    if (timestamp === null) {
+      await this.remove(STORAGE_KEYS.LAST_SCHEDULED_EXPORT);
+    } else {
+      await this.set(STORAGE_KEYS.LAST_SCHEDULED_EXPORT, timestamp);
+    }
   }
 
   /**
@@ -137,6 +358,18 @@ class Storage {
     return { ...DEFAULT_SETTINGS, ...settings };
   }
 
+  /**
+   * Bring settings saved by an older version up to date. Versions before the
+   * Supabase project was a setting used a built-in one, which holds their data
+   */
+  async migrateSettings(): Promise<void> {
+    const settings = await this.get<Partial<ExtensionSettings>>(STORAGE_KEYS.SETTINGS);
+    if (settings?.supabase_url !== undefined) return;
+
+    await this.updateSettings({ supabase_url: LEGACY_SUPABASE.url, supabase_anon_key: LEGACY_SUPABASE.anonKey });
+    logger.info('Kept the built-in Supabase project from before the update');
+  }
+
   /**
    * Update settings (partial update)
    */
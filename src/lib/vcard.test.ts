@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { contactToVCard } from './vcard';
+import type { Contact } from './supabase';
+
+const contact: Contact = {
+  id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+  name: 'Ada Lovelace',
+  title: 'Engineer',
+  company: 'Analytical Engines',
+  linkedin_url: 'https://www.linkedin.com/in/ada',
+};
+
+function lines(card: string): string[] {
+  return card.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('contactToVCard', () => {
+  it('writes a vCard 4.0 with the name, job and profile', () => {
+    expect(lines(contactToVCard(contact))).toEqual([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'UID:urn:uuid:0f8fad5b-d9cb-469f-a165-70867728950e',
+      'FN:Ada Lovelace',
+      'N:Lovelace;Ada;;;',
+      'TITLE:Engineer',
+      'ORG:Analytical Engines',
+      'URL:https://www.linkedin.com/in/ada',
+      'X-SOCIALPROFILE;TYPE=linkedin:https://www.linkedin.com/in/ada',
+      'END:VCARD',
+    ]);
+  });
+
+  it('escapes text values and puts credentials after a comma in the suffix', () => {
+    const card = lines(contactToVCard({ ...contact, name: 'Jane Doe, PhD', company: 'Smith; Sons\nLtd' }));
+    expect(card).toContain('FN:Jane Doe\\, PhD');
+    expect(card).toContain('N:Doe;Jane;;;PhD');
+    expect(card).toContain('ORG:Smith\\; Sons\\nLtd');
+  });
+
+  it('adds typed phones, websites, Twitter and a birthday without a year from enrichment', () => {
+    const card = lines(contactToVCard({
+      ...contact,
+      phone: '+44 20 7946 0000',
+      linkedin_data: {
+        phone_numbers: [{ number: '+44 7700 900000', type: 'MOBILE' }],
+        websites: ['https://ada.dev'],
+        twitter_handles: ['@ada'],
+        birthdate: { month: 12, day: 10 },
+      },
+    }));
+
+    expect(card).toContain('TEL;TYPE=cell:+44 7700 900000');
+    expect(card).toContain('TEL;TYPE=voice:+44 20 7946 0000');
+    expect(card).toContain('URL:https://ada.dev');
+    expect(card).toContain('X-SOCIALPROFILE;TYPE=twitter:https://twitter.com/ada');
+    expect(card).toContain('BDAY:--1210');
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const card = contactToVCard({ ...contact, title: 'é'.repeat(60) });
+    for (const line of card.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines(card)).toContain(`TITLE:${'é'.repeat(60)}`);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * vCard 4.0 (RFC 6350)
+ *
+ * Builds address book cards from contacts: the contact columns plus the
+ * contact info enrichment keeps in linkedin_data (typed phones, websites,
+ * Twitter handles, birthday).
+ */
+
+import type { Contact } from './supabase';
+
+// The parts of linkedin_data a card uses, see fullProfileToEnrichedContact
+interface ContactInfoData {
+  phone_numbers?: Array<{ number: string; type: string }>;
+  websites?: string[];
+  twitter_handles?: string[];
+  birthdate?: { month?: number; day?: number } | null;
+}
+
+// LinkedIn phone types to vCard TYPE values
+const PHONE_TYPES: Record<string, string> = {
+  MOBILE: 'cell',
+  HOME: 'home',
+  WORK: 'work',
+  FAX: 'fax',
+  PAGER: 'pager',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * One vCard for a contact
+ */
+export function contactToVCard(contact: Contact): string {
+  const info = (contact.linkedin_data || {}) as ContactInfoData;
+  const name = contact.name?.trim() || contact.linkedin_url;
+  const lines: string[] = ['BEGIN:VCARD', 'VERSION:4.0'];
+
+  if (contact.id) {
+    lines.push(UUID_PATTERN.test(contact.id)
+      ? `UID:urn:uuid:${contact.id.toLowerCase()}`
+      : `UID;VALUE=text:${escapeText(contact.id)}`);
+  }
+
+  lines.push(`FN:${escapeText(name)}`);
+  lines.push(`N:${splitName(name).map(escapeText).join(';')}`);
+
+  if (contact.title) lines.push(`TITLE:${escapeText(contact.title)}`);
+  if (contact.company) lines.push(`ORG:${escapeText(contact.company)}`);
+  if (contact.profile_image_url) lines.push(`PHOTO:${contact.profile_image_url}`);
+  if (contact.email) lines.push(`EMAIL:${escapeText(contact.email)}`);
+
+  const phones = [...(info.phone_numbers || [])];
+  if (contact.phone && !phones.some(phone => phone.number === contact.phone)) {
+    phones.push({ number: contact.phone, type: '' });
+  }
+  for (const phone of phones) {
+    const type = PHONE_TYPES[phone.type?.toUpperCase()] || 'voice';
+    lines.push(`TEL;TYPE=${type}:${escapeText(phone.number)}`);
+  }
+
+  const urls = new Set([contact.linkedin_url, ...(info.websites || []), contact.website].filter(Boolean));
+  for (const url of urls) {
+    lines.push(`URL:${url}`);
+  }
+  // Not in RFC 6350, but the common way to tag social profiles
+  lines.push(`X-SOCIALPROFILE;TYPE=linkedin:${contact.linkedin_url}`);
+  for (const handle of info.twitter_handles || []) {
+    lines.push(`X-SOCIALPROFILE;TYPE=twitter:https://twitter.com/${handle.replace(/^@/, '')}`);
+  }
+
+  const birthday = formatBirthday(info.birthdate);
+  if (birthday) lines.push(`BDAY:${birthday}`);
+
+  if (contact.updated_at) {
+    lines.push(`REV:${new Date(contact.updated_at).toISOString().replace(/[-:]|\.\d{3}/g, '')}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A .vcf file holding one card per contact
+ */
+export function contactsToVCards(contacts: Contact[]): string {
+  return contacts.map(contactToVCard).join('');
+}
+
+/**
+ * Escape a text value: backslash, comma, semicolon and newlines
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * N components (family, given, additional, prefixes, suffixes) from a display
+ * name: the last word is the family name, and credentials after a comma
+ * ("Jane Doe, PhD") are suffixes
+ */
+function splitName(name: string): string[] {
+  const [base, ...suffixes] = name.split(',').map(part => part.trim());
+  const words = base.split(/\s+/).filter(Boolean);
+  const family = words.length > 1 ? words[words.length - 1] : base;
+  const given = words.slice(0, -1).join(' ');
+  return [family, given, '', '', suffixes.filter(Boolean).join(' ')];
+}
+
+/**
+ * LinkedIn birthdays have no year, so they use the truncated forms --MMDD, --MM and ---DD
+ */
+function formatBirthday(birthdate: ContactInfoData['birthdate']): string | null {
+  const month = birthdate?.month ? String(birthdate.month).padStart(2, '0') : null;
+  const day = birthdate?.day ? String(birthdate.day).padStart(2, '0') : null;
+  if (month && day) return `--${month}${day}`;
+  if (month) return `--${month}`;
+  if (day) return `---${day}`;
+  return null;
+}
+
+/**
+ * Fold a content line at 75 octets, never inside a multi-octet UTF-8 character
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  // Continuation lines start with a space, which counts towards their length
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
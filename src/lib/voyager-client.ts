@@ -20,6 +20,7 @@ const VOYAGER_BASE_URL = 'https://www.linkedin.com/voyager/api';
 const ENDPOINTS = {
   CONNECTIONS: '/relationships/dash/connections',
   PROFILE: '/identity/dash/profiles',
+  ME: '/me',
 };
 
 // Decoration IDs for connections with varying levels of profile data
@@ -27,10 +28,6 @@ const ENDPOINTS = {
 const CONNECTIONS_DECORATION_ID =
   'com.linkedin.voyager.dash.deco.web.mynetwork.ConnectionListWithProfile-16';
 
-// Alternative decoration ID with more profile details (use if available)
-const CONNECTIONS_DECORATION_ID_RICH =
-  'com.linkedin.voyager.dash.deco.web.mynetwork.ConnectionListWithProfile-20';
-
 // Rate limiting configuration (from Harmonic)
 const RATE_LIMIT = {
   CONNECTIONS_PER_REQUEST: 80,
@@ -111,9 +108,52 @@ function buildRequestHeaders(linkedInHeaders: LinkedInHeaders): Record<string, s
 
 /**
  * Sleep utility for rate limiting
+ * Rejects early with the signal's abort reason if the signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Check if an error was caused by an aborted request or sleep
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * A Voyager request that failed with an HTTP status
+ */
+export class VoyagerRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'VoyagerRequestError';
+  }
+}
+
+/**
+ * Check if an error means the profile is permanently unavailable (410/404)
+ * rather than a transient failure worth retrying
+ */
+export function isProfileGoneError(error: unknown): boolean {
+  return error instanceof VoyagerRequestError && (error.status === 410 || error.status === 404);
 }
 
 /**
@@ -134,32 +174,37 @@ async function fetchWithRetry(
         // Rate limited - wait and retry with exponential backoff
         const backoffMs = RATE_LIMIT.RETRY_DELAY_MS * Math.pow(2, attempt);
         logger.warn(`Rate limited (429), waiting ${backoffMs}ms before retry ${attempt + 1}/${retries}`);
-        await sleep(backoffMs);
+        await sleep(backoffMs, options.signal ?? undefined);
         continue;
       }
 
       if (response.status === 410) {
         // Gone - profile unavailable or blocked, don't retry
-        throw new Error(`HTTP 410: Profile unavailable or access blocked`);
+        throw new VoyagerRequestError(410, `HTTP 410: Profile unavailable or access blocked`);
       }
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new VoyagerRequestError(response.status, `HTTP ${response.status}: ${response.statusText}`);
       }
 
       return response;
     } catch (error) {
+      // Cancelled by caller - stop immediately
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      // Don't retry on 410 or 403 (blocked/forbidden)
-      if (lastError.message.includes('410') || lastError.message.includes('403')) {
-        throw lastError;
+      // Don't retry on 410, 404 or 403 (gone/blocked/forbidden)
+      if (error instanceof VoyagerRequestError && [410, 404, 403].includes(error.status)) {
+        throw error;
       }
 
       logger.warn(`Request failed, attempt ${attempt + 1}/${retries}:`, lastError.message);
 
       if (attempt < retries - 1) {
-        await sleep(RATE_LIMIT.RETRY_DELAY_MS * (attempt + 1));
+        await sleep(RATE_LIMIT.RETRY_DELAY_MS * (attempt + 1), options.signal ?? undefined);
       }
     }
   }
@@ -173,7 +218,8 @@ async function fetchWithRetry(
 export async function fetchConnectionsPage(
   start: number,
   count: number,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<VoyagerResponse> {
   const url = new URL(`${VOYAGER_BASE_URL}${ENDPOINTS.CONNECTIONS}`);
   url.searchParams.set('decorationId', CONNECTIONS_DECORATION_ID);
@@ -188,32 +234,100 @@ export async function fetchConnectionsPage(
     method: 'GET',
     credentials: 'include',
     headers: buildRequestHeaders(headers),
+    signal,
   });
 
   const data = await response.json();
   return data as VoyagerResponse;
 }
 
+/**
+ * The logged-in member, as returned by /me
+ */
+export interface CurrentMember {
+  member_urn: string; // urn:li:member:<id>
+  name: string;
+  public_identifier: string | null;
+  profile_image_url: string | null;
+}
+
+/**
+ * Fetch who the LinkedIn session belongs to
+ */
+export async function fetchCurrentMember(headers: LinkedInHeaders): Promise<CurrentMember> {
+  const response = await fetchWithRetry(`${VOYAGER_BASE_URL}${ENDPOINTS.ME}`, {
+    method: 'GET',
+    credentials: 'include',
+    headers: buildRequestHeaders(headers),
+  });
+
+  const { data, included = [] } = await response.json() as {
+    data: { plainId?: number; '*miniProfile'?: string };
+    included?: VoyagerEntity[];
+  };
+  const miniProfile = included.find(entity => entity.entityUrn === data['*miniProfile']);
+  const memberUrn = data.plainId ? `urn:li:member:${data.plainId}` : miniProfile?.objectUrn;
+  if (typeof memberUrn !== 'string') {
+    throw new Error('No member id in the /me response');
+  }
+
+  const name = [miniProfile?.firstName, miniProfile?.lastName].filter(part => typeof part === 'string' && part).join(' ');
+  return {
+    member_urn: memberUrn,
+    name: name || memberUrn,
+    public_identifier: typeof miniProfile?.publicIdentifier === 'string' ? miniProfile.publicIdentifier : null,
+    profile_image_url: vectorImageUrl(miniProfile?.picture),
+  };
+}
+
+/**
+ * Newest connection seen by a previous sync
+ * Connections come back most recent first, so paging can stop once one of these is reached
+ */
+export interface ConnectionWatermark {
+  connectedAt: number;
+  entityUrn: string;
+}
+
+/**
+ * Check if a connection was already covered by the watermark
+ */
+function isKnownConnection(conn: ParsedConnection, watermark: ConnectionWatermark): boolean {
+  return conn.entityUrn === watermark.entityUrn || conn.connectedAt < watermark.connectedAt;
+}
+
+/**
+ * Options for fetchAllConnections
+ */
+export interface FetchConnectionsOptions {
+  onProgress?: (fetched: number, total: number | null) => void;
+  onPage?: (connections: ParsedConnection[], nextStart: number) => void | Promise<void>; // Awaited after each page, with the offset to resume from
+  watermark?: ConnectionWatermark; // Stop at the first already-synced connection (for incremental sync)
+  start?: number; // Pagination offset to start from (for resuming a paused sync)
+  signal?: AbortSignal; // Abort fetching (between pages or mid-request)
+}
+
 /**
  * Fetch all connections (paginated)
  */
 export async function fetchAllConnections(
   headers: LinkedInHeaders,
-  onProgress?: (fetched: number, total: number | null) => void,
-  mostRecentUrl?: string // Stop when we see this URL (for incremental sync)
+  options: FetchConnectionsOptions = {}
 ): Promise<{ connections: ParsedConnection[]; total: number }> {
+  const { onProgress, onPage, watermark, signal } = options;
   const allConnections: ParsedConnection[] = [];
-  let start = 0;
+  let start = options.start ?? 0;
   let total: number | null = null;
-  let foundMostRecent = false;
+  let reachedWatermark = false;
 
-  logger.info('Starting to fetch all connections');
+  logger.info(`Starting to fetch all connections (start=${start})`);
 
-  while (start < RATE_LIMIT.MAX_CONNECTIONS && !foundMostRecent) {
+  while (start < RATE_LIMIT.MAX_CONNECTIONS && !reachedWatermark) {
     const response = await fetchConnectionsPage(
       start,
       RATE_LIMIT.CONNECTIONS_PER_REQUEST,
-      headers
+      headers,
+      signal
     );
 
     // Parse this page
@@ -224,19 +338,23 @@ export async function fetchAllConnections(
       break;
     }
 
-    // Check for most recent URL (incremental sync)
-    if (mostRecentUrl) {
-      const recentIndex = pageConnections.findIndex(c => c.linkedinUrl === mostRecentUrl);
-      if (recentIndex !== -1) {
-        // Only include connections before the most recent
-        allConnections.push(...pageConnections.slice(0, recentIndex));
-        foundMostRecent = true;
-        logger.info(`Found most recent connection at index ${recentIndex}, stopping`);
+    // Check for already-synced connections (incremental sync)
+    if (watermark) {
+      const knownIndex = pageConnections.findIndex(c => isKnownConnection(c, watermark));
+      if (knownIndex !== -1) {
+        // Only include connections newer than the watermark
+        const newConnections = pageConnections.slice(0, knownIndex);
+        allConnections.push(...newConnections);
+        await onPage?.(newConnections, start + RATE_LIMIT.CONNECTIONS_PER_REQUEST);
+        onProgress?.(allConnections.length, total);
+        reachedWatermark = true;
+        logger.info(`Reached watermark at index ${knownIndex} of page at ${start}, stopping`);
         break;
       }
     }
 
     allConnections.push(...pageConnections);
+    await onPage?.(pageConnections, start + RATE_LIMIT.CONNECTIONS_PER_REQUEST);
 
     // Get total from response if available
     if (response.data?.paging?.total && total === null) {
@@ -262,7 +380,7 @@ export async function fetchAllConnections(
 
     // Rate limiting
     start += RATE_LIMIT.CONNECTIONS_PER_REQUEST;
-    await sleep(RATE_LIMIT.DELAY_BETWEEN_REQUESTS_MS);
+    await sleep(RATE_LIMIT.DELAY_BETWEEN_REQUESTS_MS, signal);
   }
 
   logger.info(`Finished fetching ${allConnections.length} connections`);
@@ -323,7 +441,7 @@ function parseConnectionsResponse(response: VoyagerResponse): ParsedConnection[]
       const picture = profile.profilePicture?.displayImageReference?.vectorImage;
       if (picture?.rootUrl && picture.artifacts?.length) {
         // Get the largest artifact
-        const largest = picture.artifacts.reduce((prev: any, curr: any) =>
+        const largest = picture.artifacts.reduce((prev, curr) =>
           (curr.width > prev.width) ? curr : prev
         );
         profileImageUrl = `${picture.rootUrl}${largest.fileIdentifyingUrlPathSegment}`;
@@ -447,16 +565,17 @@ export interface ProfileCertification {
  */
 export async function fetchFullProfile(
   publicIdentifier: string,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<FullProfileData | null> {
   logger.info(`Fetching full profile for: ${publicIdentifier}`);
 
   try {
     // Fetch all profile data in parallel for speed
     const [profileData, contactInfo, skillsData] = await Promise.all([
-      fetchProfileView(publicIdentifier, headers),
-      fetchProfileContactInfo(publicIdentifier, headers),
-      fetchProfileSkills(publicIdentifier, headers),
+      fetchProfileView(publicIdentifier, headers, signal),
+      fetchProfileContactInfo(publicIdentifier, headers, signal),
+      fetchProfileSkills(publicIdentifier, headers, signal),
     ]);
 
     if (!profileData) {
@@ -480,6 +599,8 @@ export async function fetchFullProfile(
 
     return profileData;
   } catch (error) {
+    // Callers need the status to tell unavailable profiles from transient failures
+    if (isAbortError(error) || error instanceof VoyagerRequestError) throw error;
     logger.error(`Failed to fetch profile for ${publicIdentifier}:`, error);
     return null;
   }
@@ -495,7 +616,8 @@ export async function fetchFullProfile(
  */
 async function fetchProfileView(
   publicIdentifier: string,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<FullProfileData | null> {
   try {
     // Modern Dash endpoint with comprehensive decoration schema
@@ -507,6 +629,7 @@ async function fetchProfileView(
       method: 'GET',
       credentials: 'include',
       headers: buildRequestHeaders(headers),
+      signal,
     });
     const data = await response.json() as VoyagerProfileResponse;
     
@@ -517,12 +640,12 @@ async function fetchProfileView(
     }
     
     // Parse basic profile from profileView
-    let profile = parseFullProfile(data, publicIdentifier);
+    const profile = parseFullProfile(data, publicIdentifier);
     
     // If no experiences found in profileView, try dedicated positions endpoint
     if (profile && profile.experiences.length === 0) {
       logger.info(`No experiences in profileView, trying positions endpoint for ${publicIdentifier}`);
-      const positions = await fetchProfilePositions(publicIdentifier, headers);
+      const positions = await fetchProfilePositions(publicIdentifier, headers, signal);
       if (positions.length > 0) {
         profile.experiences = positions;
       }
@@ -531,7 +654,7 @@ async function fetchProfileView(
     // If no educations found, try dedicated educations endpoint
     if (profile && profile.educations.length === 0) {
       logger.info(`No educations in profileView, trying educations endpoint for ${publicIdentifier}`);
-      const educations = await fetchProfileEducations(publicIdentifier, headers);
+      const educations = await fetchProfileEducations(publicIdentifier, headers, signal);
       if (educations.length > 0) {
         profile.educations = educations;
       }
@@ -539,7 +662,9 @@ async function fetchProfileView(
     
     return profile;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.error(`Failed to fetch profileView for ${publicIdentifier}:`, error);
+    if (error instanceof VoyagerRequestError) throw error;
     return null;
   }
 }
@@ -550,7 +675,8 @@ async function fetchProfileView(
  */
 async function fetchProfilePositions(
   publicIdentifier: string,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<ProfileExperience[]> {
   try {
     // Modern Dash positions endpoint
@@ -560,6 +686,7 @@ async function fetchProfilePositions(
       method: 'GET',
       credentials: 'include',
       headers: buildRequestHeaders(headers),
+      signal,
     });
     const data = await response.json();
 
@@ -567,6 +694,7 @@ async function fetchProfilePositions(
 
     return parsePositionsResponse(data);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.debug(`Failed to fetch positions for ${publicIdentifier}:`, error);
     return [];
   }
@@ -578,7 +706,8 @@ async function fetchProfilePositions(
  */
 async function fetchProfileEducations(
   publicIdentifier: string,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<ProfileEducation[]> {
   try {
     // Modern Dash educations endpoint
@@ -588,6 +717,7 @@ async function fetchProfileEducations(
       method: 'GET',
       credentials: 'include',
       headers: buildRequestHeaders(headers),
+      signal,
     });
     const data = await response.json();
 
@@ -595,11 +725,49 @@ async function fetchProfileEducations(
 
     return parseEducationsResponse(data);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.debug(`Failed to fetch educations for ${publicIdentifier}:`, error);
     return [];
   }
 }
 
+/**
+ * Date range fields shared by raw position and education entries
+ */
+interface RawDated {
+  $type?: string;
+  description?: string;
+  timePeriod?: { startDate?: unknown; endDate?: unknown };
+  dateRange?: { start?: unknown; end?: unknown };
+}
+
+interface RawPosition extends RawDated {
+  title?: string;
+  companyName?: string;
+  companyUrn?: string;
+  '*company'?: string;
+  locationName?: string;
+  location?: string;
+}
+
+interface RawEducation extends RawDated {
+  schoolName?: string;
+  schoolUrn?: string;
+  '*school'?: string;
+  degreeName?: string;
+  degree?: string;
+  fieldOfStudy?: string;
+  field?: string;
+  activities?: string;
+}
+
+interface RawSkill {
+  name?: string;
+  skill?: { name?: string };
+  endorsementCount?: number;
+  endorsements?: number;
+}
+
 /**
  * Parse positions response from dedicated endpoint
  */
@@ -614,15 +782,15 @@ function parsePositionsResponse(data: unknown): ProfileExperience[] {
   
   if (!Array.isArray(elements)) return [];
   
-  return elements
-    .filter((item: any) => 
+  return (elements as RawPosition[])
+    .filter(item => 
       item.$type?.includes('Position') || 
       item.title || 
       item.companyName
     )
-    .map((pos: any) => {
-      const timePeriod = pos.timePeriod as Record<string, unknown> | undefined;
-      const dateRange = pos.dateRange as Record<string, unknown> | undefined;
+    .map(pos => {
+      const timePeriod = pos.timePeriod;
+      const dateRange = pos.dateRange;
       const startDate = timePeriod?.startDate || dateRange?.start || null;
       const endDate = timePeriod?.endDate || dateRange?.end || null;
       
@@ -655,14 +823,14 @@ function parseEducationsResponse(data: unknown): ProfileEducation[] {
   
   if (!Array.isArray(elements)) return [];
   
-  return elements
-    .filter((item: any) => 
+  return (elements as RawEducation[])
+    .filter(item => 
       item.$type?.includes('Education') || 
       item.schoolName
     )
-    .map((edu: any) => {
-      const timePeriod = edu.timePeriod as Record<string, unknown> | undefined;
-      const dateRange = edu.dateRange as Record<string, unknown> | undefined;
+    .map(edu => {
+      const timePeriod = edu.timePeriod;
+      const dateRange = edu.dateRange;
       const startDate = timePeriod?.startDate || dateRange?.start || null;
       const endDate = timePeriod?.endDate || dateRange?.end || null;
       
@@ -687,7 +855,8 @@ function parseEducationsResponse(data: unknown): ProfileEducation[] {
  */
 async function fetchProfileContactInfo(
   publicIdentifier: string,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<ProfileContactInfo | null> {
   try {
     const url = `${VOYAGER_BASE_URL}/identity/profiles/${publicIdentifier}/profileContactInfo`;
@@ -695,10 +864,12 @@ async function fetchProfileContactInfo(
       method: 'GET',
       credentials: 'include',
       headers: buildRequestHeaders(headers),
+      signal,
     });
     const data = await response.json();
     return parseContactInfo(data);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     // Contact info might be private - don't error
     logger.debug(`No contact info for ${publicIdentifier}:`, error);
     return null;
@@ -711,7 +882,8 @@ async function fetchProfileContactInfo(
  */
 async function fetchProfileSkills(
   publicIdentifier: string,
-  headers: LinkedInHeaders
+  headers: LinkedInHeaders,
+  signal?: AbortSignal
 ): Promise<ProfileSkill[] | null> {
   try {
     const url = `${VOYAGER_BASE_URL}/identity/profiles/${publicIdentifier}/skills`;
@@ -719,10 +891,12 @@ async function fetchProfileSkills(
       method: 'GET',
       credentials: 'include',
       headers: buildRequestHeaders(headers),
+      signal,
     });
     const data = await response.json();
     return parseSkills(data);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.debug(`No skills data for ${publicIdentifier}:`, error);
     return null;
   }
@@ -750,17 +924,20 @@ function parseContactInfo(data: unknown): ProfileContactInfo | null {
   return {
     emailAddress: (d.emailAddress as string) || null,
     phoneNumbers: Array.isArray(d.phoneNumbers) 
-      ? d.phoneNumbers.map((p: any) => ({ number: p.number || '', type: p.type || '' }))
+      ? (d.phoneNumbers as Array<{ number?: string; type?: string }>)
+          .map(p => ({ number: p.number || '', type: p.type || '' }))
       : [],
     twitterHandles: Array.isArray(d.twitterHandles) 
-      ? d.twitterHandles.map((t: any) => t.name || t)
+      ? (d.twitterHandles as Array<{ name?: string } | string>)
+          .map(t => typeof t === 'string' ? t : t.name || '')
       : [],
     websites: Array.isArray(d.websites)
-      ? d.websites.map((w: any) => w.url || w)
+      ? (d.websites as Array<{ url?: string } | string>)
+          .map(w => typeof w === 'string' ? w : w.url || '')
       : [],
     birthdate: d.birthdate ? {
-      month: (d.birthdate as any).month,
-      day: (d.birthdate as any).day,
+      month: (d.birthdate as { month?: number }).month,
+      day: (d.birthdate as { day?: number }).day,
     } : null,
   };
 }
@@ -777,9 +954,9 @@ function parseSkills(data: unknown): ProfileSkill[] {
   
   if (!Array.isArray(elements)) return [];
   
-  return elements
-    .filter((e: any) => e.name || e.skill?.name)
-    .map((e: any) => ({
+  return (elements as RawSkill[])
+    .filter(e => e.name || e.skill?.name)
+    .map(e => ({
       name: e.name || e.skill?.name || '',
       endorsementCount: e.endorsementCount || e.endorsements || 0,
     }));
@@ -999,20 +1176,26 @@ function extractProfileImageUrl(picture: unknown): string | null {
   const displayImage = pic.displayImageReference || pic.displayImage;
   
   if (displayImage && typeof displayImage === 'object') {
-    const di = displayImage as Record<string, unknown>;
-    const vectorImage = di.vectorImage;
-    
-    if (vectorImage && typeof vectorImage === 'object') {
-      const vi = vectorImage as Record<string, unknown>;
-      if (vi.rootUrl && Array.isArray(vi.artifacts) && vi.artifacts.length > 0) {
-        // Get the largest artifact
-        const artifacts = vi.artifacts as Array<Record<string, unknown>>;
-        const largest = artifacts.reduce((prev, curr) => 
-          ((curr.width as number) > (prev.width as number)) ? curr : prev
-        );
-        return `${vi.rootUrl}${largest.fileIdentifyingUrlPathSegment || ''}`;
-      }
-    }
+    return vectorImageUrl((displayImage as Record<string, unknown>).vectorImage);
+  }
+  
+  return null;
+}
+
+/**
+ * URL of the largest artifact of a Voyager vector image
+ */
+function vectorImageUrl(vectorImage: unknown): string | null {
+  if (!vectorImage || typeof vectorImage !== 'object') return null;
+  
+  const vi = vectorImage as Record<string, unknown>;
+  if (vi.rootUrl && Array.isArray(vi.artifacts) && vi.artifacts.length > 0) {
+    // Get the largest artifact
+    const artifacts = vi.artifacts as Array<Record<string, unknown>>;
+    const largest = artifacts.reduce((prev, curr) => 
+      ((curr.width as number) > (prev.width as number)) ? curr : prev
+    );
+    return `${vi.rootUrl}${largest.fileIdentifyingUrlPathSegment || ''}`;
   }
   
   return null;
@@ -1020,12 +1203,20 @@ function extractProfileImageUrl(picture: unknown): string | null {
 
 /**
  * Enrich multiple profiles with rate limiting
+ * onProgress is called once per profile, with the error if its fetch failed;
+ * an error thrown by onProgress ends the run
  */
 export async function enrichProfiles(
   publicIdentifiers: string[],
   headers: LinkedInHeaders,
-  onProgress?: (completed: number, total: number, profile: FullProfileData | null) => void,
-  delayMs = 2000
+  onProgress?: (
+    completed: number,
+    total: number,
+    profile: FullProfileData | null,
+    error?: unknown // Why the profile is null, if the fetch failed
+  ) => void | Promise<void>,
+  delayMs = 2000,
+  signal?: AbortSignal
 ): Promise<Map<string, FullProfileData>> {
   const results = new Map<string, FullProfileData>();
   
@@ -1033,28 +1224,32 @@ export async function enrichProfiles(
   
   for (let i = 0; i < publicIdentifiers.length; i++) {
     const identifier = publicIdentifiers[i];
+    let profile: FullProfileData | null = null;
+    let fetchError: unknown;
     
     try {
-      const profile = await fetchFullProfile(identifier, headers);
+      profile = await fetchFullProfile(identifier, headers, signal);
       
       if (profile) {
         results.set(identifier, profile);
         logger.debug(`Enriched profile ${i + 1}/${publicIdentifiers.length}: ${identifier}`);
       }
-      
-      if (onProgress) {
-        onProgress(i + 1, publicIdentifiers.length, profile);
-      }
-      
-      // Rate limiting between requests
-      if (i < publicIdentifiers.length - 1) {
-        await sleep(delayMs);
-      }
     } catch (error) {
-      logger.error(`Failed to enrich ${identifier}:`, error);
-      if (onProgress) {
-        onProgress(i + 1, publicIdentifiers.length, null);
+      if (isAbortError(error)) {
+        logger.info(`Profile enrichment aborted after ${i}/${publicIdentifiers.length} profiles`);
+        throw error;
       }
+      logger.error(`Failed to enrich ${identifier}:`, error);
+      fetchError = error;
+    }
+    
+    if (onProgress) {
+      await onProgress(i + 1, publicIdentifiers.length, profile, fetchError);
+    }
+    
+    // Rate limiting between requests
+    if (i < publicIdentifiers.length - 1) {
+      await sleep(delayMs, signal);
     }
   }
   
@@ -11,10 +11,10 @@ import type {
   VoyagerEntity, 
   ParsedConnection,
   FullProfileData,
-  ProfileExperience,
-  ProfileEducation,
-  ProfileSkill,
 } from './voyager-client';
+import { DEFAULT_FIELD_MAPPING, applyFieldMapping, toConnectionSource, toProfileSource, type MappedContact } from './field-mapping';
+import { LINKEDIN_URLS } from '@/config/constants';
+import type { FieldMapping, LinkedInContact } from '@/types';
 
 /**
  * Known Voyager entity types
@@ -60,6 +60,24 @@ export function parseUrn(urn: string): { type: string; id: string } | null {
   return { type: match[1], id: match[2] };
 }
 
+/**
+ * A profile URL in the form contacts are stored with
+ * (https://www.linkedin.com/in/<public id>), or null if it isn't one
+ */
+export function normalizeProfileUrl(url: string): string | null {
+  const match = url.match(/\/in\/([^/?#]+)/);
+  if (!match) return null;
+
+  // Archive exports and browser tabs percent-encode non-ASCII ids; Voyager doesn't
+  let identifier = match[1];
+  try {
+    identifier = decodeURIComponent(identifier);
+  } catch {
+    // Keep it as it is
+  }
+  return `${LINKEDIN_URLS.profile}${identifier}`;
+}
+
 /**
  * Convert a Voyager timestamp (milliseconds) to ISO string
  */
@@ -75,50 +93,25 @@ export function voyagerTimestampToDate(timestamp: number): Date {
 }
 
 /**
- * Convert ParsedConnection to our database Contact format
+ * Convert ParsedConnection to our database Contact format, using the
+ * connection field mapping
  */
-export function connectionToContact(conn: ParsedConnection): {
-  name: string;
-  title: string | null;
-  company: string | null;
-  occupation: string | null;
-  linkedin_url: string;
-  profile_image_url: string | null;
-  connected_at: string | null;
-  location: string | null;
-  source: string;
-  scraped_at: string;
-} {
-  // Try to parse title and company from headline
-  let title: string | null = null;
-  let company: string | null = null;
-  
-  if (conn.headline) {
-    const separators = [' at ', ' @ ', ' | ', ' - '];
-    for (const sep of separators) {
-      const idx = conn.headline.indexOf(sep);
-      if (idx > 0) {
-        title = conn.headline.substring(0, idx).trim();
-        company = conn.headline.substring(idx + sep.length).trim();
-        break;
-      }
-    }
-    // If no separator found, treat headline as title
-    if (!title) {
-      title = conn.headline;
-    }
-  }
+export function connectionToContact(
+  conn: ParsedConnection,
+  mappings: FieldMapping[] = DEFAULT_FIELD_MAPPING.connection
+): LinkedInContact {
+  const mapped = applyFieldMapping(mappings, toConnectionSource(conn));
 
   return {
-    name: conn.name,
-    title,
-    company,
-    occupation: conn.headline,
+    ...mapped,
+    name: mapped.name || conn.name,
+    title: mapped.title ?? null,
+    company: mapped.company ?? null,
+    occupation: mapped.occupation ?? null,
     linkedin_url: conn.linkedinUrl,
-    profile_image_url: conn.profileImageUrl,
-    connected_at: conn.connectedAt ? voyagerTimestampToIso(conn.connectedAt) : null,
-    location: conn.locationName,
-    source: 'voyager_api',
+    profile_image_url: mapped.profile_image_url ?? null,
+    connected_at: mapped.connected_at ?? null,
+    source: mapped.source || 'linkedin_extension',
     scraped_at: new Date().toISOString(),
   };
 }
@@ -126,8 +119,11 @@ export function connectionToContact(conn: ParsedConnection): {
 /**
  * Convert multiple connections to contacts
  */
-export function connectionsToContacts(connections: ParsedConnection[]): ReturnType<typeof connectionToContact>[] {
-  return connections.map(connectionToContact);
+export function connectionsToContacts(
+  connections: ParsedConnection[],
+  mappings: FieldMapping[] = DEFAULT_FIELD_MAPPING.connection
+): LinkedInContact[] {
+  return connections.map(conn => connectionToContact(conn, mappings));
 }
 
 /**
@@ -210,26 +206,18 @@ function formatDate(date: { month?: number; year?: number } | null): string | nu
 }
 
 /**
- * Convert full profile to enriched contact data
+ * Convert full profile to enriched contact data; the contact columns come from
+ * the profile field mapping
  */
 export function fullProfileToEnrichedContact(
   profile: FullProfileData,
-  linkedinUrl: string
+  linkedinUrl: string,
+  mappings: FieldMapping[] = DEFAULT_FIELD_MAPPING.profile
 ): {
-  contact: {
+  contact: Omit<MappedContact, 'source'> & {
     name: string;
-    title: string | null;
-    company: string | null;
-    occupation: string | null;
     linkedin_url: string;
-    profile_image_url: string | null;
-    location: string | null;
-    headline: string | null;
-    about: string | null;
-    industry: string | null;
-    email: string | null;
-    phone: string | null;
-    website: string | null;
+    source?: string;
     needs_enrichment: boolean;
     linkedin_data: {
       experiences: Array<{
@@ -290,8 +278,8 @@ export function fullProfileToEnrichedContact(
     endorsements: number;
   }>;
 } {
-  const currentExp = profile.experiences.find(e => e.isCurrent);
-  
+  const { source, ...mapped } = applyFieldMapping(mappings, toProfileSource(profile));
+
   // Convert experiences
   const experiences = profile.experiences.map(exp => ({
     position_title: exp.title,
@@ -325,25 +313,12 @@ export function fullProfileToEnrichedContact(
     endorsements: skill.endorsementCount,
   }));
 
-  // Get primary phone and website for top-level fields
-  const primaryPhone = profile.phoneNumbers?.[0]?.number || null;
-  const primaryWebsite = profile.websites?.[0] || null;
-
   return {
     contact: {
-      name: `${profile.firstName} ${profile.lastName}`.trim(),
-      title: currentExp?.title || null,
-      company: currentExp?.companyName || null,
-      occupation: profile.headline,
+      ...mapped,
+      ...(source ? { source } : {}),
+      name: mapped.name || `${profile.firstName} ${profile.lastName}`.trim(),
       linkedin_url: linkedinUrl,
-      profile_image_url: profile.profileImageUrl,
-      location: profile.locationName,
-      headline: profile.headline,
-      about: profile.summary,
-      industry: profile.industryName,
-      email: profile.emailAddress || null,
-      phone: primaryPhone,
-      website: primaryWebsite,
       needs_enrichment: false,
       linkedin_data: {
         experiences: experiences.map(e => ({
@@ -0,0 +1,28 @@
+/**
+ * Offscreen document
+ *
+ * Service workers have no URL.createObjectURL, so exports are turned into
+ * object URLs here for chrome.downloads. The URLs live as long as this
+ * document; the worker revokes each one when its download ends and closes
+ * the document once none are left.
+ */
+
+import type { OffscreenMessage } from '@/types';
+
+const urls = new Set<string>();
+
+chrome.runtime.onMessage.addListener((message: OffscreenMessage, _sender, sendResponse) => {
+  // Popup messages to the worker arrive here too
+  if (message?.target !== 'offscreen') return false;
+
+  if (message.type === 'CREATE_OBJECT_URL') {
+    const url = URL.createObjectURL(new Blob([message.data.content], { type: `${message.data.mimeType};charset=utf-8` }));
+    urls.add(url);
+    sendResponse({ url });
+  } else if (message.type === 'REVOKE_OBJECT_URL') {
+    URL.revokeObjectURL(message.data.url);
+    urls.delete(message.data.url);
+    sendResponse({ remaining: urls.size });
+  }
+  return false;
+});
@@ -2,29 +2,34 @@ import React, { useState, useEffect } from 'react';
 import { Header } from './components/Header';
 import { AuthScreen } from './components/AuthScreen';
 import { SyncScreen } from './components/SyncScreen';
+import { SettingsScreen } from './components/SettingsScreen';
+import { HistoryScreen } from './components/HistoryScreen';
+import { ExportScreen } from './components/ExportScreen';
 import { StatusBar } from './components/StatusBar';
 import type { AuthState, SyncState } from '@/types';
 
 export default function App() {
   const [authState, setAuthState] = useState<AuthState | null>(null);
+  const [backendConfigured, setBackendConfigured] = useState(true);
   const [syncState, setSyncState] = useState<SyncState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'sync' | 'history' | 'export' | 'settings'>('sync');
 
-  // Load initial state - BYPASS AUTH FOR NOW
+  const loadAuthState = async () => {
+    const response = await chrome.runtime.sendMessage({ type: 'GET_AUTH_STATUS' });
+    if (response.success) {
+      const { is_authenticated, token, user, backend_configured } = response.data;
+      setAuthState({ is_authenticated, token, user });
+      setBackendConfigured(backend_configured);
+    }
+  };
+
+  // Load initial state
   useEffect(() => {
     async function loadState() {
       try {
-        // TEMPORARY: Bypass auth - set as authenticated
-        setAuthState({
-          is_authenticated: true,
-          token: 'dev-token',
-          user: {
-            id: 'dev-user',
-            email: 'dev@localhost',
-            name: 'Developer',
-          },
-        });
+        await loadAuthState();
 
         // Get sync status
         const syncResponse = await chrome.runtime.sendMessage({ type: 'GET_SYNC_STATUS' });
@@ -33,12 +38,7 @@ export default function App() {
         }
       } catch (err) {
         console.error('Failed to load state:', err);
-        // Don't show error, just set default state
-        setAuthState({
-          is_authenticated: true,
-          token: 'dev-token',
-          user: { id: 'dev-user', email: 'dev@localhost', name: 'Developer' },
-        });
+        setError('Failed to reach the extension. Please try again.');
       } finally {
         setLoading(false);
       }
@@ -105,9 +105,33 @@ export default function App() {
     <div className="flex flex-col h-screen">
       <Header user={authState?.user || null} onSignOut={handleSignOut} />
 
+      {authState?.is_authenticated && (
+        <nav className="flex border-b border-gray-200 bg-white">
+          {(['sync', 'history', 'export', 'settings'] as const).map(name => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`flex-1 py-2 text-sm font-medium capitalize transition ${
+                tab === name
+                  ? 'text-linkedin-blue border-b-2 border-linkedin-blue'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+        </nav>
+      )}
+
       <main className="flex-1 overflow-auto">
         {!authState?.is_authenticated ? (
-          <AuthScreen onSignIn={handleSignIn} />
+          <AuthScreen backendConfigured={backendConfigured} onSignIn={handleSignIn} onBackendChange={loadAuthState} />
+        ) : tab === 'settings' ? (
+          <SettingsScreen onBackendChange={loadAuthState} />
+        ) : tab === 'history' ? (
+          <HistoryScreen />
+        ) : tab === 'export' ? (
+          <ExportScreen />
         ) : (
           <SyncScreen syncState={syncState} onSyncStateChange={setSyncState} />
         )}
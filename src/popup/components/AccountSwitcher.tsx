@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import type { LinkedInAccountsResponse } from '@/types';
+
+interface AccountSwitcherProps {
+  onSwitched: () => void; // Sync state and headers are kept per account
+}
+
+export function AccountSwitcher({ onSwitched }: AccountSwitcherProps) {
+  const [data, setData] = useState<LinkedInAccountsResponse | null>(null);
+  const [switching, setSwitching] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_LINKEDIN_ACCOUNTS' })
+      .then(response => {
+        if (response.success) {
+          setData(response.data);
+        }
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!data || data.accounts.length === 0) return null;
+
+  const handleSwitch = async (memberUrn: string) => {
+    setSwitching(memberUrn);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'SWITCH_LINKEDIN_ACCOUNT', data: { member_urn: memberUrn } });
+      if (response.success) {
+        setData(response.data);
+        onSwitched();
+      } else {
+        setError(response.error || 'Failed to switch account');
+      }
+    } catch {
+      setError('Failed to switch account');
+    } finally {
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-900">LinkedIn account</h3>
+        <p className="text-xs text-gray-500">Sync progress and limits are kept per account</p>
+      </div>
+
+      <ul className="space-y-2">
+        {data.accounts.map(account => {
+          const active = account.member_urn === data.active;
+          return (
+            <li key={account.member_urn} className="flex items-center gap-3">
+              {account.profile_image_url ? (
+                <img src={account.profile_image_url} alt="" className="w-8 h-8 rounded-full" />
+              ) : (
+                <div className="w-8 h-8 rounded-full bg-gray-100" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 truncate">{account.name}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {account.member_urn === data.logged_in ? 'Logged in on LinkedIn' : `Last seen ${new Date(account.last_seen_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              {active ? (
+                <span className="text-xs font-medium text-linkedin-blue">Active</span>
+              ) : (
+                <button
+                  onClick={() => handleSwitch(account.member_urn)}
+                  disabled={switching !== null}
+                  className="px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  {switching === account.member_urn ? 'Switching...' : 'Switch'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {data.active && data.logged_in && data.active !== data.logged_in && (
+        <p className="p-2 bg-yellow-50 text-xs text-yellow-800 rounded-lg">
+          LinkedIn is logged in as another account; syncs wait until it's the active one
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
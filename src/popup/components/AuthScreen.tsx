@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
+import { BackendSettings } from './BackendSettings';
 import type { User } from '@/types';
 
 interface AuthScreenProps {
+  backendConfigured: boolean; // Without a Supabase project there's nothing to sign in to
   onSignIn: (token: string, user: User) => void;
+  onBackendChange: () => void;
 }
 
-export function AuthScreen({ onSignIn }: AuthScreenProps) {
+export function AuthScreen({ backendConfigured, onSignIn, onBackendChange }: AuthScreenProps) {
+  const [showBackend, setShowBackend] = useState(!backendConfigured);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -23,7 +27,7 @@ export function AuthScreen({ onSignIn }: AuthScreenProps) {
       });
 
       if (response.success) {
-        onSignIn(response.data.token, response.data);
+        onSignIn(response.data.token, response.data.user);
       } else {
         setError(response.error || 'Sign in failed');
       }
@@ -39,13 +43,17 @@ export function AuthScreen({ onSignIn }: AuthScreenProps) {
     setError(null);
 
     try {
-      // Launch OAuth flow
-      const authUrl = 'https://app.yourcrm.com/auth/google?extension=true';
-      chrome.tabs.create({ url: authUrl });
-      
-      // The callback will be handled by the web app and communicated back
-      // For now, show a message
-      setError('Please complete sign in in the new tab');
+      // The background runs the flow, so it finishes even if the popup closes
+      const response = await chrome.runtime.sendMessage({
+        type: 'SIGN_IN_OAUTH',
+        data: { provider: 'google' },
+      });
+
+      if (response.success) {
+        onSignIn(response.data.token, response.data.user);
+      } else {
+        setError(response.error || 'Google sign in failed');
+      }
     } catch (err) {
       setError('Failed to start Google sign in');
     } finally {
@@ -65,6 +73,12 @@ export function AuthScreen({ onSignIn }: AuthScreenProps) {
         <p className="text-gray-500 text-sm mt-1">Sign in to sync your LinkedIn connections</p>
       </div>
 
+      {!backendConfigured && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-lg">
+          No CRM backend is configured. Set the Supabase URL and anon key under Server settings below to sign in.
+        </div>
+      )}
+
       {error && (
         <div className="mb-4 p-3 bg-red-50 border border-red-100 text-red-600 text-sm rounded-lg">
           {error}
@@ -102,7 +116,7 @@ export function AuthScreen({ onSignIn }: AuthScreenProps) {
 
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || !backendConfigured}
           className="w-full py-3 gradient-linkedin text-white font-medium rounded-lg hover:opacity-90 transition disabled:opacity-50"
         >
           {loading ? (
@@ -127,7 +141,7 @@ export function AuthScreen({ onSignIn }: AuthScreenProps) {
 
       <button
         onClick={handleGoogleSignIn}
-        disabled={loading}
+        disabled={loading || !backendConfigured}
         className="w-full py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition flex items-center justify-center gap-2 disabled:opacity-50"
       >
         <svg className="w-5 h-5" viewBox="0 0 24 24">
@@ -150,6 +164,18 @@ export function AuthScreen({ onSignIn }: AuthScreenProps) {
           Sign up free
         </a>
       </p>
+
+      <p className="mt-2 text-center text-xs">
+        <button onClick={() => setShowBackend(!showBackend)} className="text-gray-500 hover:underline">
+          {showBackend ? 'Hide server settings' : 'Server settings'}
+        </button>
+      </p>
+
+      {showBackend && (
+        <div className="mt-4">
+          <BackendSettings onSaved={onBackendChange} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import type { CrmSinkType, ExtensionSettings } from '@/types';
+
+const SINK_OPTIONS: Array<{ value: CrmSinkType; label: string }> = [
+  { value: 'supabase', label: 'Supabase' },
+  { value: 'rest', label: 'REST API' },
+];
+
+type BackendFields = Pick<ExtensionSettings, 'crm_sink' | 'api_url' | 'supabase_url' | 'supabase_anon_key'>;
+
+interface BackendSettingsProps {
+  onSaved?: () => void; // The Supabase project may have changed, and with it the session
+}
+
+export function BackendSettings({ onSaved }: BackendSettingsProps) {
+  const [fields, setFields] = useState<BackendFields | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_SETTINGS' })
+      .then(response => {
+        if (!response.success) return;
+        const { crm_sink, api_url, supabase_url, supabase_anon_key } = response.data as ExtensionSettings;
+        setFields({ crm_sink, api_url, supabase_url, supabase_anon_key });
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!fields) return null;
+
+  const update = (updates: Partial<BackendFields>) => {
+    setFields({ ...fields, ...updates });
+    setMessage(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'UPDATE_SETTINGS',
+        data: {
+          crm_sink: fields.crm_sink,
+          api_url: fields.api_url.trim(),
+          supabase_url: fields.supabase_url.trim(),
+          supabase_anon_key: fields.supabase_anon_key.trim(),
+        },
+      });
+      if (response.success) {
+        setMessage('Connected and saved');
+        onSaved?.();
+      } else {
+        setError(response.error || 'Failed to save');
+      }
+    } catch {
+      setError('Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900">CRM Backend</h3>
+        <p className="text-xs text-gray-500">Where contacts, profiles and sync history are saved</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {SINK_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => update({ crm_sink: option.value })}
+            className={`py-2 text-xs font-medium rounded-lg border transition ${
+              fields.crm_sink === option.value
+                ? 'bg-linkedin-blue text-white border-linkedin-blue'
+                : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm text-gray-600 space-y-1">
+        <span>Supabase URL</span>
+        <input
+          type="url"
+          value={fields.supabase_url}
+          onChange={e => update({ supabase_url: e.target.value })}
+          placeholder="https://<project>.supabase.co"
+          className="w-full px-2 py-1 border border-gray-200 rounded-lg"
+        />
+      </label>
+
+      <label className="block text-sm text-gray-600 space-y-1">
+        <span>Supabase anon key</span>
+        <input
+          type="password"
+          value={fields.supabase_anon_key}
+          onChange={e => update({ supabase_anon_key: e.target.value })}
+          className="w-full px-2 py-1 border border-gray-200 rounded-lg"
+        />
+      </label>
+
+      {fields.crm_sink === 'rest' && (
+        <label className="block text-sm text-gray-600 space-y-1">
+          <span>API URL</span>
+          <input
+            type="url"
+            value={fields.api_url}
+            onChange={e => update({ api_url: e.target.value })}
+            placeholder="https://api.yourcrm.com"
+            className="w-full px-2 py-1 border border-gray-200 rounded-lg"
+          />
+        </label>
+      )}
+
+      <p className="text-xs text-gray-400">
+        Sign-in uses Supabase with either backend
+      </p>
+
+      {error && <p className="p-2 bg-red-50 text-xs text-red-700 rounded-lg">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 bg-linkedin-blue text-white text-xs font-medium rounded-lg hover:bg-linkedin-blue/90 transition disabled:opacity-50"
+        >
+          {saving ? 'Checking...' : 'Check and save'}
+        </button>
+        {message && <p className="text-xs text-gray-500 truncate">{message}</p>}
+      </div>
+    </div>
+  );
+}
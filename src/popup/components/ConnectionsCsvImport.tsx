@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import type { BulkImportResponse, ConnectionsCsvPreview } from '@/types';
+
+// Row issues listed in the preview; the rest are counted
+const MAX_ISSUES_SHOWN = 5;
+
+export function ConnectionsCsvImport() {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ConnectionsCsvPreview | null>(null);
+  const [result, setResult] = useState<BulkImportResponse | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setCsv(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    reset();
+    setResult(null);
+    setBusy(true);
+    try {
+      const text = await file.text();
+      const response = await chrome.runtime.sendMessage({ type: 'PREVIEW_CONNECTIONS_CSV', data: { csv: text } });
+      if (response.success) {
+        setCsv(text);
+        setPreview(response.data);
+      } else {
+        setError(response.error || 'Failed to read file');
+      }
+    } catch {
+      setError('Failed to read file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'IMPORT_CONNECTIONS_CSV', data: { csv } });
+      if (response.data) {
+        setResult(response.data);
+        reset();
+      } else {
+        setError(response.error || 'Import failed');
+      }
+    } catch {
+      setError('Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-3">
+      <div>
+        <h3 className="font-semibold text-gray-900">Import Connections.csv</h3>
+        <p className="text-xs text-gray-500">From LinkedIn's "Get a copy of your data" archive</p>
+      </div>
+
+      {!preview && (
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          disabled={busy}
+          onChange={e => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+          className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-linkedin-blue/10 file:text-linkedin-blue"
+        />
+      )}
+
+      {busy && !preview && <p className="text-xs text-gray-500">Checking file...</p>}
+
+      {preview && (
+        <>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+            <dt className="text-gray-500">Rows</dt>
+            <dd className="text-gray-900 text-right">{preview.rows.toLocaleString()}</dd>
+            <dt className="text-gray-500">New contacts</dt>
+            <dd className="text-gray-900 text-right">{preview.new_count.toLocaleString()}</dd>
+            <dt className="text-gray-500">Already in CRM</dt>
+            <dd className="text-gray-900 text-right">{preview.existing_count.toLocaleString()}</dd>
+            <dt className="text-gray-500">Duplicate rows</dt>
+            <dd className="text-gray-900 text-right">{preview.duplicate_count.toLocaleString()}</dd>
+            <dt className="text-gray-500">With email</dt>
+            <dd className="text-gray-900 text-right">{preview.with_email.toLocaleString()}</dd>
+            <dt className="text-gray-500">Emails added to existing</dt>
+            <dd className="text-gray-900 text-right">{preview.email_added_count.toLocaleString()}</dd>
+          </dl>
+
+          {preview.sample.length > 0 && (
+            <ul className="p-2 bg-gray-50 rounded-lg text-xs space-y-0.5">
+              {preview.sample.map(contact => (
+                <li key={contact.linkedin_url} className="truncate">
+                  <span className="text-gray-900">{contact.name}</span>
+                  {contact.occupation && <span className="text-gray-500"> · {contact.occupation}</span>}
+                  {contact.connected_at && (
+                    <span className="text-gray-400"> · {new Date(contact.connected_at).toLocaleDateString()}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {preview.issues.length > 0 && (
+            <ul className="p-2 bg-yellow-50 text-xs text-yellow-800 rounded-lg space-y-0.5">
+              {preview.issues.slice(0, MAX_ISSUES_SHOWN).map(issue => (
+                <li key={issue.line}>Line {issue.line}: {issue.reason}</li>
+              ))}
+              {preview.issues.length > MAX_ISSUES_SHOWN && (
+                <li>and {preview.issues.length - MAX_ISSUES_SHOWN} more</li>
+              )}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleImport}
+              disabled={busy || preview.contacts === 0}
+              className="px-3 py-1.5 bg-linkedin-blue text-white text-xs font-medium rounded-lg hover:bg-linkedin-blue/90 transition disabled:opacity-50"
+            >
+              {busy ? 'Importing...' : `Import ${preview.contacts.toLocaleString()} contacts`}
+            </button>
+            <button
+              onClick={reset}
+              disabled={busy}
+              className="text-xs text-gray-500 hover:underline disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <p className="text-xs text-gray-600">
+          {result.new_count} new, {result.updated_count} updated, {result.unchanged_count} unchanged
+          {result.skipped_count > 0 && `, ${result.skipped_count} failed`}
+        </p>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
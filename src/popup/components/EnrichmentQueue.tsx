@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import type { EnrichmentQueueSummary } from '@/types';
+
+interface EnrichmentQueueProps {
+  /** Changes whenever a job finishes, so the counts are reloaded */
+  refreshKey: number;
+}
+
+export function EnrichmentQueue({ refreshKey }: EnrichmentQueueProps) {
+  const [summary, setSummary] = useState<EnrichmentQueueSummary | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const loadSummary = () => {
+    chrome.runtime.sendMessage({ type: 'GET_ENRICHMENT_QUEUE' })
+      .then(response => {
+        if (response.success) setSummary(response.data);
+      })
+      .catch(() => {});
+  };
+
+  useEffect(loadSummary, [refreshKey]);
+
+  const handleRetry = async (id: string) => {
+    setRetrying(id);
+    try {
+      await chrome.runtime.sendMessage({ type: 'RETRY_ENRICHMENT', data: { id } });
+      loadSummary();
+    } catch (err) {
+      console.error('Failed to retry profile:', err);
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  if (!summary) return null;
+
+  const { counts, parked } = summary;
+  const waiting = counts.pending + counts.in_progress + counts.failed;
+  if (waiting === 0 && counts.gone === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-100">
+      <div className="flex items-center justify-between px-4 py-3">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Enrichment Queue</p>
+          <p className="text-xs text-gray-500">
+            {waiting.toLocaleString()} waiting
+            {counts.failed > 0 && ` (${counts.failed.toLocaleString()} retrying)`}
+          </p>
+        </div>
+        {counts.gone > 0 && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-50 text-red-700 hover:bg-red-100 transition"
+          >
+            {counts.gone.toLocaleString()} unavailable
+          </button>
+        )}
+      </div>
+
+      {expanded && parked.length > 0 && (
+        <div className="border-t border-gray-100 divide-y divide-gray-100 max-h-48 overflow-y-auto">
+          {parked.map(entry => (
+            <div key={entry.id} className="flex items-center gap-3 px-4 py-2">
+              <div className="flex-1 min-w-0">
+                <a
+                  href={entry.linkedin_url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-xs text-linkedin-blue truncate hover:underline"
+                >
+                  {entry.linkedin_url.replace(/^https?:\/\/(www\.)?linkedin\.com\/in\//, '')}
+                </a>
+                <p className="text-xs text-gray-400 truncate">
+                  {entry.last_error || 'Unavailable'} - {entry.attempts} attempts
+                </p>
+              </div>
+              <button
+                onClick={() => handleRetry(entry.id)}
+                disabled={retrying === entry.id}
+                className="text-xs font-medium text-gray-500 hover:text-linkedin-blue transition disabled:opacity-50"
+              >
+                Retry
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import { EXPORT_COLUMNS } from '@/lib/contact-export';
+import type { ExportColumn, ExportFormat, ExportOptions, ExportSchedule } from '@/types';
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'jsonl', label: 'JSON Lines' },
+  { value: 'vcard', label: 'vCard' },
+];
+
+const SCHEDULE_OPTIONS: Array<{ value: ExportSchedule; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const RELATED_OPTIONS: Array<{ key: 'with_experiences' | 'with_educations' | 'with_skills'; label: string }> = [
+  { key: 'with_experiences', label: 'Experience' },
+  { key: 'with_educations', label: 'Education' },
+  { key: 'with_skills', label: 'Skills' },
+];
+
+export function ExportScreen() {
+  const [options, setOptions] = useState<ExportOptions | null>(null);
+  const [schedule, setSchedule] = useState<ExportSchedule>('off');
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [currentProfile, setCurrentProfile] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_EXPORT_OPTIONS' })
+      .then(response => {
+        if (response.success) setOptions(response.data);
+      })
+      .catch(() => {});
+
+    chrome.runtime.sendMessage({ type: 'GET_SETTINGS' })
+      .then(response => {
+        if (response.success) setSchedule(response.data.export_schedule);
+      })
+      .catch(() => {});
+
+    chrome.tabs.query({ active: true, currentWindow: true })
+      .then(([tab]) => {
+        if (tab?.url?.includes('linkedin.com/in/')) setCurrentProfile(tab.url);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!options) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="w-6 h-6 border-4 border-linkedin-blue border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const update = (updates: Partial<ExportOptions>) => {
+    setOptions({ ...options, ...updates });
+    setMessage(null);
+  };
+
+  const toggleColumn = (column: ExportColumn, checked: boolean) => {
+    // Keep the canonical column order whatever order they were ticked in
+    update({
+      columns: EXPORT_COLUMNS.filter(c => (c === column ? checked : options.columns.includes(c))),
+    });
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'EXPORT_CONTACTS', data: options });
+      setMessage(response.success
+        ? `Exported ${response.data.count} contacts to ${response.data.filename}`
+        : response.error || 'Export failed');
+    } catch {
+      setMessage('Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSchedule = async (value: ExportSchedule) => {
+    setSchedule(value);
+    await chrome.runtime.sendMessage({ type: 'UPDATE_SETTINGS', data: { export_schedule: value } })
+      .catch(() => {});
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Export Contacts</h3>
+          <p className="text-xs text-gray-500">Download synced contacts from the CRM</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => update({ format: option.value })}
+              className={`py-2 text-xs font-medium rounded-lg border transition ${
+                options.format === option.value
+                  ? 'bg-linkedin-blue text-white border-linkedin-blue'
+                  : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {options.format !== 'vcard' && (
+          <>
+            <div>
+              <p className="mb-1 text-xs font-medium text-gray-700">Columns</p>
+              <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+                {EXPORT_COLUMNS.map(column => (
+                  <label key={column} className="flex items-center gap-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={options.columns.includes(column)}
+                      onChange={e => toggleColumn(column, e.target.checked)}
+                      className="accent-linkedin-blue"
+                    />
+                    {column}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="mb-1 text-xs font-medium text-gray-700">Include</p>
+              <div className="flex gap-4">
+                {RELATED_OPTIONS.map(option => (
+                  <label key={option.key} className="flex items-center gap-2 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={options[option.key]}
+                      onChange={e => update({ [option.key]: e.target.checked })}
+                      className="accent-linkedin-blue"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-700">Filters</p>
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            <span>Profile URL</span>
+            <input
+              type="text"
+              value={options.linkedin_url ?? ''}
+              onChange={e => update({ linkedin_url: e.target.value || null })}
+              placeholder="All contacts"
+              className="w-40 px-2 py-1 border border-gray-200 rounded-lg"
+            />
+          </label>
+          {currentProfile && options.linkedin_url !== currentProfile && (
+            <button
+              onClick={() => update({ linkedin_url: currentProfile })}
+              className="text-xs text-linkedin-blue hover:underline"
+            >
+              Only the profile open in this tab
+            </button>
+          )}
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            <span>Company</span>
+            <input
+              type="text"
+              value={options.company ?? ''}
+              onChange={e => update({ company: e.target.value || null })}
+              placeholder="Any"
+              className="w-40 px-2 py-1 border border-gray-200 rounded-lg"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            <span>Connected after</span>
+            <input
+              type="date"
+              value={options.connected_after ?? ''}
+              onChange={e => update({ connected_after: e.target.value || null })}
+              className="w-40 px-2 py-1 border border-gray-200 rounded-lg"
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            <span>Include archived</span>
+            <input
+              type="checkbox"
+              checked={options.include_archived}
+              onChange={e => update({ include_archived: e.target.checked })}
+              className="w-5 h-5 accent-linkedin-blue"
+            />
+          </label>
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={exporting || (options.format !== 'vcard' && options.columns.length === 0)}
+          className="w-full py-2 bg-linkedin-blue text-white text-sm font-medium rounded-lg hover:bg-linkedin-blue/90 transition disabled:opacity-50"
+        >
+          {exporting ? 'Exporting...' : 'Export'}
+        </button>
+
+        {message && <p className="text-xs text-gray-500 text-center break-all">{message}</p>}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Scheduled Export</h3>
+          <p className="text-xs text-gray-500">Download a fresh export with the options last used</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {SCHEDULE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleSchedule(option.value)}
+              className={`py-2 text-xs font-medium rounded-lg border transition ${
+                schedule === option.value
+                  ? 'bg-linkedin-blue text-white border-linkedin-blue'
+                  : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import {
+  SOURCE_FIELDS,
+  TARGET_FIELDS,
+  SAMPLE_CONNECTION,
+  SAMPLE_PROFILE,
+  applyFieldMapping,
+  toConnectionSource,
+  toProfileSource,
+  validateFieldMapping,
+} from '@/lib/field-mapping';
+import type { FieldMapping, FieldMappingConfig, FieldTransform, MappedContactField, MappingSource } from '@/types';
+
+const SOURCE_LABELS: Record<MappingSource, string> = {
+  connection: 'Connections',
+  profile: 'Profiles',
+};
+
+const TRANSFORM_LABELS: Record<FieldTransform, string> = {
+  none: 'As is',
+  concat: 'Join',
+  lowercase: 'Lowercase',
+  first: 'First item',
+  date: 'Date',
+};
+
+const SAMPLES: Record<MappingSource, object> = {
+  connection: toConnectionSource(SAMPLE_CONNECTION),
+  profile: toProfileSource(SAMPLE_PROFILE),
+};
+
+export function FieldMappingEditor() {
+  const [mapping, setMapping] = useState<FieldMappingConfig | null>(null);
+  const [source, setSource] = useState<MappingSource>('connection');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_FIELD_MAPPING' })
+      .then(response => {
+        if (response.success) setMapping(response.data);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (!mapping) return null;
+
+  const rows = mapping[source];
+  const errors = [
+    ...validateFieldMapping('connection', mapping.connection),
+    ...validateFieldMapping('profile', mapping.profile),
+  ];
+  const preview = applyFieldMapping(rows, SAMPLES[source]);
+  const fields = Object.keys(SOURCE_FIELDS[source]);
+
+  const updateRows = (next: FieldMapping[]) => {
+    setMapping({ ...mapping, [source]: next });
+    setMessage(null);
+  };
+  const updateRow = (index: number, updates: Partial<FieldMapping>) => {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const save = async (next: FieldMappingConfig | null) => {
+    setSaving(true);
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'UPDATE_FIELD_MAPPING', data: next });
+      if (response.success) {
+        setMapping(response.data);
+        setMessage('Saved');
+      } else {
+        setMessage(response.error || 'Failed to save');
+      }
+    } catch {
+      setMessage('Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900">Field Mapping</h3>
+        <p className="text-xs text-gray-500">Which LinkedIn fields fill which contact fields</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(SOURCE_LABELS) as MappingSource[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setSource(option)}
+            className={`py-2 text-xs font-medium rounded-lg border transition ${
+              source === option
+                ? 'bg-linkedin-blue text-white border-linkedin-blue'
+                : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {SOURCE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {rows.map((row, index) => (
+          <div key={index} className="space-y-1 text-xs">
+            <div className="flex items-center gap-1">
+              <select
+                value={row.target}
+                onChange={e => updateRow(index, { target: e.target.value as MappedContactField })}
+                className="flex-1 px-1 py-1 border border-gray-200 rounded-lg"
+              >
+                {TARGET_FIELDS.map(target => <option key={target} value={target}>{target}</option>)}
+              </select>
+              <span className="text-gray-400">←</span>
+              <select
+                value={row.transform}
+                onChange={e => updateRow(index, { transform: e.target.value as FieldTransform })}
+                className="px-1 py-1 border border-gray-200 rounded-lg"
+              >
+                {(Object.keys(TRANSFORM_LABELS) as FieldTransform[]).map(transform => (
+                  <option key={transform} value={transform}>{TRANSFORM_LABELS[transform]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+                className="px-1 text-gray-400 hover:text-red-600"
+                title="Remove"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1 pl-2">
+              {row.sources.map((field, sourceIndex) => (
+                <select
+                  key={sourceIndex}
+                  value={field}
+                  onChange={e => updateRow(index, {
+                    sources: e.target.value
+                      ? row.sources.map((f, i) => (i === sourceIndex ? e.target.value : f))
+                      : row.sources.filter((_, i) => i !== sourceIndex),
+                  })}
+                  className="px-1 py-1 border border-gray-200 rounded-lg"
+                >
+                  <option value="">(none)</option>
+                  {fields.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              ))}
+              {(row.sources.length === 0 || row.transform === 'concat') && (
+                <button
+                  onClick={() => updateRow(index, { sources: [...row.sources, fields[0]] })}
+                  className="text-linkedin-blue hover:underline"
+                >
+                  + field
+                </button>
+              )}
+              {row.transform === 'concat' && (
+                <input
+                  value={row.separator ?? ' '}
+                  onChange={e => updateRow(index, { separator: e.target.value })}
+                  title="Separator"
+                  className="w-10 px-1 py-1 border border-gray-200 rounded-lg"
+                />
+              )}
+              {row.transform === 'date' && (
+                <select
+                  value={row.date_format ?? 'iso'}
+                  onChange={e => updateRow(index, { date_format: e.target.value as 'iso' | 'date' })}
+                  className="px-1 py-1 border border-gray-200 rounded-lg"
+                >
+                  <option value="iso">Timestamp</option>
+                  <option value="date">YYYY-MM-DD</option>
+                </select>
+              )}
+              <input
+                value={row.default ?? ''}
+                onChange={e => updateRow(index, { default: e.target.value || null })}
+                placeholder="default"
+                className="flex-1 min-w-0 px-1 py-1 border border-gray-200 rounded-lg"
+              />
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={() => {
+            const unused = TARGET_FIELDS.find(target => !rows.some(row => row.target === target)) ?? TARGET_FIELDS[0];
+            updateRows([...rows, { target: unused, sources: [fields[0]], transform: 'none' }]);
+          }}
+          className="text-xs text-linkedin-blue hover:underline"
+        >
+          + Add field
+        </button>
+      </div>
+
+      <div className="p-3 bg-gray-50 rounded-lg text-xs">
+        <p className="mb-1 font-medium text-gray-700">Preview (sample {source})</p>
+        <dl className="grid grid-cols-3 gap-x-2 gap-y-0.5">
+          {Object.entries(preview).map(([target, value]) => (
+            <React.Fragment key={target}>
+              <dt className="text-gray-500">{target}</dt>
+              <dd className="col-span-2 text-gray-900 truncate">{value ?? '-'}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="p-2 bg-red-50 text-xs text-red-700 rounded-lg space-y-0.5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => save(mapping)}
+          disabled={saving || errors.length > 0}
+          className="px-3 py-1.5 bg-linkedin-blue text-white text-xs font-medium rounded-lg hover:bg-linkedin-blue/90 transition disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save mapping'}
+        </button>
+        <button
+          onClick={() => save(null)}
+          disabled={saving}
+          className="text-xs text-gray-500 hover:underline disabled:opacity-50"
+        >
+          Reset to default
+        </button>
+        {message && <p className="text-xs text-gray-500 truncate">{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import type { SyncHistoryEntry } from '@/lib/supabase';
+
+const TYPE_LABELS: Record<SyncHistoryEntry['sync_type'], string> = {
+  bulk: 'Full sync',
+  incremental: 'Incremental sync',
+  quick_add: 'Quick add',
+  enrichment: 'Enrichment',
+};
+
+const STATUS_CLASSES: Record<SyncHistoryEntry['status'], string> = {
+  started: 'bg-blue-100 text-blue-700',
+  in_progress: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+// Run metadata worth showing, in display order
+const METADATA_LABELS: Record<string, string> = {
+  trigger: 'Trigger',
+  batches: 'Batches',
+  processed: 'Profiles processed',
+  enriched: 'Profiles saved',
+  unchanged: 'Unchanged',
+  failed: 'Failed',
+  gone: 'Unavailable (parked)',
+  archived: 'Archived as removed',
+};
+
+export function HistoryScreen() {
+  const [entries, setEntries] = useState<SyncHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_SYNC_HISTORY' })
+      .then(response => {
+        if (response.success) {
+          setEntries(response.data);
+        } else {
+          setError(response.error || 'Failed to load history');
+        }
+      })
+      .catch(() => setError('Failed to load history'));
+  }, []);
+
+  if (error) {
+    return <p className="p-6 text-sm text-center text-red-600">{error}</p>;
+  }
+
+  if (!entries) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="w-6 h-6 border-4 border-linkedin-blue border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="p-6 text-sm text-center text-gray-500">No syncs yet</p>;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+        {entries.map((entry, index) => {
+          const key = entry.id || String(index);
+          return (
+            <div key={key}>
+              <button
+                onClick={() => setSelected(selected === key ? null : key)}
+                className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-gray-50 transition"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{TYPE_LABELS[entry.sync_type]}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {formatTime(entry.started_at)} · {summarize(entry)}
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[entry.status]}`}>
+                  {entry.status.replace('_', ' ')}
+                </span>
+              </button>
+
+              {selected === key && <RunDetails entry={entry} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function RunDetails({ entry }: { entry: SyncHistoryEntry }) {
+  const metadata = entry.metadata || {};
+  const changedFields = metadata.changed_fields as Record<string, number> | undefined;
+  const rows: Array<[string, string]> = [
+    ['Started', formatTime(entry.started_at)],
+    ['Finished', formatTime(entry.completed_at)],
+    ['Duration', formatDuration(entry.duration_ms)],
+    ['Found', String(entry.total_found ?? 0)],
+    ['New', String(entry.new_contacts ?? 0)],
+    ['Updated', String(entry.updated_contacts ?? 0)],
+    ['Skipped', String(entry.skipped_contacts ?? 0)],
+  ];
+  for (const [field, label] of Object.entries(METADATA_LABELS)) {
+    if (metadata[field] !== undefined && metadata[field] !== null) {
+      rows.push([label, String(metadata[field])]);
+    }
+  }
+
+  return (
+    <div className="px-4 pb-3 space-y-2 text-xs">
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-900 text-right">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+
+      {changedFields && Object.keys(changedFields).length > 0 && (
+        <p className="text-gray-500">
+          Changed: {Object.entries(changedFields).map(([field, count]) => `${field} (${count})`).join(', ')}
+        </p>
+      )}
+
+      {entry.error_message && (
+        <p className="p-2 bg-red-50 text-red-700 rounded-lg break-words">{entry.error_message}</p>
+      )}
+    </div>
+  );
+}
+
+function summarize(entry: SyncHistoryEntry): string {
+  const parts = [
+    `${entry.new_contacts ?? 0} new`,
+    `${entry.updated_contacts ?? 0} updated`,
+    `${entry.skipped_contacts ?? 0} skipped`,
+  ];
+  if (entry.duration_ms) {
+    parts.push(formatDuration(entry.duration_ms));
+  }
+  return parts.join(', ');
+}
+
+function formatTime(timestamp: string | null | undefined): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '-';
+}
+
+function formatDuration(ms: number | null | undefined): string {
+  if (!ms) return '-';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { BackgroundJob } from '@/types';
+
+interface JobQueueProps {
+  jobs: BackgroundJob[];
+  onCancel: (id: string) => void;
+}
+
+const JOB_LABELS: Record<BackgroundJob['type'], string> = {
+  full_sync: 'Full sync',
+  incremental_sync: 'Incremental sync',
+  enrichment: 'Enrich profiles',
+  profile_refresh: 'Refresh profiles',
+};
+
+const STATUS_CLASSES: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+  queued: 'bg-gray-100 text-gray-600',
+};
+
+export function JobQueue({ jobs, onCancel }: JobQueueProps) {
+  // Only jobs still waiting or in progress; finished ones are history
+  const active = jobs
+    .filter(job => job.status === 'running' || job.status === 'paused' || job.status === 'queued')
+    .sort((a, b) =>
+      (a.status === 'queued' ? 1 : 0) - (b.status === 'queued' ? 1 : 0) ||
+      b.priority - a.priority ||
+      a.created_at - b.created_at
+    );
+
+  if (active.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+      {active.map(job => (
+        <div key={job.id} className="flex items-center gap-3 px-4 py-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900">
+              {JOB_LABELS[job.type]}
+              {job.trigger === 'auto' && <span className="ml-1 text-xs text-gray-400">(scheduled)</span>}
+            </p>
+            <p className="text-xs text-gray-500 truncate">
+              {job.status === 'queued'
+                ? 'Waiting for the current job'
+                : `${job.progress.current} / ${job.progress.total ?? '?'}`}
+              {job.error && ` - ${job.error}`}
+            </p>
+          </div>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[job.status]}`}>
+            {job.status}
+          </span>
+          {job.status === 'queued' && (
+            <button
+              onClick={() => onCancel(job.id)}
+              className="text-gray-400 hover:text-red-600 transition"
+              title="Remove from queue"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
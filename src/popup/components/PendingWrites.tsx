@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import type { OutboxStatus } from '@/types';
+
+interface PendingWritesProps {
+  /** Changes whenever a job finishes, so the count is reloaded */
+  refreshKey: number;
+}
+
+// Replays happen on the background health check, about once a minute
+const POLL_INTERVAL_MS = 30000;
+
+export function PendingWrites({ refreshKey }: PendingWritesProps) {
+  const [status, setStatus] = useState<OutboxStatus | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      chrome.runtime.sendMessage({ type: 'GET_OUTBOX_STATUS' })
+        .then(response => {
+          if (response.success) setStatus(response.data);
+        })
+        .catch(() => {});
+    };
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshKey]);
+
+  if (!status || (status.pending === 0 && status.held === 0)) return null;
+
+  if (status.pending === 0) {
+    return (
+      <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+        <p className="text-xs text-gray-600">
+          {status.held.toLocaleString()} CRM {status.held === 1 ? 'write' : 'writes'} saved for another account, sent when it signs in
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-xl">
+      <p className="text-sm font-medium text-yellow-900">
+        {status.pending.toLocaleString()} CRM {status.pending === 1 ? 'write' : 'writes'} waiting
+      </p>
+      <p className="text-xs text-yellow-700">
+        Saved locally while the CRM was unreachable
+        {status.next_attempt_at && ` - next try ${new Date(status.next_attempt_at).toLocaleTimeString()}`}
+      </p>
+      {status.last_error && <p className="mt-1 text-xs text-yellow-700 truncate">{status.last_error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import { WebhookLog } from './WebhookLog';
+import { FieldMappingEditor } from './FieldMappingEditor';
+import { BackendSettings } from './BackendSettings';
+import { requestHostPermission } from '@/lib/host-permissions';
+import type { AutoSyncMode, AutoSyncSchedule, ExtensionSettings, WebhookDelivery } from '@/types';
+
+const MODE_OPTIONS: Array<{ value: AutoSyncMode; label: string }> = [
+  { value: 'interval', label: 'Every few hours' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+];
+
+interface SettingsScreenProps {
+  onBackendChange: () => void;
+}
+
+export function SettingsScreen({ onBackendChange }: SettingsScreenProps) {
+  const [settings, setSettings] = useState<ExtensionSettings | null>(null);
+  const [schedule, setSchedule] = useState<AutoSyncSchedule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [webhookError, setWebhookError] = useState<string | null>(null);
+  const [logKey, setLogKey] = useState(0);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_SETTINGS' })
+      .then(response => {
+        if (response.success) setSettings(response.data);
+      })
+      .catch(() => {});
+
+    chrome.runtime.sendMessage({ type: 'GET_SCHEDULE' })
+      .then(response => {
+        if (response.success) setSchedule(response.data);
+      })
+      .catch(() => {});
+  }, []);
+
+  const update = (updates: Partial<ExtensionSettings>) => {
+    setSettings(current => current && { ...current, ...updates });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    // Asked for first, while the click still counts as a user gesture
+    const webhookUrl = settings.webhook_url.trim();
+    if (settings.webhook_enabled && webhookUrl && !(await requestHostPermission(webhookUrl))) {
+      setWebhookError('Allow access to the webhook URL so events can be sent to it');
+      return;
+    }
+    setWebhookError(null);
+
+    setSaving(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'UPDATE_SETTINGS',
+        data: {
+          auto_sync_enabled: settings.auto_sync_enabled,
+          auto_sync_mode: settings.auto_sync_mode,
+          auto_sync_time: settings.auto_sync_time,
+          auto_sync_interval_hours: settings.auto_sync_interval_hours,
+          refresh_enabled: settings.refresh_enabled,
+          refresh_daily_budget: settings.refresh_daily_budget,
+          webhook_enabled: settings.webhook_enabled,
+          webhook_url: webhookUrl,
+          webhook_secret: settings.webhook_secret,
+        },
+      });
+      if (response.success) {
+        setSchedule(response.data);
+        setSaved(true);
+      }
+    } catch (err) {
+      console.error('Failed to save settings:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTestWebhook = async () => {
+    if (!settings) return;
+
+    const webhookUrl = settings.webhook_url.trim();
+    if (!(await requestHostPermission(webhookUrl))) {
+      setTestResult('Allow access to the webhook URL to send a test event');
+      return;
+    }
+
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'TEST_WEBHOOK',
+        data: { webhook_url: webhookUrl, webhook_secret: settings.webhook_secret },
+      });
+      const delivery = response.data as WebhookDelivery | undefined;
+      setTestResult(response.success ? 'Test event delivered' : delivery?.error || response.error || 'Test failed');
+      setLogKey(key => key + 1);
+    } catch {
+      setTestResult('Test failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <div className="w-6 h-6 border-4 border-linkedin-blue border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900">Auto-Sync</h3>
+            <p className="text-xs text-gray-500">Sync connections in the background</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.auto_sync_enabled}
+            onChange={e => update({ auto_sync_enabled: e.target.checked })}
+            className="w-5 h-5 accent-linkedin-blue"
+          />
+        </div>
+
+        {settings.auto_sync_enabled && (
+          <>
+            <div className="grid grid-cols-3 gap-2">
+              {MODE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => update({ auto_sync_mode: option.value })}
+                  className={`py-2 text-xs font-medium rounded-lg border transition ${
+                    settings.auto_sync_mode === option.value
+                      ? 'bg-linkedin-blue text-white border-linkedin-blue'
+                      : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {settings.auto_sync_mode === 'interval' ? (
+              <label className="flex items-center justify-between text-sm text-gray-600">
+                <span>Every</span>
+                <span className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={168}
+                    value={settings.auto_sync_interval_hours}
+                    onChange={e => update({ auto_sync_interval_hours: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-16 px-2 py-1 border border-gray-200 rounded-lg text-right"
+                  />
+                  hours
+                </span>
+              </label>
+            ) : (
+              <label className="flex items-center justify-between text-sm text-gray-600">
+                <span>At</span>
+                <input
+                  type="time"
+                  value={settings.auto_sync_time}
+                  onChange={e => update({ auto_sync_time: e.target.value })}
+                  className="px-2 py-1 border border-gray-200 rounded-lg"
+                />
+              </label>
+            )}
+          </>
+        )}
+
+        <p className="text-xs text-gray-400 text-center">
+          {schedule?.next_run
+            ? `Next sync ${new Date(schedule.next_run).toLocaleString()}`
+            : 'No sync scheduled'}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900">Profile Refresh</h3>
+            <p className="text-xs text-gray-500">Re-enrich stale profiles, closest relationships first</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.refresh_enabled}
+            onChange={e => update({ refresh_enabled: e.target.checked })}
+            className="w-5 h-5 accent-linkedin-blue"
+          />
+        </div>
+
+        {settings.refresh_enabled && (
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            <span>Up to</span>
+            <span className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={settings.refresh_daily_budget}
+                onChange={e => update({ refresh_daily_budget: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-16 px-2 py-1 border border-gray-200 rounded-lg text-right"
+              />
+              profiles a day
+            </span>
+          </label>
+        )}
+      </div>
+
+      <BackendSettings onSaved={onBackendChange} />
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900">Webhooks</h3>
+            <p className="text-xs text-gray-500">POST signed events when contacts change</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.webhook_enabled}
+            onChange={e => update({ webhook_enabled: e.target.checked })}
+            className="w-5 h-5 accent-linkedin-blue"
+          />
+        </div>
+
+        {settings.webhook_enabled && (
+          <>
+            <label className="block text-sm text-gray-600 space-y-1">
+              <span>URL</span>
+              <input
+                type="url"
+                value={settings.webhook_url}
+                onChange={e => update({ webhook_url: e.target.value })}
+                placeholder="https://hooks.example.com/crm"
+                className="w-full px-2 py-1 border border-gray-200 rounded-lg"
+              />
+            </label>
+            <label className="block text-sm text-gray-600 space-y-1">
+              <span>Signing secret</span>
+              <input
+                type="password"
+                value={settings.webhook_secret}
+                onChange={e => update({ webhook_secret: e.target.value })}
+                className="w-full px-2 py-1 border border-gray-200 rounded-lg"
+              />
+            </label>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleTestWebhook}
+                disabled={testing || !settings.webhook_url.trim()}
+                className="px-3 py-1.5 text-xs font-medium text-linkedin-blue border border-linkedin-blue rounded-lg hover:bg-linkedin-blue/5 transition disabled:opacity-50"
+              >
+                {testing ? 'Sending...' : 'Send test event'}
+              </button>
+              {testResult && <p className="text-xs text-gray-500 truncate">{testResult}</p>}
+            </div>
+
+            {webhookError && <p className="text-xs text-red-600">{webhookError}</p>}
+
+            <WebhookLog refreshKey={logKey} />
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full py-2 bg-linkedin-blue text-white text-sm font-medium rounded-lg hover:bg-linkedin-blue/90 transition disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : saved ? 'Saved' : 'Save'}
+      </button>
+
+      <FieldMappingEditor />
+    </div>
+  );
+}
@@ -21,6 +21,8 @@ export function StatusBar({ isAuthenticated, syncState }: StatusBarProps) {
         return { color: 'green', text: 'Sync complete' };
       case 'error':
         return { color: 'red', text: 'Sync failed' };
+      case 'cancelled':
+        return { color: 'gray', text: 'Sync cancelled' };
       case 'paused':
         return { color: 'yellow', text: 'Paused' };
       default:
@@ -1,24 +1,30 @@
 import React, { useState, useEffect } from 'react';
-import type { SyncState } from '@/types';
+import { JobQueue } from './JobQueue';
+import { EnrichmentQueue } from './EnrichmentQueue';
+import { PendingWrites } from './PendingWrites';
+import { ConnectionsCsvImport } from './ConnectionsCsvImport';
+import { AccountSwitcher } from './AccountSwitcher';
+import type { AutoSyncSchedule, BackgroundJob, SyncState } from '@/types';
 
 interface SyncScreenProps {
   syncState: SyncState | null;
   onSyncStateChange: (state: SyncState) => void;
 }
 
-export function SyncScreen({ syncState }: SyncScreenProps) {
+export function SyncScreen({ syncState, onSyncStateChange }: SyncScreenProps) {
   const [linkedInStatus, setLinkedInStatus] = useState<{
     loggedIn: boolean;
     hasHeaders: boolean;
   } | null>(null);
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  const [schedule, setSchedule] = useState<AutoSyncSchedule | null>(null);
 
   const status = syncState?.status || 'idle';
   const progress = syncState?.progress;
   const lastSync = syncState?.last_sync;
   const totalSynced = syncState?.total_synced || 0;
 
-  // Check LinkedIn status on mount
-  useEffect(() => {
+  const loadLinkedInStatus = () => {
     chrome.runtime.sendMessage({ type: 'GET_AUTH_STATUS' })
       .then(response => {
         if (response.success) {
@@ -29,8 +35,59 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
         }
       })
       .catch(() => {});
+  };
+
+  // Check LinkedIn status on mount
+  useEffect(loadLinkedInStatus, []);
+
+  // Another account's sync state, and its captured headers
+  const handleAccountSwitched = () => {
+    loadLinkedInStatus();
+    chrome.runtime.sendMessage({ type: 'GET_SYNC_STATUS' })
+      .then(response => {
+        if (response.success) {
+          const { jobs: latestJobs, ...state } = response.data;
+          setJobs(latestJobs || []);
+          onSyncStateChange(state);
+        }
+      })
+      .catch(() => {});
+  };
+
+  // Load the auto-sync schedule (a finished sync can move the next run)
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_SCHEDULE' })
+      .then(response => {
+        if (response.success) {
+          setSchedule(response.data);
+        }
+      })
+      .catch(() => {});
+  }, [lastSync]);
+
+  // Load the job queue and follow its updates
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_SYNC_STATUS' })
+      .then(response => {
+        if (response.success) {
+          setJobs(response.data.jobs || []);
+        }
+      })
+      .catch(() => {});
+
+    const listener = (message: { type: string; data: { jobs: BackgroundJob[] } }) => {
+      if (message.type === 'JOBS_UPDATED') {
+        setJobs(message.data.jobs);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
   }, []);
 
+  // Changes whenever a job finishes, for panels that reload after a run
+  const lastJobFinished = Math.max(0, ...jobs.map(job => job.finished_at ?? 0));
+
   const formatLastSync = (timestamp: number | null | undefined): string => {
     if (!timestamp) return 'Never';
     
@@ -50,23 +107,37 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
   };
 
   const getNextSyncTime = (): string => {
-    if (!lastSync) return 'Soon';
-    
-    const nextSync = lastSync + (12 * 60 * 60 * 1000); // 12 hours
+    const nextSync = schedule?.next_run;
     const now = Date.now();
     
-    if (now >= nextSync) return 'Soon';
+    if (!nextSync || now >= nextSync) return 'Soon';
     
     const diffMs = nextSync - now;
     const diffHours = Math.floor(diffMs / 3600000);
     const diffMins = Math.floor((diffMs % 3600000) / 60000);
     
+    if (diffHours >= 24) {
+      return `${Math.floor(diffHours / 24)}d ${diffHours % 24}h`;
+    }
     if (diffHours > 0) {
       return `${diffHours}h ${diffMins}m`;
     }
     return `${diffMins}m`;
   };
 
+  const describeSchedule = (): string => {
+    if (!schedule || !schedule.enabled) return 'Auto-sync is off';
+    
+    switch (schedule.mode) {
+      case 'daily':
+        return `Auto-syncs daily at ${schedule.time}`;
+      case 'weekdays':
+        return `Auto-syncs weekdays at ${schedule.time}`;
+      default:
+        return `Auto-syncs every ${schedule.interval_hours} hours`;
+    }
+  };
+
   const handleManualSync = async () => {
     try {
       await chrome.runtime.sendMessage({ type: 'START_BULK_SYNC' });
@@ -75,6 +146,38 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
     }
   };
 
+  const handleStopSync = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'STOP_SYNC' });
+    } catch (err) {
+      console.error('Failed to stop sync:', err);
+    }
+  };
+
+  const handlePauseSync = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'PAUSE_SYNC' });
+    } catch (err) {
+      console.error('Failed to pause sync:', err);
+    }
+  };
+
+  const handleResumeSync = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'RESUME_SYNC' });
+    } catch (err) {
+      console.error('Failed to resume sync:', err);
+    }
+  };
+
+  const handleCancelJob = async (id: string) => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'CANCEL_JOB', data: { id } });
+    } catch (err) {
+      console.error('Failed to cancel job:', err);
+    }
+  };
+
   const handleEnrichProfiles = async () => {
     try {
       await chrome.runtime.sendMessage({ type: 'START_ENRICHMENT', data: { limit: 50 } });
@@ -85,6 +188,8 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
 
   return (
     <div className="p-6">
+      <AccountSwitcher onSwitched={handleAccountSwitched} />
+
       {/* LinkedIn Status Banner */}
       {linkedInStatus && !linkedInStatus.loggedIn && (
         <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-xl">
@@ -104,6 +209,8 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
       <div className={`mb-6 p-4 rounded-xl ${
         status === 'syncing' ? 'bg-blue-50 border border-blue-100' :
         status === 'error' ? 'bg-red-50 border border-red-100' :
+        status === 'paused' ? 'bg-yellow-50 border border-yellow-200' :
+        status === 'cancelled' ? 'bg-gray-50 border border-gray-200' :
         'bg-green-50 border border-green-100'
       }`}>
         <div className="flex items-center gap-3">
@@ -131,6 +238,37 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
                 <p className="text-sm text-red-600 truncate">{syncState?.error || 'Unknown error'}</p>
               </div>
             </>
+          ) : status === 'paused' ? (
+            <>
+              <div className="w-8 h-8 rounded-full bg-yellow-100 flex items-center justify-center">
+                <svg className="w-4 h-4 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6" />
+                </svg>
+              </div>
+              <div className="flex-1">
+                <p className="font-medium text-yellow-900">Sync Paused</p>
+                <p className="text-sm text-yellow-700">
+                  Stopped at {progress?.current || 0} / {progress?.total || '?'}
+                </p>
+                {syncState?.error && (
+                  <p className="text-xs text-yellow-600 truncate">{syncState.error}</p>
+                )}
+              </div>
+            </>
+          ) : status === 'cancelled' ? (
+            <>
+              <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </div>
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">Sync Cancelled</p>
+                <p className="text-sm text-gray-600">
+                  {schedule?.enabled === false ? 'Auto-sync is off' : `Next sync in ${getNextSyncTime()}`}
+                </p>
+              </div>
+            </>
           ) : (
             <>
               <div className="w-8 h-8 rounded-full bg-green-100 flex items-center justify-center">
@@ -139,14 +277,27 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
                 </svg>
               </div>
               <div className="flex-1">
-                <p className="font-medium text-green-900">Auto-Sync Active</p>
-                <p className="text-sm text-green-600">Next sync in {getNextSyncTime()}</p>
+                <p className="font-medium text-green-900">
+                  {schedule?.enabled === false ? 'Auto-Sync Off' : 'Auto-Sync Active'}
+                </p>
+                <p className="text-sm text-green-600">
+                  {schedule?.enabled === false ? 'Sync manually below' : `Next sync in ${getNextSyncTime()}`}
+                </p>
               </div>
             </>
           )}
         </div>
       </div>
 
+      {/* Job Queue */}
+      <JobQueue jobs={jobs} onCancel={handleCancelJob} />
+
+      {/* Writes waiting for the CRM */}
+      <PendingWrites refreshKey={lastJobFinished} />
+
+      {/* Enrichment Queue */}
+      <EnrichmentQueue refreshKey={lastJobFinished} />
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 gap-4 mb-6">
         <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-100">
@@ -209,7 +360,7 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
             <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
             </svg>
-            <span>Auto-syncs every 12 hours</span>
+            <span>{describeSchedule()}</span>
           </div>
           <div className="flex items-center gap-2 text-gray-600">
             <svg className={`w-4 h-4 ${linkedInStatus?.hasHeaders ? 'text-green-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -222,33 +373,61 @@ export function SyncScreen({ syncState }: SyncScreenProps) {
         </div>
       </div>
 
-      {/* Action Buttons (only when not syncing) */}
-      {status !== 'syncing' && (
-        <div className="mt-6 space-y-3">
-          <button
-            onClick={handleManualSync}
-            className="w-full py-3 bg-linkedin-blue text-white font-medium rounded-lg hover:bg-linkedin-blue/90 transition"
-          >
-            Sync Connections
-          </button>
-          
+      {/* Run Controls (while syncing or paused) */}
+      {(status === 'syncing' || status === 'paused') && (
+        <div className="mt-6 grid grid-cols-2 gap-3">
+          {status === 'syncing' ? (
+            <button
+              onClick={handlePauseSync}
+              className="w-full py-3 bg-yellow-500 text-white font-medium rounded-lg hover:bg-yellow-600 transition"
+            >
+              Pause
+            </button>
+          ) : (
+            <button
+              onClick={handleResumeSync}
+              className="w-full py-3 bg-linkedin-blue text-white font-medium rounded-lg hover:bg-linkedin-blue/90 transition"
+            >
+              Resume
+            </button>
+          )}
           <button
-            onClick={handleEnrichProfiles}
-            className="w-full py-3 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 transition flex items-center justify-center gap-2"
+            onClick={handleStopSync}
+            className="w-full py-3 bg-white text-red-600 font-medium rounded-lg border border-red-200 hover:bg-red-50 transition"
           >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-            Enrich Profiles
+            Stop
           </button>
-          
-          <p className="text-xs text-gray-400 text-center">
-            {linkedInStatus?.hasHeaders 
-              ? 'Ready - session headers captured' 
-              : 'Visit LinkedIn to capture session'}
-          </p>
         </div>
       )}
+
+      {/* Action Buttons (while a job runs, these queue behind it) */}
+      <div className="mt-6 space-y-3">
+        <button
+          onClick={handleManualSync}
+          className="w-full py-3 bg-linkedin-blue text-white font-medium rounded-lg hover:bg-linkedin-blue/90 transition"
+        >
+          Sync Connections
+        </button>
+        
+        <button
+          onClick={handleEnrichProfiles}
+          className="w-full py-3 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 transition flex items-center justify-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Enrich Profiles
+        </button>
+        
+        <p className="text-xs text-gray-400 text-center">
+          {linkedInStatus?.hasHeaders 
+            ? 'Ready - session headers captured' 
+            : 'Visit LinkedIn to capture session'}
+        </p>
+      </div>
+
+      {/* Alternate source when the Voyager API is unavailable */}
+      <ConnectionsCsvImport />
     </div>
   );
 }
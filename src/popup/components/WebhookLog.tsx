@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import type { WebhookDelivery } from '@/types';
+
+interface WebhookLogProps {
+  /** Changes after a test delivery, so the log is reloaded */
+  refreshKey: number;
+}
+
+const STATUS_CLASSES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  delivered: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+// Deliveries shown; the background keeps a few more
+const MAX_SHOWN = 10;
+
+export function WebhookLog({ refreshKey }: WebhookLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_WEBHOOK_DELIVERIES' })
+      .then(response => {
+        if (response.success) setDeliveries(response.data);
+      })
+      .catch(() => {});
+  }, [refreshKey]);
+
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-gray-400 text-center">No deliveries yet</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 text-xs">
+      {deliveries.slice(0, MAX_SHOWN).map(delivery => (
+        <li key={delivery.id} className="py-2 flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-gray-900 truncate">
+              {delivery.event_count} {delivery.event_count === 1 ? 'event' : 'events'} · {delivery.event_types.join(', ')}
+            </p>
+            <p className="text-gray-500 truncate">
+              {new Date(delivery.finished_at ?? delivery.created_at).toLocaleString()}
+              {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+              {delivery.error && ` · ${delivery.error}`}
+            </p>
+          </div>
+          <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_CLASSES[delivery.status]}`}>
+            {delivery.status}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
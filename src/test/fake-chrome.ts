@@ -0,0 +1,69 @@
+/**
+ * In-memory chrome.storage.local, chrome.alarms and chrome.permissions for unit tests
+ *
+ * Both outlive a service worker restart in Chrome, so a test restarts the
+ * worker by calling its startup code again against the same fake.
+ */
+
+import { vi } from 'vitest';
+
+export interface FakeChrome {
+  store: Record<string, unknown>;
+  alarms: Map<string, chrome.alarms.Alarm>;
+  origins: Set<string>; // Granted host permissions
+  now: () => number;
+}
+
+/**
+ * Install a fake `chrome` global; `now` is the clock alarms are scheduled against
+ */
+export function installFakeChrome(now: () => number = Date.now): FakeChrome {
+  const fake: FakeChrome = { store: {}, alarms: new Map(), origins: new Set(), now };
+
+  const pick = (keys: string | string[] | Record<string, unknown> | null | undefined) => {
+    if (keys === null || keys === undefined) return { ...fake.store };
+    const names = typeof keys === 'string' ? [keys] : Array.isArray(keys) ? keys : Object.keys(keys);
+    return Object.fromEntries(names.filter(key => key in fake.store).map(key => [key, fake.store[key]]));
+  };
+
+  const chromeStub = {
+    storage: {
+      local: {
+        get: async (keys?: string | string[] | Record<string, unknown> | null) => structuredClone(pick(keys)),
+        set: async (items: Record<string, unknown>) => {
+          Object.assign(fake.store, structuredClone(items));
+        },
+        remove: async (keys: string | string[]) => {
+          for (const key of typeof keys === 'string' ? [keys] : keys) delete fake.store[key];
+        },
+        clear: async () => {
+          fake.store = {};
+        },
+      },
+      onChanged: { addListener: () => {}, removeListener: () => {} },
+    },
+    alarms: {
+      create: async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        const scheduledTime = info.when ?? fake.now() + (info.delayInMinutes ?? info.periodInMinutes ?? 0) * 60_000;
+        fake.alarms.set(name, { name, scheduledTime, periodInMinutes: info.periodInMinutes });
+      },
+      get: async (name: string) => fake.alarms.get(name),
+      getAll: async () => [...fake.alarms.values()],
+      clear: async (name: string) => fake.alarms.delete(name),
+      clearAll: async () => {
+        fake.alarms.clear();
+        return true;
+      },
+    },
+    permissions: {
+      contains: async ({ origins = [] }: chrome.permissions.Permissions) => origins.every(origin => fake.origins.has(origin)),
+      request: async ({ origins = [] }: chrome.permissions.Permissions) => {
+        origins.forEach(origin => fake.origins.add(origin));
+        return true;
+      },
+    },
+  };
+
+  vi.stubGlobal('chrome', chromeStub);
+  return fake;
+}
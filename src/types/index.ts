@@ -1,3 +1,6 @@
+import type { ParsedConnection } from '@/lib/voyager-client';
+import type { Contact, ScrapeQueueEntry, ScrapeQueueStatus } from '@/lib/supabase';
+
 // LinkedIn Contact Data (basic info from connections list)
 export interface LinkedInContact {
   name: string;
@@ -8,7 +11,16 @@ export interface LinkedInContact {
   profile_image_url: string | null;
   connected_at: string | null;
   scraped_at: string;
-  source: 'bulk_import' | 'quick_add' | 'incremental';
+  source: string;
+  linkedin_account?: string | null; // Member URN of our LinkedIn account it came through
+  // Only set when the field mapping fills them
+  location?: string | null;
+  headline?: string | null;
+  about?: string | null;
+  industry?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
 }
 
 // Full profile data (from visiting individual profile pages)
@@ -54,7 +66,7 @@ export interface SyncState {
   error: string | null;
 }
 
-export type SyncStatus = 'idle' | 'syncing' | 'paused' | 'completed' | 'error';
+export type SyncStatus = 'idle' | 'syncing' | 'paused' | 'completed' | 'cancelled' | 'error';
 
 export interface SyncProgress {
   current: number;
@@ -63,6 +75,132 @@ export interface SyncProgress {
   started_at: number;
 }
 
+// Background job queue: one LinkedIn job runs at a time, in priority order
+export type BackgroundJobType = 'full_sync' | 'incremental_sync' | 'enrichment' | 'profile_refresh';
+
+export type BackgroundJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface BackgroundJob {
+  id: string;
+  type: BackgroundJobType;
+  trigger: 'auto' | 'manual';
+  status: BackgroundJobStatus;
+  priority: number; // Higher runs first
+  params: BackgroundJobParams;
+  linkedin_account?: string | null; // Member URN active when queued; the job only runs while it's active
+  progress: { current: number; total: number | null };
+  result: Record<string, number> | null; // Counts reported by a completed job
+  error: string | null;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+}
+
+export interface BackgroundJobParams {
+  limit?: number; // enrichment: how many contacts to pick
+  contact_ids?: string[]; // profile_refresh: which contacts to re-fetch
+}
+
+// GET_SYNC_STATUS response: the sync state plus the whole job queue
+export interface SyncStatusResponse extends SyncState {
+  jobs: BackgroundJob[];
+}
+
+// Persisted sync/enrichment job, checkpointed after every page so a run
+// survives the MV3 service worker being terminated mid-sync
+export type SyncJob = ConnectionsSyncJob | EnrichmentJob;
+
+// 'interrupted' = the worker stopped while the job was running
+export type SyncJobStatus = 'running' | 'paused' | 'interrupted';
+
+interface SyncJobBase {
+  id: string;
+  status: SyncJobStatus;
+  started_at: number;
+  updated_at: number;
+}
+
+export interface ConnectionsSyncJob extends SyncJobBase {
+  kind: 'sync';
+  sync_type: 'auto' | 'manual';
+  mode: 'full' | 'incremental';
+  watermark: SyncWatermark | null; // Watermark the incremental run stops at
+  newest: SyncWatermark | null; // Newest connection seen so far, becomes the next watermark
+  start: number; // Next pagination offset to fetch
+  fetched: number; // Connections fetched so far across all segments of the run
+  total: number | null;
+  pending: ParsedConnection[]; // Fetched but not yet saved to the CRM
+  history_id: string | null; // sync_history row the batch results accumulate into
+  batches: number; // Batches written to the CRM so far
+  results: ImportCounts;
+  changed_fields: Record<string, number>; // How often each field changed across updated contacts
+  errors: string[];
+  archived: number;
+  outboxed: number; // Connections held in the local outbox because the backend was unreachable
+  linkedin_account?: string | null; // Member URN synced, once the session is checked
+}
+
+export interface EnrichmentJob extends SyncJobBase {
+  kind: 'enrichment';
+  targets: EnrichmentTarget[];
+  index: number; // Next target to enrich
+  enriched: number;
+  changed: number; // Enriched profiles that differed from their last snapshot
+  failed: number; // Will be retried later
+  gone: number; // Parked as permanently unavailable
+}
+
+export interface EnrichmentTarget {
+  contact_id: string;
+  identifier: string;
+  queue_id?: string; // scrape_queue row; unset for a profile refresh
+  attempts?: number;
+}
+
+// High-water mark for incremental sync: the newest connection already synced
+export interface SyncWatermark {
+  connected_at: number;
+  entity_urn: string;
+}
+
+// An enriched contact the re-enrichment planner may refresh
+export interface RefreshCandidate {
+  id: string;
+  linkedin_url: string;
+  scraped_at: string | null;
+  relationship_score: number | null;
+  contact_frequency: Contact['contact_frequency'];
+  last_interaction_at: string | null; // Latest interaction or last_contact_date
+}
+
+// Profile requests spent by scheduled re-enrichment today (local date)
+export interface RefreshBudgetUsage {
+  date: string; // YYYY-MM-DD
+  used: number;
+}
+
+// A LinkedIn account used in this browser, identified by its member URN
+export interface LinkedInAccount {
+  member_urn: string; // urn:li:member:<id>
+  name: string;
+  public_identifier: string | null;
+  profile_image_url: string | null;
+  last_seen_at: number; // When its LinkedIn session was last identified
+}
+
+// Which account the current LinkedIn session (csrf token) belongs to
+export interface LinkedInSession {
+  csrf_token: string;
+  member_urn: string;
+}
+
+// GET_LINKEDIN_ACCOUNTS response
+export interface LinkedInAccountsResponse {
+  accounts: LinkedInAccount[];
+  active: string | null; // Member URN whose sync state is in use
+  logged_in: string | null; // Member URN of the current LinkedIn session
+}
+
 // Auth State
 export interface AuthState {
   is_authenticated: boolean;
@@ -76,13 +214,310 @@ export interface User {
   name: string;
 }
 
+// Supabase Auth providers offered on the sign-in screen
+export type OAuthProvider = 'google';
+
 // API Responses
-export interface BulkImportResponse {
+export interface BulkImportResponse extends ImportCounts {
   success: boolean;
+  duration_ms: number;
+}
+
+export interface ImportCounts {
   new_count: number;
   updated_count: number;
-  skipped_count: number;
-  duration_ms: number;
+  unchanged_count: number;
+  skipped_count: number; // Failed to write
+}
+
+export interface ContactImportResult {
+  linkedin_url: string;
+  contact_id?: string; // The stored contact, unless the write failed
+  outcome: 'created' | 'updated' | 'unchanged' | 'failed';
+  changed_fields: string[]; // Set for 'updated'
+  career_event?: CareerEvent; // The updated title or company looks like a new job
+}
+
+// job_change: new company; promotion: new title at the same company
+export type CareerEventType = 'job_change' | 'promotion';
+
+export interface CareerEvent {
+  type: CareerEventType;
+  contact_id: string;
+  name: string;
+  linkedin_url: string;
+  from_title: string | null;
+  from_company: string | null;
+  to_title: string | null;
+  to_company: string | null;
+}
+
+export interface ImportBatchResult extends ImportCounts {
+  contacts: ContactImportResult[];
+  error: string | null;
+  unavailable?: boolean; // The backend couldn't be reached; nothing was written
+}
+
+export interface ArchiveRemovedResult {
+  active: number; // Active synced connections in the CRM before archiving
+  missing: number; // Of those, how many weren't in the fetched list
+  archived: number;
+  blocked: boolean; // Safety threshold stopped the archive
+  archived_contacts?: Array<{ contact_id: string; linkedin_url: string }>;
+}
+
+// A full profile written in one transaction by the save_enriched_profile function
+export interface ProfileWrite {
+  contact_id: string | null; // null finds or creates the contact by contact.linkedin_url
+  contact: Partial<Contact> & { linkedin_url: string; name: string; data_hash?: string };
+  experiences: Record<string, unknown>[] | null; // null leaves the table as it is
+  educations: Record<string, unknown>[] | null;
+  skills: Record<string, unknown>[] | null;
+}
+
+export type ProfileTable = 'contacts' | 'experiences' | 'educations' | 'skills' | 'linkedin_profiles';
+
+export interface ProfileTableOutcome {
+  status: 'created' | 'written' | 'kept' | 'failed'; // kept: left as it was
+  rows: number;
+}
+
+export interface ProfileWriteResult {
+  success: boolean;
+  contact_id: string | null;
+  tables: Record<ProfileTable, ProfileTableOutcome>;
+  error: string | null; // Nothing was written when set
+  unavailable?: boolean; // The backend couldn't be reached
+}
+
+// The parts of a profile whose changes we track, stored in profile_snapshots
+export interface ProfileSnapshot {
+  name: string;
+  headline: string | null;
+  title: string | null;
+  company: string | null;
+  location: string | null;
+  about: string | null;
+  experiences: Array<{
+    title: string;
+    company: string;
+    location: string | null;
+    start_date: string | null;
+    end_date: string | null; // null while current
+  }>;
+  educations: Array<{
+    school: string;
+    degree: string | null;
+    field_of_study: string | null;
+  }>;
+  skills: string[];
+}
+
+export type ProfileChangeType =
+  | 'name_changed'
+  | 'headline_changed'
+  | 'title_changed'
+  | 'company_changed'
+  | 'location_changed'
+  | 'about_changed'
+  | 'new_position'
+  | 'position_ended'
+  | 'new_education'
+  | 'skills_added'
+  | 'skills_removed';
+
+// One field-level difference between two snapshots of a profile
+export interface ProfileChange {
+  type: ProfileChangeType;
+  from: string | null;
+  to: string | null;
+  items?: string[]; // Skills added or removed
+}
+
+// saveProfileIfChanged result: unchanged profiles are not rewritten
+export interface ProfileSaveResult extends ProfileWriteResult {
+  unchanged: boolean;
+  changes: ProfileChange[];
+  career_event: CareerEvent | null; // Current position differs from the last snapshot
+}
+
+// A CRM write held in the local outbox (IndexedDB) until the backend is reachable
+export type OutboxEntry =
+  | OutboxEntryBase & { kind: 'contacts'; contacts: LinkedInContact[] }
+  | OutboxEntryBase & { kind: 'profile'; write: ProfileWrite; snapshot: ProfileSnapshot; queue_id: string | null };
+
+export interface OutboxEntryBase {
+  id?: number; // Assigned by IndexedDB; replay follows this order
+  user_id: string | null; // Signed-in user when queued; null when nobody was, replayed for the next to sign in
+  created_at: number;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+}
+
+// GET_OUTBOX_STATUS response
+export interface OutboxStatus {
+  pending: number; // The signed-in user's
+  held: number; // Other users', replayed when they sign in again
+  oldest: number | null; // created_at of the oldest pending write
+  next_attempt_at: number | null;
+  last_error: string | null;
+}
+
+// Field mapping from Voyager data to contact columns, see lib/field-mapping.ts
+export type MappingSource = 'connection' | 'profile';
+
+// linkedin_url identifies the contact, so it is never mapped
+export type MappedContactField =
+  | 'name'
+  | 'title'
+  | 'company'
+  | 'occupation'
+  | 'headline'
+  | 'about'
+  | 'location'
+  | 'industry'
+  | 'email'
+  | 'phone'
+  | 'website'
+  | 'profile_image_url'
+  | 'connected_at'
+  | 'source';
+
+// text: a single value; list: an array of strings; timestamp: Unix milliseconds
+export type SourceFieldType = 'text' | 'list' | 'timestamp';
+
+// concat joins every source with `separator`; first takes a list's first item;
+// date formats a timestamp as `date_format`; the rest use the first non-empty source
+export type FieldTransform = 'none' | 'concat' | 'lowercase' | 'first' | 'date';
+
+export interface FieldMapping {
+  target: MappedContactField;
+  sources: string[]; // Source field names; empty for a constant default
+  transform: FieldTransform;
+  separator?: string; // concat, default ' '
+  date_format?: 'iso' | 'date'; // date: full ISO timestamp or YYYY-MM-DD
+  default?: string | null; // Used when the sources give nothing
+}
+
+export interface FieldMappingConfig {
+  connection: FieldMapping[]; // Connections sync (ParsedConnection)
+  profile: FieldMapping[]; // Enrichment (FullProfileData)
+}
+
+// Contact export, see background/exporter.ts
+export type ExportFormat = 'csv' | 'jsonl' | 'vcard';
+
+export type ExportColumn =
+  | 'name'
+  | 'title'
+  | 'company'
+  | 'occupation'
+  | 'headline'
+  | 'location'
+  | 'industry'
+  | 'email'
+  | 'phone'
+  | 'website'
+  | 'linkedin_url'
+  | 'connected_at'
+  | 'relationship_score'
+  | 'last_contact_date'
+  | 'tags'
+  | 'is_archived'
+  | 'scraped_at'
+  | 'created_at';
+
+export type ExportSchedule = 'off' | 'daily' | 'weekly';
+
+// Which contacts a listing returns, and which related rows come with them
+export interface ContactListQuery {
+  include_archived: boolean;
+  company: string | null; // Contains, ignoring case
+  connected_after: string | null; // YYYY-MM-DD
+  linkedin_url: string | null; // A single contact
+  with_experiences: boolean;
+  with_educations: boolean;
+  with_skills: boolean;
+}
+
+export interface ExportOptions extends ContactListQuery {
+  format: ExportFormat;
+  columns: ExportColumn[]; // Not used by vCards, which have their own fields
+}
+
+// EXPORT_CONTACTS response
+export interface ExportResult {
+  filename: string;
+  count: number;
+}
+
+// Worker to offscreen document messages, see offscreen/main.ts
+export type OffscreenMessage =
+  | { target: 'offscreen'; type: 'CREATE_OBJECT_URL'; data: { content: string; mimeType: string } }
+  | { target: 'offscreen'; type: 'REVOKE_OBJECT_URL'; data: { url: string } };
+
+// Connections.csv from LinkedIn's data archive, see lib/connections-csv.ts
+export interface ConnectionsCsvRowError {
+  line: number; // In the file, counting the preamble
+  reason: string;
+}
+
+// PREVIEW_CONNECTIONS_CSV response
+export interface ConnectionsCsvPreview {
+  rows: number; // Data rows in the file
+  contacts: number; // Distinct valid contacts, new_count + existing_count
+  new_count: number;
+  existing_count: number; // Already in the CRM, archived included
+  duplicate_count: number; // Rows repeating a profile URL earlier in the file
+  with_email: number;
+  email_added_count: number; // Existing contacts without an email that get the file's
+  issues: ConnectionsCsvRowError[]; // Rows skipped, or imported without their date
+  sample: LinkedInContact[];
+}
+
+// Outbound webhooks, see background/webhooks.ts
+export type WebhookEventType =
+  | 'contact.created'
+  | 'contact.updated'
+  | 'contact.archived'
+  | 'contact.job_changed'
+  | 'contact.promoted'
+  | 'webhook.test';
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  occurred_at: string;
+  data: Record<string, unknown>;
+}
+
+// The JSON body of every webhook POST
+export interface WebhookPayload {
+  delivery_id: string;
+  sent_at: string;
+  events: WebhookEvent[];
+}
+
+// One POST and its retries; also the delivery log shown in settings
+export interface WebhookDelivery {
+  id: string;
+  status: 'pending' | 'delivered' | 'failed';
+  events: WebhookEvent[]; // Emptied once the delivery is finished
+  event_count: number;
+  event_types: WebhookEventType[];
+  attempts: number;
+  response_status: number | null; // 0 if the request got no response
+  error: string | null;
+  created_at: number;
+  next_attempt_at: number | null;
+  finished_at: number | null;
+}
+
+// GET_ENRICHMENT_QUEUE response
+export interface EnrichmentQueueSummary {
+  counts: Record<ScrapeQueueStatus, number>;
+  parked: ScrapeQueueEntry[]; // Most recent 'gone' entries
 }
 
 export interface QuickAddResponse {
@@ -101,6 +536,7 @@ export interface ContactExistsResponse {
     name: string;
     last_contact: string | null;
     relationship_score: number | null;
+    data_hash?: string | null; // Hash of the last saved profile snapshot
   } | null;
 }
 
@@ -119,10 +555,31 @@ export type MessageType =
   | 'GET_SYNC_STATUS'
   | 'GET_AUTH_STATUS'
   | 'SIGN_IN'
+  | 'SIGN_IN_OAUTH'
   | 'SIGN_OUT'
   | 'CHECK_ENRICHMENT_MODE'
   | 'PROFILE_SCRAPED'
   | 'START_ENRICHMENT'
+  | 'REFRESH_PROFILES'
+  | 'CANCEL_JOB'
+  | 'JOBS_UPDATED'
+  | 'GET_SCHEDULE'
+  | 'GET_SETTINGS'
+  | 'UPDATE_SETTINGS'
+  | 'GET_ENRICHMENT_QUEUE'
+  | 'RETRY_ENRICHMENT'
+  | 'GET_SYNC_HISTORY'
+  | 'GET_OUTBOX_STATUS'
+  | 'GET_WEBHOOK_DELIVERIES'
+  | 'TEST_WEBHOOK'
+  | 'GET_FIELD_MAPPING'
+  | 'UPDATE_FIELD_MAPPING'
+  | 'GET_EXPORT_OPTIONS'
+  | 'EXPORT_CONTACTS'
+  | 'PREVIEW_CONNECTIONS_CSV'
+  | 'IMPORT_CONNECTIONS_CSV'
+  | 'GET_LINKEDIN_ACCOUNTS'
+  | 'SWITCH_LINKEDIN_ACCOUNT'
   | 'LINKEDIN_ACTIVITY';
 
 export interface ExtensionMessage<T = unknown> {
@@ -138,29 +595,84 @@ export interface MessageResponse<T = unknown> {
 
 // Storage Keys
 export const STORAGE_KEYS = {
-  AUTH_TOKEN: 'auth_token',
+  AUTH_TOKEN: 'auth_token', // The Supabase access token, mirrored for the REST sink
+  SUPABASE_SESSION: 'supabase_session',
   USER: 'user',
   SYNC_STATE: 'sync_state',
+  SYNC_JOB: 'sync_job',
+  JOB_QUEUE: 'job_queue',
+  SYNC_WATERMARK: 'sync_watermark',
+  LAST_FULL_SYNC: 'last_full_sync',
+  REFRESH_USAGE: 'refresh_usage',
+  WEBHOOK_DELIVERIES: 'webhook_deliveries',
+  FIELD_MAPPING: 'field_mapping',
+  EXPORT_OPTIONS: 'export_options',
+  LAST_SCHEDULED_EXPORT: 'last_scheduled_export',
   RATE_LIMIT_STATE: 'rate_limit_state',
+  LINKEDIN_ACCOUNTS: 'linkedin_accounts',
+  ACTIVE_LINKEDIN_ACCOUNT: 'active_linkedin_account',
+  LINKEDIN_SESSION: 'linkedin_session',
+  // Captured Voyager headers, see background/header-interceptor.ts
+  LINKEDIN_HEADERS: 'linkedinHeaders',
+  LINKEDIN_HEADERS_UPDATED_AT: 'linkedinHeadersUpdatedAt',
+  LINKEDIN_HEADERS_FOR_AUTO_SYNC: 'linkedinHeadersForAutoSync',
+  LINKEDIN_HEADERS_FOR_MANUAL_SYNC: 'linkedinHeadersForManualSync',
   SETTINGS: 'settings',
 } as const;
 
 // Settings
 export interface ExtensionSettings {
-  api_url: string;
+  crm_sink: CrmSinkType; // Where contacts, profiles and sync history are written
+  api_url: string; // Base URL of the REST sink
+  supabase_url: string; // Project for sign-in, the enrichment queue and the Supabase sink
+  supabase_anon_key: string;
   auto_sync_enabled: boolean;
-  auto_sync_time: string; // "09:00"
+  auto_sync_mode: AutoSyncMode;
+  auto_sync_time: string; // "09:00", for daily and weekdays
+  auto_sync_interval_hours: number; // For interval
+  refresh_enabled: boolean; // Re-enrich stale profiles in the background
+  refresh_daily_budget: number; // Profile requests re-enrichment may spend per day
   rate_limit_per_hour: number;
   rate_limit_per_day: number;
   show_notifications: boolean;
+  webhook_enabled: boolean;
+  webhook_url: string;
+  webhook_secret: string; // HMAC key for the X-CRM-Signature header
+  export_schedule: ExportSchedule; // Recurring download with the last used export options
+}
+
+// supabase: write to the tables directly; rest: POST to our backend at api_url
+export type CrmSinkType = 'supabase' | 'rest';
+
+// daily/weekdays run at auto_sync_time; interval runs every auto_sync_interval_hours
+export type AutoSyncMode = 'daily' | 'weekdays' | 'interval';
+
+// GET_SCHEDULE response
+export interface AutoSyncSchedule {
+  enabled: boolean;
+  mode: AutoSyncMode;
+  time: string;
+  interval_hours: number;
+  next_run: number | null; // When the auto-sync alarm fires next
 }
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
+  crm_sink: 'supabase',
   api_url: import.meta.env.VITE_API_URL || 'http://localhost:3000',
+  supabase_url: import.meta.env.VITE_SUPABASE_URL || '',
+  supabase_anon_key: import.meta.env.VITE_SUPABASE_ANON_KEY || '',
   auto_sync_enabled: true,
+  auto_sync_mode: 'interval',
   auto_sync_time: '09:00',
+  auto_sync_interval_hours: 12,
+  refresh_enabled: true,
+  refresh_daily_budget: 20,
   rate_limit_per_hour: 200,
   rate_limit_per_day: 1000,
   show_notifications: true,
+  webhook_enabled: false,
+  webhook_url: '',
+  webhook_secret: '',
+  export_schedule: 'off',
 };
 
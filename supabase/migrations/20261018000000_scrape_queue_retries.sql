@@ -0,0 +1,34 @@
+-- Enrichment queue with retries and dead-lettering.
+-- Rows move pending -> in_progress -> done, or to failed (retried after
+-- next_attempt_at) and finally gone (parked) when a profile is unavailable
+-- or ran out of attempts.
+
+create table if not exists scrape_queue (
+  id uuid primary key default gen_random_uuid(),
+  contact_id uuid references contacts (id) on delete cascade,
+  linkedin_url text not null unique,
+  status text not null default 'pending',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+alter table scrape_queue add column if not exists attempts integer not null default 0;
+alter table scrape_queue add column if not exists last_error text;
+alter table scrape_queue add column if not exists next_attempt_at timestamptz not null default now();
+
+-- Rows written by earlier versions
+update scrape_queue set status = 'done' where status = 'completed';
+
+alter table scrape_queue drop constraint if exists scrape_queue_status_check;
+alter table scrape_queue add constraint scrape_queue_status_check
+  check (status in ('pending', 'in_progress', 'done', 'failed', 'gone'));
+
+create index if not exists scrape_queue_claim_idx
+  on scrape_queue (next_attempt_at)
+  where status in ('pending', 'in_progress', 'failed');
+
+-- Queue everything that was waiting on the old needs_enrichment flag
+insert into scrape_queue (contact_id, linkedin_url)
+select id, linkedin_url from contacts where needs_enrichment
+on conflict (linkedin_url) do nothing;
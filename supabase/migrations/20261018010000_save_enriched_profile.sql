@@ -0,0 +1,146 @@
+-- Atomic profile write.
+-- Updates (or creates) the contact, replaces its experiences, educations and
+-- skills, and upserts the linkedin_profiles snapshot in one transaction, so a
+-- failed insert can no longer leave a contact without its history.
+--
+-- p_contact holds the contacts columns to write; columns it doesn't mention
+-- keep their current value. A null child array leaves that table untouched.
+-- Returns the number of rows written per table.
+
+create or replace function save_enriched_profile(
+  p_contact_id uuid,
+  p_contact jsonb,
+  p_experiences jsonb default null,
+  p_educations jsonb default null,
+  p_skills jsonb default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_existing contacts;
+  v_row contacts;
+  v_created boolean := false;
+  v_experiences integer;
+  v_educations integer;
+  v_skills integer;
+  -- Keys jsonb_populate_record fills in for child rows; ignored where the table has no such column
+  v_child_defaults jsonb;
+begin
+  if p_contact_id is not null then
+    select * into v_existing from contacts where id = p_contact_id for update;
+  else
+    select * into v_existing from contacts where linkedin_url = p_contact->>'linkedin_url' for update;
+  end if;
+
+  if v_existing.id is null then
+    if p_contact_id is not null then
+      raise exception 'Contact % not found', p_contact_id;
+    end if;
+
+    insert into contacts (linkedin_url, name)
+    values (p_contact->>'linkedin_url', p_contact->>'name')
+    returning * into v_existing;
+    v_created := true;
+  end if;
+
+  v_row := jsonb_populate_record(v_existing, p_contact);
+
+  update contacts set
+    name = v_row.name,
+    title = v_row.title,
+    company = v_row.company,
+    occupation = v_row.occupation,
+    profile_image_url = v_row.profile_image_url,
+    connected_at = v_row.connected_at,
+    location = v_row.location,
+    headline = v_row.headline,
+    about = v_row.about,
+    industry = v_row.industry,
+    email = v_row.email,
+    phone = v_row.phone,
+    website = v_row.website,
+    source = v_row.source,
+    linkedin_data = v_row.linkedin_data,
+    data_hash = v_row.data_hash,
+    needs_enrichment = v_row.needs_enrichment,
+    scraped_at = v_row.scraped_at,
+    updated_at = now()
+  where id = v_existing.id;
+
+  v_child_defaults := jsonb_build_object('contact_id', v_existing.id, 'created_at', now());
+
+  if p_experiences is not null then
+    delete from experiences where contact_id = v_existing.id;
+    insert into experiences
+    select (jsonb_populate_record(null::experiences,
+      jsonb_build_object('id', gen_random_uuid()) || elem || v_child_defaults)).*
+    from jsonb_array_elements(p_experiences) as elem;
+    get diagnostics v_experiences = row_count;
+  end if;
+
+  if p_educations is not null then
+    delete from educations where contact_id = v_existing.id;
+    insert into educations
+    select (jsonb_populate_record(null::educations,
+      jsonb_build_object('id', gen_random_uuid()) || elem || v_child_defaults)).*
+    from jsonb_array_elements(p_educations) as elem;
+    get diagnostics v_educations = row_count;
+  end if;
+
+  if p_skills is not null then
+    delete from skills where contact_id = v_existing.id;
+    insert into skills
+    select (jsonb_populate_record(null::skills,
+      jsonb_build_object('id', gen_random_uuid()) || elem || v_child_defaults)).*
+    from jsonb_array_elements(p_skills) as elem;
+    get diagnostics v_skills = row_count;
+  end if;
+
+  insert into linkedin_profiles (
+    contact_id, linkedin_url, full_name, first_name, last_name, headline, location, about,
+    profile_image_url, current_title, current_company, experience, education, skills,
+    scrape_status, scraped_at
+  ) values (
+    v_existing.id,
+    v_row.linkedin_url,
+    v_row.name,
+    nullif(split_part(v_row.name, ' ', 1), ''),
+    nullif(regexp_replace(v_row.name, '^[^ ]* ?', ''), ''),
+    v_row.headline,
+    v_row.location,
+    v_row.about,
+    v_row.profile_image_url,
+    v_row.title,
+    v_row.company,
+    coalesce(v_row.linkedin_data->'experiences', '[]'::jsonb),
+    coalesce(v_row.linkedin_data->'educations', '[]'::jsonb),
+    coalesce(v_row.linkedin_data->'skills', '[]'::jsonb),
+    'complete',
+    v_row.scraped_at
+  )
+  on conflict (linkedin_url) do update set
+    contact_id = excluded.contact_id,
+    full_name = excluded.full_name,
+    first_name = excluded.first_name,
+    last_name = excluded.last_name,
+    headline = excluded.headline,
+    location = excluded.location,
+    about = excluded.about,
+    profile_image_url = excluded.profile_image_url,
+    current_title = excluded.current_title,
+    current_company = excluded.current_company,
+    experience = excluded.experience,
+    education = excluded.education,
+    skills = excluded.skills,
+    scrape_status = excluded.scrape_status,
+    scraped_at = excluded.scraped_at;
+
+  return jsonb_build_object(
+    'contact_id', v_existing.id,
+    'contact_created', v_created,
+    'experiences', v_experiences,
+    'educations', v_educations,
+    'skills', v_skills
+  );
+end;
+$$;
@@ -0,0 +1,18 @@
+-- Profile change history.
+-- A snapshot is stored whenever an enrichment finds the profile changed,
+-- along with the field-level changes since the previous snapshot.
+
+create table if not exists profile_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  contact_id uuid references contacts (id) on delete cascade,
+  linkedin_url text not null,
+  snapshot_data jsonb not null,
+  data_hash text,
+  scraped_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+alter table profile_snapshots add column if not exists changes jsonb not null default '[]'::jsonb;
+
+create index if not exists profile_snapshots_contact_idx
+  on profile_snapshots (contact_id, scraped_at desc);
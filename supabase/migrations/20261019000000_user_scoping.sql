@@ -0,0 +1,209 @@
+-- Per-user data.
+-- Every CRM table gets a user_id owned by the signed-in Supabase Auth user,
+-- and row level security limits each user to their own rows. user_id
+-- defaults to auth.uid(), so writes from older clients land on the right user.
+--
+-- Rows written before this migration have no user_id and are invisible to
+-- everyone; assign them to their owner once with, for example:
+--   update contacts set user_id = '<user id>' where user_id is null;
+-- (and the same for the other tables).
+
+alter table contacts add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table sync_history add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table linkedin_profiles add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table profile_snapshots add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table scrape_queue add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table interactions add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table follow_ups add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+-- Two users can both be connected to the same profile
+alter table contacts drop constraint if exists contacts_linkedin_url_key;
+alter table contacts add constraint contacts_user_linkedin_url_key unique (user_id, linkedin_url);
+alter table linkedin_profiles drop constraint if exists linkedin_profiles_linkedin_url_key;
+alter table linkedin_profiles add constraint linkedin_profiles_user_linkedin_url_key unique (user_id, linkedin_url);
+alter table scrape_queue drop constraint if exists scrape_queue_linkedin_url_key;
+alter table scrape_queue add constraint scrape_queue_user_linkedin_url_key unique (user_id, linkedin_url);
+
+create index if not exists sync_history_user_idx on sync_history (user_id, started_at desc);
+create index if not exists profile_snapshots_user_idx on profile_snapshots (user_id);
+create index if not exists interactions_user_idx on interactions (user_id);
+create index if not exists follow_ups_user_idx on follow_ups (user_id);
+
+-- Tables with their own user_id
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array[
+    'contacts', 'sync_history', 'linkedin_profiles', 'profile_snapshots',
+    'scrape_queue', 'interactions', 'follow_ups'
+  ] loop
+    execute format('alter table %I enable row level security', v_table);
+    execute format('drop policy if exists %I on %I', v_table || '_owner', v_table);
+    execute format(
+      'create policy %I on %I for all to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid())',
+      v_table || '_owner', v_table
+    );
+  end loop;
+end;
+$$;
+
+-- Child rows belong to whoever owns their contact
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['experiences', 'educations', 'skills'] loop
+    execute format('alter table %I enable row level security', v_table);
+    execute format('drop policy if exists %I on %I', v_table || '_owner', v_table);
+    execute format(
+      'create policy %I on %I for all to authenticated '
+      'using (exists (select 1 from contacts c where c.id = contact_id and c.user_id = auth.uid())) '
+      'with check (exists (select 1 from contacts c where c.id = contact_id and c.user_id = auth.uid()))',
+      v_table || '_owner', v_table
+    );
+  end loop;
+end;
+$$;
+
+-- save_enriched_profile runs as the caller, so row level security already
+-- applies; it also scopes its lookups and writes explicitly to the caller
+create or replace function save_enriched_profile(
+  p_contact_id uuid,
+  p_contact jsonb,
+  p_experiences jsonb default null,
+  p_educations jsonb default null,
+  p_skills jsonb default null
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_existing contacts;
+  v_row contacts;
+  v_created boolean := false;
+  v_experiences integer;
+  v_educations integer;
+  v_skills integer;
+  -- Keys jsonb_populate_record fills in for child rows; ignored where the table has no such column
+  v_child_defaults jsonb;
+begin
+  if p_contact_id is not null then
+    select * into v_existing from contacts where id = p_contact_id and user_id = auth.uid() for update;
+  else
+    select * into v_existing from contacts
+    where user_id = auth.uid() and linkedin_url = p_contact->>'linkedin_url' for update;
+  end if;
+
+  if v_existing.id is null then
+    if p_contact_id is not null then
+      raise exception 'Contact % not found', p_contact_id;
+    end if;
+
+    insert into contacts (user_id, linkedin_url, name)
+    values (auth.uid(), p_contact->>'linkedin_url', p_contact->>'name')
+    returning * into v_existing;
+    v_created := true;
+  end if;
+
+  v_row := jsonb_populate_record(v_existing, p_contact);
+
+  update contacts set
+    name = v_row.name,
+    title = v_row.title,
+    company = v_row.company,
+    occupation = v_row.occupation,
+    profile_image_url = v_row.profile_image_url,
+    connected_at = v_row.connected_at,
+    location = v_row.location,
+    headline = v_row.headline,
+    about = v_row.about,
+    industry = v_row.industry,
+    email = v_row.email,
+    phone = v_row.phone,
+    website = v_row.website,
+    source = v_row.source,
+    linkedin_data = v_row.linkedin_data,
+    data_hash = v_row.data_hash,
+    needs_enrichment = v_row.needs_enrichment,
+    scraped_at = v_row.scraped_at,
+    updated_at = now()
+  where id = v_existing.id;
+
+  v_child_defaults := jsonb_build_object('contact_id', v_existing.id, 'created_at', now());
+
+  if p_experiences is not null then
+    delete from experiences where contact_id = v_existing.id;
+    insert into experiences
+    select (jsonb_populate_record(null::experiences,
+      jsonb_build_object('id', gen_random_uuid()) || elem || v_child_defaults)).*
+    from jsonb_array_elements(p_experiences) as elem;
+    get diagnostics v_experiences = row_count;
+  end if;
+
+  if p_educations is not null then
+    delete from educations where contact_id = v_existing.id;
+    insert into educations
+    select (jsonb_populate_record(null::educations,
+      jsonb_build_object('id', gen_random_uuid()) || elem || v_child_defaults)).*
+    from jsonb_array_elements(p_educations) as elem;
+    get diagnostics v_educations = row_count;
+  end if;
+
+  if p_skills is not null then
+    delete from skills where contact_id = v_existing.id;
+    insert into skills
+    select (jsonb_populate_record(null::skills,
+      jsonb_build_object('id', gen_random_uuid()) || elem || v_child_defaults)).*
+    from jsonb_array_elements(p_skills) as elem;
+    get diagnostics v_skills = row_count;
+  end if;
+
+  insert into linkedin_profiles (
+    user_id, contact_id, linkedin_url, full_name, first_name, last_name, headline, location, about,
+    profile_image_url, current_title, current_company, experience, education, skills,
+    scrape_status, scraped_at
+  ) values (
+    auth.uid(),
+    v_existing.id,
+    v_row.linkedin_url,
+    v_row.name,
+    nullif(split_part(v_row.name, ' ', 1), ''),
+    nullif(regexp_replace(v_row.name, '^[^ ]* ?', ''), ''),
+    v_row.headline,
+    v_row.location,
+    v_row.about,
+    v_row.profile_image_url,
+    v_row.title,
+    v_row.company,
+    coalesce(v_row.linkedin_data->'experiences', '[]'::jsonb),
+    coalesce(v_row.linkedin_data->'educations', '[]'::jsonb),
+    coalesce(v_row.linkedin_data->'skills', '[]'::jsonb),
+    'complete',
+    v_row.scraped_at
+  )
+  on conflict (user_id, linkedin_url) do update set
+    contact_id = excluded.contact_id,
+    full_name = excluded.full_name,
+    first_name = excluded.first_name,
+    last_name = excluded.last_name,
+    headline = excluded.headline,
+    location = excluded.location,
+    about = excluded.about,
+    profile_image_url = excluded.profile_image_url,
+    current_title = excluded.current_title,
+    current_company = excluded.current_company,
+    experience = excluded.experience,
+    education = excluded.education,
+    skills = excluded.skills,
+    scrape_status = excluded.scrape_status,
+    scraped_at = excluded.scraped_at;
+
+  return jsonb_build_object(
+    'contact_id', v_existing.id,
+    'contact_created', v_created,
+    'experiences', v_experiences,
+    'educations', v_educations,
+    'skills', v_skills
+  );
+end;
+$$;
@@ -0,0 +1,8 @@
+-- LinkedIn accounts per contact.
+-- The member URNs of the LinkedIn accounts a contact was synced through, so a
+-- full sync of one account only archives the connections it lost.
+
+alter table contacts add column if not exists linkedin_accounts text[] not null default '{}';
+
+create index if not exists contacts_linkedin_accounts_idx
+  on contacts using gin (linkedin_accounts);
@@ -0,0 +1,48 @@
+-- Rows written before 20261019000000_user_scoping have no user_id, so row
+-- level security hides them from everyone. An admin gives them to their owner
+-- once, from the SQL editor or with the service role key:
+--   select assign_unowned_rows('<user id>');
+-- Signed-in users can't call it, so nobody can take rows that aren't theirs.
+--
+-- A row whose profile URL the owner already has is left without an owner,
+-- as the owner's own row wins.
+
+drop function if exists claim_unowned_rows();
+
+create or replace function assign_unowned_rows(p_user uuid) returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_table text;
+  v_count integer;
+  v_assigned jsonb := '{}'::jsonb;
+begin
+  if not exists (select 1 from auth.users where id = p_user) then
+    raise exception 'No user %', p_user;
+  end if;
+
+  -- Unique per user and profile URL
+  foreach v_table in array array['contacts', 'linkedin_profiles', 'scrape_queue'] loop
+    execute format(
+      'update %1$I t set user_id = $1 where t.user_id is null '
+      'and not exists (select 1 from %1$I o where o.user_id = $1 and o.linkedin_url = t.linkedin_url)',
+      v_table
+    ) using p_user;
+    get diagnostics v_count = row_count;
+    v_assigned := v_assigned || jsonb_build_object(v_table, v_count);
+  end loop;
+
+  foreach v_table in array array['sync_history', 'profile_snapshots', 'interactions', 'follow_ups'] loop
+    execute format('update %I set user_id = $1 where user_id is null', v_table) using p_user;
+    get diagnostics v_count = row_count;
+    v_assigned := v_assigned || jsonb_build_object(v_table, v_count);
+  end loop;
+
+  return v_assigned;
+end;
+$$;
+
+revoke all on function assign_unowned_rows(uuid) from public, anon, authenticated;
+grant execute on function assign_unowned_rows(uuid) to service_role;
@@ -0,0 +1,6 @@
+-- Removed connections.
+-- When a full sync no longer finds a contact among the connections, it is
+-- archived with the time it was noticed, so a contact archived by hand stays
+-- apart from one that can be restored when it is connected again.
+
+alter table contacts add column if not exists disconnected_at timestamptz;
@@ -16,6 +16,12 @@ export default defineConfig({
   },
   build: {
     outDir: 'dist',
+    rollupOptions: {
+      // Not referenced from the manifest, so it has to be listed
+      input: {
+        offscreen: resolve(__dirname, 'src/offscreen/index.html'),
+      },
+    },
     sourcemap: process.env.NODE_ENV === 'development',
   },
   server: {